@@ -0,0 +1,151 @@
+// src/archiveDuplicates.ts
+import { graphGetAll, isGraphError, GraphBatcher, TokenSource } from "./graphClient";
+import { getDriveListFieldNames } from "./graphSharePoint";
+import { ArchiveTarget } from "./archiveQueue";
+
+/* global AbortSignal, console */
+
+/**
+ * Finding emails that were already archived, shared by every entry point.
+ *
+ * Primary check: the library's InternetMessageId column (library-wide).
+ * Fallback when the column doesn't exist: compare the .eml's quickXorHash
+ * with the files already in the destination folder. That fallback only
+ * sees that one folder (not subfolders or the rest of the library), and
+ * is skipped when no .eml is written: a PDF is rendered afresh each time,
+ * so its hash never matches an earlier copy.
+ */
+
+export const FIELD_INTERNET_ID = "InternetMessageId";
+
+/** What to do when the email is already in the library. */
+export type ConflictPolicy = "skip" | "replace" | "keepBoth" | "updateMetadata";
+
+export const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  skip: "Skip duplicates",
+  replace: "Replace existing",
+  keepBoth: "Keep both",
+  updateMetadata: "Update metadata only",
+};
+
+export interface ArchivedCopy {
+  id: string;
+  name: string;
+  webUrl?: string;
+  createdDateTime?: string;
+  createdBy?: { user?: { displayName?: string; email?: string } };
+  parentReference?: { driveId?: string; path?: string };
+}
+
+const ARCHIVED_COPY_SELECT = "id,name,webUrl,createdDateTime,createdBy,parentReference";
+
+interface FolderChild extends ArchivedCopy {
+  file?: { hashes?: { quickXorHash?: string } };
+}
+
+/**
+ * Items whose InternetMessageId column matches. Returns undefined when the
+ * library has no such column (so the caller knows to fall back).
+ */
+export async function findByInternetMessageId(
+  token: TokenSource,
+  target: ArchiveTarget,
+  internetMessageId: string,
+  opts: { batcher?: GraphBatcher; signal?: AbortSignal } = {}
+): Promise<ArchivedCopy[] | undefined> {
+  const fields = await getDriveListFieldNames(
+    token,
+    target.siteId,
+    target.driveId,
+    opts.batcher
+  ).catch(() => new Set<string>());
+  if (!fields.has(FIELD_INTERNET_ID)) return undefined;
+  if (!internetMessageId) return [];
+
+  // Values contain '<', '>' and '@': escape quotes for OData, then URL-encode
+  const filterVal = encodeURIComponent(internetMessageId.replace(/'/g, "''"));
+  const items = await graphGetAll<{ driveItem?: ArchivedCopy }>(
+    `/sites/${target.siteId}/drives/${target.driveId}/list/items` +
+      `?$filter=fields/${FIELD_INTERNET_ID} eq '${filterVal}'&$expand=driveItem($select=${ARCHIVED_COPY_SELECT})&$top=20`,
+    token,
+    { signal: opts.signal, headers: { Prefer: "HonorNonIndexedQueriesWarningMayFailRandomly" } }
+  );
+  return items.map((i) => i.driveItem).filter((d): d is ArchivedCopy => !!d?.id);
+}
+
+// Folder listings are cached briefly so a bulk run lists each folder once
+const FOLDER_CACHE_MS = 2 * 60 * 1000;
+const folderCache = new Map<string, { at: number; items: Promise<FolderChild[]> }>();
+
+const folderKey = (target: ArchiveTarget) => `${target.driveId}|${target.folderPath || ""}`;
+
+function listFolderFiles(
+  token: TokenSource,
+  target: ArchiveTarget,
+  signal?: AbortSignal
+): Promise<FolderChild[]> {
+  const key = folderKey(target);
+  const cached = folderCache.get(key);
+  if (cached && Date.now() - cached.at < FOLDER_CACHE_MS) return cached.items;
+
+  const path = (target.folderPath || "")
+    .split("/")
+    .filter(Boolean)
+    .map(encodeURIComponent)
+    .join("/");
+  const base = `/sites/${target.siteId}/drives/${target.driveId}`;
+  const url = path ? `${base}/root:/${path}:/children` : `${base}/root/children`;
+  const items = graphGetAll<FolderChild>(`${url}?$select=id,name,webUrl,file&$top=200`, token, {
+    signal,
+  }).catch((e) => {
+    folderCache.delete(key);
+    // A folder that doesn't exist yet can't hold a duplicate
+    if (isGraphError(e) && e.status === 404) return [] as FolderChild[];
+    throw e;
+  });
+  folderCache.set(key, { at: Date.now(), items });
+  return items;
+}
+
+/** Files in the destination folder with the same content hash. */
+export async function findByContentHash(
+  token: TokenSource,
+  target: ArchiveTarget,
+  quickXorHash: string,
+  signal?: AbortSignal
+): Promise<ArchivedCopy[]> {
+  const files = await listFolderFiles(token, target, signal);
+  return files
+    .filter((f) => f.file?.hashes?.quickXorHash === quickXorHash)
+    .map(({ id, name, webUrl }) => ({ id, name, webUrl }));
+}
+
+/** Record a just-uploaded file so later items in the same run see it. */
+export function rememberArchivedFile(target: ArchiveTarget, item: FolderChild): void {
+  const cached = folderCache.get(folderKey(target));
+  if (cached) cached.items = cached.items.then((list) => [...list, item]);
+}
+
+/**
+ * Look up existing copies of an email. `getEmlHash` is only called when
+ * the InternetMessageId column is missing; pass undefined when the job
+ * writes no .eml (nothing to compare, so no duplicates are found).
+ */
+export async function findArchivedCopies(
+  token: TokenSource,
+  target: ArchiveTarget,
+  internetMessageId: string | undefined,
+  getEmlHash: (() => Promise<string>) | undefined,
+  opts: { batcher?: GraphBatcher; signal?: AbortSignal } = {}
+): Promise<ArchivedCopy[]> {
+  try {
+    const byId = await findByInternetMessageId(token, target, internetMessageId || "", opts);
+    if (byId) return byId;
+    if (!getEmlHash) return [];
+    return await findByContentHash(token, target, await getEmlHash(), opts.signal);
+  } catch (e: any) {
+    if (e?.name === "AbortError") throw e;
+    console.warn("Duplicate check failed; archiving anyway.", e);
+    return [];
+  }
+}
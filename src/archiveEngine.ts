@@ -0,0 +1,463 @@
+// src/archiveEngine.ts
+import { createBatcher, GraphBatcher, TokenSource } from "./graphClient";
+import { getMessageMime, getMessageMeta, getMessagesMeta, MessageMeta } from "./graphMail";
+import { outputExtensions, renderMessagePdf } from "./emailPdf";
+import { getDriveListColumns, patchListItemFields } from "./graphSharePoint";
+import { buildListItemFields, resolveMetadataMapping } from "./metadataMapping";
+import { findArchivedCopies, rememberArchivedFile, ArchivedCopy } from "./archiveDuplicates";
+import { quickXorHashBlob, quickXorHashStream } from "./quickXorHash";
+import { isStreamedContent, ConflictBehavior, UploadContent } from "./uploadSession";
+import { runPostArchiveActions } from "./mailActions";
+import { createAuditHook } from "./auditLog";
+import { createLearningHook } from "./learnedSuggestions";
+import { getDriveWebUrl } from "./driveFolders";
+import {
+  buildArchiveFileBaseName,
+  libraryPathFromWebUrl,
+  stripArchiveExtension,
+  DEFAULT_FILENAME_TEMPLATE,
+} from "./fileNaming";
+import {
+  getArchiveJob,
+  listResumableJobs,
+  pruneCompletedJobs,
+  runArchiveJob,
+  uploadWithResume,
+  ArchiveItemContext,
+  ArchiveJob,
+  ArchiveJobItem,
+  ArchiveOutcome,
+  ArchiveTarget,
+} from "./archiveQueue";
+
+/* global AbortSignal, console */
+
+/**
+ * The one archive pipeline, used by the task pane, the Bulk Archive dialog
+ * and the ribbon command. Each email goes through the same stages:
+ *
+ *   source      → message properties and the raw MIME
+ *   transforms  → one output file per format (.eml, .pdf)
+ *   destination → duplicate check and upload
+ *   metadata    → library columns on every uploaded file
+ *   postActions → mailbox actions on the original email
+ *
+ * Every stage can be swapped (e.g. a different destination); the engine
+ * persists progress through the archive queue and reports it as typed
+ * events, so surfaces only render.
+ */
+
+/** What every stage gets for the email being archived. */
+export interface ArchiveStageContext {
+  token: TokenSource;
+  target: ArchiveTarget;
+  /** The queue item (persisted state, progress, cancel signal) */
+  item: ArchiveItemContext;
+  /** Shared by the run so concurrent lookups and PATCHes travel in one $batch */
+  batcher: GraphBatcher;
+}
+
+/** An email on its way through the pipeline. */
+export interface ArchiveMessage {
+  restId: string;
+  meta: MessageMeta;
+  /** The raw MIME, downloaded on first use (streamed when large) */
+  mime(): Promise<UploadContent>;
+}
+
+export type ArchiveOutputExtension = "eml" | "pdf";
+
+export interface SourceStage {
+  getMessage(restId: string, ctx: ArchiveStageContext): Promise<MessageMeta>;
+  getMime(restId: string, ctx: ArchiveStageContext): Promise<UploadContent>;
+}
+
+export interface TransformStage {
+  ext: ArchiveOutputExtension;
+  /** Same bytes on every run, so a saved upload session may be continued */
+  resumable: boolean;
+  render(message: ArchiveMessage, ctx: ArchiveStageContext): Promise<UploadContent>;
+}
+
+export interface DestinationStage {
+  /** Copies of this email already at the destination */
+  findExisting(message: ArchiveMessage, ctx: ArchiveStageContext): Promise<ArchivedCopy[]>;
+  upload(
+    fileName: string,
+    content: UploadContent,
+    opts: { resumable: boolean; replaceItemId?: string; conflictBehavior?: ConflictBehavior },
+    ctx: ArchiveStageContext
+  ): Promise<ArchivedCopy>;
+}
+
+export interface MetadataStage {
+  apply(message: ArchiveMessage, itemIds: string[], ctx: ArchiveStageContext): Promise<void>;
+}
+
+export interface PostActionStage {
+  run(message: ArchiveMessage, ctx: ArchiveStageContext): Promise<void>;
+}
+
+export interface ArchiveStages {
+  source: SourceStage;
+  transforms: TransformStage[];
+  destination: DestinationStage;
+  metadata: MetadataStage;
+  postActions: PostActionStage[];
+}
+
+/** Outcome of one job run. */
+export interface ArchiveRunSummary {
+  jobId: string;
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+  libraryLabel?: string;
+  total: number;
+  /** Uploaded, replaced or metadata updated */
+  archived: number;
+  /** Already archived, left alone */
+  skipped: number;
+  cancelled: number;
+  failed: Array<{ restId: string; error: string }>;
+}
+
+export type ArchiveEngineEvent =
+  | { type: "jobStarted"; job: ArchiveJob }
+  | { type: "itemUpdated"; job: ArchiveJob; item: ArchiveJobItem }
+  | { type: "jobUpdated"; job: ArchiveJob }
+  | { type: "jobFinished"; job: ArchiveJob; summary: ArchiveRunSummary };
+
+export interface ArchiveRunOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** Message metadata the caller already has, by restId */
+  prefetched?: Map<string, MessageMeta>;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Default stages
+   ────────────────────────────────────────────────────────────── */
+
+const encodeDrivePath = (path: string) =>
+  path.split("/").filter(Boolean).map(encodeURIComponent).join("/");
+
+export const graphMailSource: SourceStage = {
+  getMessage: (restId, { token, item }) => getMessageMeta(restId, token, item.signal),
+  getMime: (restId, { token, item }) =>
+    getMessageMime(restId, token, {
+      signal: item.signal,
+      onProgress: (read, total) =>
+        item.reportProgress({ bytesDownloaded: read, bytesTotal: total }),
+    }),
+};
+
+export const emlTransform: TransformStage = {
+  ext: "eml",
+  resumable: true,
+  render: (message) => message.mime(),
+};
+
+export const pdfTransform: TransformStage = {
+  ext: "pdf",
+  // Rendered afresh each time, so the bytes can differ between runs
+  resumable: false,
+  render: (message, { token, item }) => renderMessagePdf(message.restId, token, item.signal),
+};
+
+export const sharePointDestination: DestinationStage = {
+  findExisting: (message, { token, target, batcher, item }) =>
+    findArchivedCopies(
+      token,
+      target,
+      message.meta.internetMessageId,
+      outputExtensions(item.job.outputFormat).indexOf("eml") < 0
+        ? undefined
+        : async () => {
+            const mime = await message.mime();
+            // A streamed message is read once for the hash and again for the upload
+            return isStreamedContent(mime)
+              ? quickXorHashStream(await mime.open(item.signal))
+              : quickXorHashBlob(mime);
+          },
+      { batcher, signal: item.signal }
+    ),
+  async upload(fileName, content, opts, { token, target, item }) {
+    const path = encodeDrivePath(target.folderPath ? `${target.folderPath}/${fileName}` : fileName);
+    // Metadata goes on the item Graph returns: the renamed file when the name was taken
+    const uploaded = await uploadWithResume<ArchivedCopy>(item, token, path, content, opts);
+    rememberArchivedFile(target, uploaded);
+    return uploaded;
+  },
+};
+
+/** Message properties on each file, per the job's metadata mapping (see metadataMapping.ts). */
+export const listItemMetadata: MetadataStage = {
+  async apply(message, itemIds, { token, target, batcher, item }) {
+    const { siteId, driveId } = target;
+    // Retried outside the batch like the PATCHes; still failing fails the item (it can be retried)
+    const columns = await getDriveListColumns(token, siteId, driveId, batcher).catch((e) => {
+      if (e?.name === "AbortError") throw e;
+      return getDriveListColumns(token, siteId, driveId);
+    });
+    const fields = await buildListItemFields(
+      message.meta,
+      columns,
+      resolveMetadataMapping(item.job.metadataMapping),
+      {
+        token,
+        siteId,
+        restId: message.restId,
+        signal: item.signal,
+      }
+    );
+    for (const id of itemIds) {
+      // A throttled batch part is retried on its own (graphPATCH retries with backoff)
+      await patchListItemFields(token, siteId, driveId, id, fields, batcher).catch((e) => {
+        if (e?.name === "AbortError") throw e;
+        return patchListItemFields(token, siteId, driveId, id, fields);
+      });
+    }
+  },
+};
+
+export const mailboxPostActions: PostActionStage = {
+  run: (message, { token, item }) => runPostArchiveActions(token, message.restId, item),
+};
+
+export const DEFAULT_STAGES: ArchiveStages = {
+  source: graphMailSource,
+  transforms: [emlTransform, pdfTransform],
+  destination: sharePointDestination,
+  metadata: listItemMetadata,
+  postActions: [mailboxPostActions],
+};
+
+/* ──────────────────────────────────────────────────────────────
+   Engine
+   ────────────────────────────────────────────────────────────── */
+
+export function summarizeArchiveJob(job: ArchiveJob): ArchiveRunSummary {
+  const done = job.items.filter((i) => i.state === "done");
+  const skipped = done.filter((i) => i.outcome === "skipped").length;
+  return {
+    jobId: job.id,
+    siteId: job.siteId,
+    driveId: job.driveId,
+    folderPath: job.folderPath,
+    libraryLabel: job.libraryLabel,
+    total: job.items.length,
+    archived: done.length - skipped,
+    skipped,
+    cancelled: job.items.filter((i) => i.state === "cancelled").length,
+    failed: job.items
+      .filter((i) => i.state === "failed")
+      .map((i) => ({ restId: i.restId, error: i.error || "" })),
+  };
+}
+
+export interface ArchiveEngineOptions {
+  token: TokenSource;
+  stages?: Partial<ArchiveStages>;
+  /** After an archived email taught the learned suggestions something */
+  onTrained?: () => void;
+}
+
+export interface ArchiveEngine {
+  /** Listen to run events; returns the unsubscribe function. */
+  on(listener: (event: ArchiveEngineEvent) => void): () => void;
+  /**
+   * Run (or continue) a persisted job; null if it no longer exists or
+   * another pane/dialog is running it.
+   */
+  run(jobId: string, opts?: ArchiveRunOptions): Promise<ArchiveRunSummary | null>;
+  /** Run every unfinished job no other surface is running. */
+  resumeAll(opts?: ArchiveRunOptions): Promise<ArchiveRunSummary[]>;
+  /** Message metadata seen by the engine */
+  message(restId: string): MessageMeta | undefined;
+}
+
+export function createArchiveEngine(options: ArchiveEngineOptions): ArchiveEngine {
+  const { token } = options;
+  const stages: ArchiveStages = { ...DEFAULT_STAGES, ...options.stages };
+  const listeners = new Set<(event: ArchiveEngineEvent) => void>();
+  const messages = new Map<string, MessageMeta>();
+
+  const emit = (event: ArchiveEngineEvent) =>
+    listeners.forEach((l) => {
+      try {
+        l(event);
+      } catch (e) {
+        console.error("Archive engine listener failed:", e);
+      }
+    });
+
+  async function archiveOne(
+    restId: string,
+    target: ArchiveTarget,
+    item: ArchiveItemContext,
+    batcher: GraphBatcher
+  ) {
+    const ctx: ArchiveStageContext = { token, target, item, batcher };
+    const meta = messages.get(restId) || (await stages.source.getMessage(restId, ctx));
+    messages.set(restId, meta);
+    let mime: Promise<UploadContent> | null = null;
+    const message: ArchiveMessage = {
+      restId,
+      meta,
+      mime: () => {
+        if (!mime) {
+          mime = stages.source.getMime(restId, ctx);
+          mime.catch(() => (mime = null));
+        }
+        return mime;
+      },
+    };
+
+    const { job } = item;
+    const policy = job.conflictPolicy || "skip";
+    await item.setState("downloading", {
+      subject: meta.subject,
+      internetMessageId: meta.internetMessageId,
+      fromAddress: meta.from?.emailAddress?.address,
+    });
+
+    // Not re-checked on a retry that already uploaded part of the item
+    const existing =
+      policy === "keepBoth" || item.item.outputsDone?.length
+        ? []
+        : await stages.destination.findExisting(message, ctx);
+    if (existing.length && policy === "skip") {
+      for (const post of stages.postActions) await post.run(message, ctx);
+      await item.setState("done", {
+        outcome: "skipped",
+        driveItemId: existing[0].id,
+        webUrl: existing[0].webUrl,
+      });
+      return;
+    }
+
+    // One file per requested output, sharing a base name
+    const baseName =
+      stripArchiveExtension(item.item.fileName || "") ||
+      buildArchiveFileBaseName(job.fileNameTemplate || DEFAULT_FILENAME_TEMPLATE, {
+        message: meta,
+        folderPath: target.folderPath,
+        libraryPath: libraryPathFromWebUrl(
+          await getDriveWebUrl(ctx.token, target.driveId).catch(() => "")
+        ),
+        projectNumberPattern: job.projectNumberPattern,
+      });
+    const outputsDone = [...(item.item.outputsDone || [])];
+    const uploadedIds = [...(item.item.uploadedItemIds || [])];
+    let outcome: ArchiveOutcome = "uploaded";
+    let primary: ArchivedCopy | undefined;
+
+    if (existing.length && policy === "updateMetadata") {
+      existing.forEach((e) => uploadedIds.push(e.id));
+      primary = existing[0];
+      outcome = "metadataUpdated";
+    } else {
+      for (const ext of outputExtensions(job.outputFormat)) {
+        const transform = stages.transforms.find((t) => t.ext === ext);
+        if (!transform || outputsDone.indexOf(ext) >= 0) continue;
+        const fileName = `${baseName}.${ext}`;
+        const content = await transform.render(message, ctx);
+        const replace =
+          policy === "replace"
+            ? existing.filter((e) => e.name.toLowerCase().endsWith(`.${ext}`))[0]
+            : undefined;
+        if (replace) outcome = "replaced";
+
+        await item.setState("uploading", { fileName });
+        const uploaded = await stages.destination.upload(
+          fileName,
+          content,
+          {
+            resumable: transform.resumable,
+            replaceItemId: replace?.id,
+            // A same-named file the duplicate check didn't match: overwrite it only when replacing
+            conflictBehavior: policy === "replace" ? "replace" : "rename",
+          },
+          ctx
+        );
+        primary = primary || uploaded;
+        outputsDone.push(ext);
+        uploadedIds.push(uploaded.id);
+        await item.setState("uploading", {
+          fileName: uploaded.name,
+          outputsDone: [...outputsDone],
+          uploadedItemIds: [...uploadedIds],
+          uploadSession: undefined,
+        });
+      }
+    }
+
+    await item.setState(
+      "patching",
+      primary ? { driveItemId: primary.id, webUrl: primary.webUrl } : {}
+    );
+    await stages.metadata.apply(message, uploadedIds, ctx);
+    for (const post of stages.postActions) await post.run(message, ctx);
+    await item.setState("done", { outcome, uploadSession: undefined });
+  }
+
+  async function run(
+    jobId: string,
+    opts: ArchiveRunOptions = {}
+  ): Promise<ArchiveRunSummary | null> {
+    const job = await getArchiveJob(jobId);
+    if (!job) return null;
+    (opts.prefetched || new Map<string, MessageMeta>()).forEach((m, id) => messages.set(id, m));
+
+    // One $batch for the metadata still missing; lookups and PATCHes share a batcher
+    const missing = job.items
+      .filter((i) => i.state !== "done" && !messages.has(i.restId))
+      .map((i) => i.restId);
+    (await getMessagesMeta(missing, token)).forEach((m, id) => messages.set(id, m));
+    const batcher = createBatcher(token);
+    const audit = createAuditHook(token);
+    const learn = createLearningHook((restId) => messages.get(restId), options.onTrained);
+
+    emit({ type: "jobStarted", job });
+    const finished = await runArchiveJob(
+      jobId,
+      (restId, target, item) => archiveOne(restId, target, item, batcher),
+      {
+        onItemUpdate: (j, item) => {
+          audit(j, item);
+          learn(j, item);
+          emit({ type: "itemUpdated", job: j, item });
+        },
+        onJobUpdate: (j) => emit({ type: "jobUpdated", job: j }),
+      },
+      { concurrency: opts.concurrency, signal: opts.signal }
+    );
+    if (!finished) return null;
+
+    const summary = summarizeArchiveJob(finished);
+    await pruneCompletedJobs();
+    emit({ type: "jobFinished", job: finished, summary });
+    return summary;
+  }
+
+  return {
+    on(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    run,
+    async resumeAll(opts = {}) {
+      const summaries: ArchiveRunSummary[] = [];
+      for (const job of await listResumableJobs()) {
+        if (opts.signal?.aborted) break;
+        const summary = await run(job.id, opts);
+        if (summary) summaries.push(summary);
+      }
+      return summaries;
+    },
+    message: (restId) => messages.get(restId),
+  };
+}
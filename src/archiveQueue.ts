@@ -0,0 +1,482 @@
+// src/archiveQueue.ts
+import { idbDelete, idbGet, idbGetAll, idbPut, idbUpdate, STORES } from "./idb";
+import { TokenSource } from "./graphClient";
+import { ArchiveOutputFormat } from "./emailPdf";
+import { ConflictPolicy } from "./archiveDuplicates";
+import { PostArchiveActions } from "./mailActions";
+import { MetadataMapping } from "./metadataMapping";
+import {
+  cancelUploadSession,
+  createItemUploadSession,
+  createUploadSession,
+  getUploadSessionStatus,
+  isSessionUsable,
+  resumeOffset,
+  uploadToSession,
+  ConflictBehavior,
+  UploadContent,
+  UploadSessionState,
+} from "./uploadSession";
+
+/* global AbortSignal, clearInterval, console, setInterval, setTimeout */
+
+/**
+ * ──────────────────────────────────────────────────────────────
+ * Persistent archive job queue
+ * ──────────────────────────────────────────────────────────────
+ * Jobs live in IndexedDB with per-item state, so closing the task pane
+ * or dialog mid-run loses nothing: whichever surface opens next picks
+ * up unfinished jobs (including half-uploaded upload sessions).
+ *
+ * The queue only tracks state; the actual archiving is done by the
+ * ArchiveItemProcessor passed to runArchiveJob(). The archive engine is
+ * the only caller: it builds the processor, and its resumeAll() is the one
+ * path that picks unfinished jobs back up.
+ */
+
+export type ArchiveItemState =
+  | "pending"
+  | "downloading"
+  | "uploading"
+  | "patching"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+/** How a finished item was handled (see ConflictPolicy). */
+export type ArchiveOutcome = "uploaded" | "replaced" | "skipped" | "metadataUpdated";
+
+export interface ArchiveJobItem {
+  restId: string;
+  state: ArchiveItemState;
+  subject?: string;
+  internetMessageId?: string;
+  /** Sender address, recorded in the audit history */
+  fromAddress?: string;
+  fileName?: string;
+  error?: string;
+  /** Live upload session, kept so a restart continues from the last chunk */
+  uploadSession?: UploadSessionState;
+  bytesDownloaded?: number;
+  bytesUploaded?: number;
+  bytesTotal?: number;
+  driveItemId?: string;
+  webUrl?: string;
+  /** Output files already uploaded (so a retry doesn't upload them twice) */
+  outputsDone?: Array<"eml" | "pdf">;
+  /** Items uploaded so far for this email, patched with metadata at the end */
+  uploadedItemIds?: string[];
+  outcome?: ArchiveOutcome;
+  /** Post-archive mailbox actions ran (or failed, see postActionError) */
+  mailActionsDone?: boolean;
+  postActionError?: string;
+  updatedAt: number;
+}
+
+export type ArchiveJobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface ArchiveJob {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  source: "taskpane" | "dialog";
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+  outputFormat?: ArchiveOutputFormat;
+  /** Naming for items without a pre-chosen fileName (see fileNaming.ts) */
+  fileNameTemplate?: string;
+  projectNumberPattern?: string;
+  conflictPolicy?: ConflictPolicy;
+  postArchiveActions?: PostArchiveActions;
+  /** The library's column mapping (defaults when unset) */
+  metadataMapping?: MetadataMapping;
+  /** Library display name, used for the "Filed: …" category */
+  libraryLabel?: string;
+  status: ArchiveJobStatus;
+  items: ArchiveJobItem[];
+  /** Runner lease, so the pane and dialog don't process the same job at once */
+  lease?: { owner: string; heartbeatAt: number };
+}
+
+export interface ArchiveTarget {
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+}
+
+/** Per-item hooks handed to the processor. Every call is persisted. */
+export interface ArchiveItemContext {
+  job: ArchiveJob;
+  item: ArchiveJobItem;
+  signal?: AbortSignal;
+  setState(state: ArchiveItemState, patch?: Partial<ArchiveJobItem>): Promise<void>;
+  saveSession(
+    session: UploadSessionState | undefined,
+    bytesUploaded?: number,
+    bytesTotal?: number
+  ): Promise<void>;
+  /** Live progress (not persisted), e.g. bytes downloaded so far */
+  reportProgress(patch: Pick<Partial<ArchiveJobItem>, "bytesDownloaded" | "bytesTotal">): void;
+}
+
+export type ArchiveItemProcessor = (
+  restId: string,
+  target: ArchiveTarget,
+  ctx: ArchiveItemContext
+) => Promise<void>;
+
+export interface RunHooks {
+  onItemUpdate?: (job: ArchiveJob, item: ArchiveJobItem) => void;
+  onJobUpdate?: (job: ArchiveJob) => void;
+}
+
+/** A runner that hasn't saved for this long is considered gone */
+export const LEASE_TIMEOUT_MS = 30 * 1000;
+/** This window's lease owner id (the dialog hands it to its parent) */
+export const RUNNER_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const FINISHED: ArchiveItemState[] = ["done", "failed", "cancelled"];
+
+function newId(): string {
+  return `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Store access
+   ────────────────────────────────────────────────────────────── */
+export interface ArchiveJobOptions {
+  outputFormat?: ArchiveOutputFormat;
+  fileNameTemplate?: string;
+  projectNumberPattern?: string;
+  conflictPolicy?: ConflictPolicy;
+  postArchiveActions?: PostArchiveActions;
+  metadataMapping?: MetadataMapping;
+  libraryLabel?: string;
+  /** Names the user reviewed/edited, by restId (without extension) */
+  fileNames?: Record<string, string>;
+}
+
+export async function createArchiveJob(
+  target: ArchiveTarget,
+  restIds: string[],
+  source: ArchiveJob["source"],
+  options: ArchiveJobOptions = {}
+): Promise<ArchiveJob> {
+  const now = Date.now();
+  const job: ArchiveJob = {
+    id: newId(),
+    createdAt: now,
+    updatedAt: now,
+    source,
+    ...target,
+    outputFormat: options.outputFormat || "eml",
+    fileNameTemplate: options.fileNameTemplate,
+    projectNumberPattern: options.projectNumberPattern,
+    conflictPolicy: options.conflictPolicy || "skip",
+    postArchiveActions: options.postArchiveActions,
+    metadataMapping: options.metadataMapping,
+    libraryLabel: options.libraryLabel,
+    status: "queued",
+    items: Array.from(new Set(restIds)).map((restId) => ({
+      restId,
+      state: "pending",
+      fileName: options.fileNames?.[restId] || undefined,
+      updatedAt: now,
+    })),
+  };
+  await idbPut(STORES.archiveJobs, job);
+  return job;
+}
+
+export function getArchiveJob(id: string): Promise<ArchiveJob | undefined> {
+  return idbGet<ArchiveJob>(STORES.archiveJobs, id);
+}
+
+export async function listArchiveJobs(): Promise<ArchiveJob[]> {
+  const jobs = await idbGetAll<ArchiveJob>(STORES.archiveJobs);
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function deleteArchiveJob(id: string): Promise<void> {
+  return idbDelete(STORES.archiveJobs, id);
+}
+
+/** Jobs with unfinished items, whether or not a runner holds them. */
+export async function listUnfinishedJobs(): Promise<ArchiveJob[]> {
+  const jobs = await listArchiveJobs();
+  return jobs.filter((j) => j.items.some((i) => FINISHED.indexOf(i.state) < 0));
+}
+
+/**
+ * Wait until `owner` holds no live lease: it let go, or its heartbeat
+ * stopped. Resolves with the unfinished jobs it had been running.
+ */
+export async function waitForLeaseRelease(owner: string, pollMs = 2000): Promise<ArchiveJob[]> {
+  for (;;) {
+    const owned = (await listUnfinishedJobs()).filter((j) => j.lease?.owner === owner);
+    if (!owned.some(isLeaseHeld)) return owned;
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+}
+
+/** Jobs with unfinished items whose runner is gone (or never started). */
+export async function listResumableJobs(): Promise<ArchiveJob[]> {
+  const jobs = await listArchiveJobs();
+  return jobs.filter((j) => j.items.some((i) => FINISHED.indexOf(i.state) < 0) && !isLeaseHeld(j));
+}
+
+const RETRYABLE: ArchiveItemState[] = ["failed", "cancelled"];
+
+/** Every failed/cancelled item across stored jobs (drives the "Retry failed" UI). */
+export async function listFailedItems(): Promise<Array<{ job: ArchiveJob; item: ArchiveJobItem }>> {
+  const jobs = await listArchiveJobs();
+  const out: Array<{ job: ArchiveJob; item: ArchiveJobItem }> = [];
+  jobs.forEach((job) =>
+    job.items
+      .filter((i) => RETRYABLE.indexOf(i.state) >= 0)
+      .forEach((item) => out.push({ job, item }))
+  );
+  return out;
+}
+
+/** Put failed/cancelled items back to pending; returns the job ids touched. */
+export async function requeueFailedItems(restIds?: string[]): Promise<string[]> {
+  const touched: string[] = [];
+  for (const job of await listArchiveJobs()) {
+    let changed = false;
+    job.items.forEach((item) => {
+      if (RETRYABLE.indexOf(item.state) >= 0 && (!restIds || restIds.indexOf(item.restId) >= 0)) {
+        item.state = "pending";
+        item.error = undefined;
+        item.updatedAt = Date.now();
+        changed = true;
+      }
+    });
+    if (changed) {
+      job.status = "queued";
+      job.updatedAt = Date.now();
+      await idbPut(STORES.archiveJobs, job);
+      touched.push(job.id);
+    }
+  }
+  return touched;
+}
+
+/** Drop jobs whose items are all done (failed items are kept for retry). */
+export async function pruneCompletedJobs(): Promise<void> {
+  for (const job of await listArchiveJobs()) {
+    if (job.items.every((i) => i.state === "done")) await deleteArchiveJob(job.id);
+  }
+}
+
+function isLeaseHeld(job: ArchiveJob): boolean {
+  return (
+    !!job.lease &&
+    job.lease.owner !== RUNNER_ID &&
+    Date.now() - job.lease.heartbeatAt < LEASE_TIMEOUT_MS
+  );
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Runner
+   ────────────────────────────────────────────────────────────── */
+
+export interface RunOptions {
+  /** Items processed in parallel (defaults to 1) */
+  concurrency?: number;
+  /** Aborting cancels in-flight requests; untouched items become "cancelled" */
+  signal?: AbortSignal;
+}
+
+function isAbort(e: any, signal?: AbortSignal): boolean {
+  return e?.name === "AbortError" || !!signal?.aborted;
+}
+
+/**
+ * Process every unfinished item of a job, persisting state as it goes.
+ * Items left mid-flight by a closed surface restart from their last
+ * persisted state; the processor decides whether a saved upload
+ * session can be reused. Resolves with null, without touching the job,
+ * while another pane/dialog holds its lease.
+ */
+export async function runArchiveJob(
+  jobId: string,
+  processor: ArchiveItemProcessor,
+  hooks: RunHooks = {},
+  opts: RunOptions = {}
+): Promise<ArchiveJob | null> {
+  const { signal } = opts;
+  const found = await getArchiveJob(jobId);
+  if (!found) throw new Error(`Archive job ${jobId} not found.`);
+  // Check and take the lease in one transaction, so two windows can't both start it
+  const job = await idbUpdate<ArchiveJob>(STORES.archiveJobs, jobId, (current) =>
+    current && !isLeaseHeld(current)
+      ? { ...current, status: "running", lease: { owner: RUNNER_ID, heartbeatAt: Date.now() } }
+      : undefined
+  );
+  if (!job) return null; // another pane/dialog is on it
+
+  const save = async () => {
+    job.updatedAt = Date.now();
+    job.lease = { owner: RUNNER_ID, heartbeatAt: Date.now() };
+    await idbPut(STORES.archiveJobs, job);
+    hooks.onJobUpdate?.(job);
+  };
+
+  hooks.onJobUpdate?.(job);
+
+  const heartbeat = setInterval(() => void save(), LEASE_TIMEOUT_MS / 3);
+  const target: ArchiveTarget = {
+    siteId: job.siteId,
+    driveId: job.driveId,
+    folderPath: job.folderPath,
+  };
+  const queue = job.items.filter((i) => FINISHED.indexOf(i.state) < 0);
+  let next = 0;
+
+  const processOne = async (item: ArchiveJobItem) => {
+    const ctx: ArchiveItemContext = {
+      job,
+      item,
+      signal,
+      async setState(state, patch) {
+        Object.assign(item, patch, { state, updatedAt: Date.now() });
+        await save();
+        hooks.onItemUpdate?.(job, item);
+      },
+      async saveSession(session, bytesUploaded, bytesTotal) {
+        item.uploadSession = session;
+        if (bytesUploaded !== undefined) item.bytesUploaded = bytesUploaded;
+        if (bytesTotal !== undefined) item.bytesTotal = bytesTotal;
+        item.updatedAt = Date.now();
+        await save();
+        hooks.onItemUpdate?.(job, item);
+      },
+      reportProgress(patch) {
+        Object.assign(item, patch);
+        hooks.onItemUpdate?.(job, item);
+      },
+    };
+
+    try {
+      await processor(item.restId, target, ctx);
+      if (item.state !== "done") await ctx.setState("done", { uploadSession: undefined });
+    } catch (e: any) {
+      if (isAbort(e, signal)) {
+        // Don't leave a half-written session behind on explicit cancel
+        if (item.uploadSession) void cancelUploadSession(item.uploadSession.uploadUrl);
+        await ctx.setState("cancelled", { error: "Cancelled", uploadSession: undefined });
+      } else {
+        console.error(`Archive item ${item.restId} failed:`, e);
+        await ctx.setState("failed", { error: e?.message || String(e) });
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < queue.length && !signal?.aborted) await processOne(queue[next++]);
+  };
+
+  try {
+    const workers = Math.max(1, Math.min(opts.concurrency || 1, queue.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  } finally {
+    clearInterval(heartbeat);
+    queue.forEach((item) => {
+      if (FINISHED.indexOf(item.state) < 0) {
+        item.state = "cancelled";
+        item.error = "Cancelled";
+        item.updatedAt = Date.now();
+      }
+    });
+    job.status = job.items.some((i) => i.state === "failed")
+      ? "failed"
+      : job.items.some((i) => i.state === "cancelled")
+        ? "cancelled"
+        : "done";
+    job.lease = undefined;
+    job.updatedAt = Date.now();
+    await idbPut(STORES.archiveJobs, job);
+    hooks.onJobUpdate?.(job);
+  }
+
+  return job;
+}
+
+export interface JobProgress {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  bytesUploaded: number;
+  bytesTotal: number;
+}
+
+/** Item counts and byte totals for progress bars. */
+export function getJobProgress(job: ArchiveJob): JobProgress {
+  const p: JobProgress = {
+    total: job.items.length,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+    bytesUploaded: 0,
+    bytesTotal: 0,
+  };
+  job.items.forEach((i) => {
+    if (i.state === "done") p.done++;
+    if (i.state === "failed") p.failed++;
+    if (i.state === "cancelled") p.cancelled++;
+    p.bytesTotal += i.bytesTotal || 0;
+    p.bytesUploaded += i.state === "done" ? i.bytesTotal || 0 : i.bytesUploaded || 0;
+  });
+  return p;
+}
+
+/**
+ * Upload an item's file, reusing its saved upload session when Graph still
+ * has it and the payload is the same size; otherwise start a new session.
+ * Progress (and the session) is persisted after every chunk.
+ *
+ * `content` may be streamed (see StreamedContent); it is read chunk by chunk.
+ * Pass `resumable: false` for generated files (e.g. PDFs) whose bytes differ
+ * between runs, so a stale session is never continued with new content.
+ * Pass `replaceItemId` to overwrite an existing file in place.
+ */
+export async function uploadWithResume<T = any>(
+  ctx: ArchiveItemContext,
+  token: TokenSource,
+  encodedPath: string,
+  content: UploadContent,
+  opts: { conflictBehavior?: ConflictBehavior; resumable?: boolean; replaceItemId?: string } = {}
+): Promise<T> {
+  const { job, item, signal } = ctx;
+  const { resumable = true } = opts;
+  let session: UploadSessionState | null = null;
+  let startOffset = 0;
+
+  if (resumable && isSessionUsable(item.uploadSession) && item.bytesTotal === content.size) {
+    session = await getUploadSessionStatus(item.uploadSession!.uploadUrl).catch(() => null);
+    if (session) startOffset = resumeOffset(session.nextExpectedRanges);
+  }
+
+  if (!session) {
+    session = opts.replaceItemId
+      ? await createItemUploadSession(token, job.siteId, job.driveId, opts.replaceItemId, signal)
+      : await createUploadSession(
+          token,
+          job.siteId,
+          job.driveId,
+          encodedPath,
+          opts.conflictBehavior,
+          signal
+        );
+    await ctx.saveSession(session, 0, content.size);
+  }
+
+  return uploadToSession<T>(session, content, {
+    startOffset,
+    signal,
+    onChunk: (p) => ctx.saveSession(p.session, p.bytesUploaded, p.bytesTotal),
+  });
+}
@@ -0,0 +1,183 @@
+// src/archivedLocations.ts
+import { graphPOST, TokenSource } from "./graphClient";
+import { findByInternetMessageId, ArchivedCopy } from "./archiveDuplicates";
+import { getSiteIdFromUrl, LibraryProfile } from "./libraryProfiles";
+import { getDriveWebUrl, pathFromParentReference } from "./driveFolders";
+
+/* global Office, console */
+
+/**
+ * "Already archived" lookup for the open email: every library in the
+ * mappings list is checked by its InternetMessageId column, and libraries
+ * without that column are covered by one Microsoft Search query. Results
+ * are cached in the item's custom properties so the indicator shows
+ * instantly the next time the email is opened.
+ */
+
+export interface ArchivedLocation {
+  libraryLabel: string;
+  /** Folder within the library ("" = root) */
+  folderPath: string;
+  name: string;
+  webUrl: string;
+  archivedAt?: string;
+  archivedBy?: string;
+}
+
+function toLocation(copy: ArchivedCopy, libraryLabel: string): ArchivedLocation {
+  return {
+    libraryLabel,
+    folderPath: pathFromParentReference(copy.parentReference?.path),
+    name: copy.name,
+    webUrl: copy.webUrl || "",
+    archivedAt: copy.createdDateTime,
+    archivedBy: copy.createdBy?.user?.displayName || copy.createdBy?.user?.email,
+  };
+}
+
+interface SearchHit {
+  resource?: ArchivedCopy;
+}
+
+/** Microsoft Search for the message id inside the given libraries (by URL). */
+async function searchLibraries(
+  token: TokenSource,
+  internetMessageId: string,
+  libraries: Array<{ profile: LibraryProfile; webUrl: string }>
+): Promise<ArchivedLocation[]> {
+  if (!libraries.length) return [];
+  const id = internetMessageId.replace(/^<|>$/g, "").replace(/"/g, "");
+  const paths = libraries.map((l) => `path:"${l.webUrl}"`).join(" OR ");
+  const resp = await graphPOST<{
+    value?: Array<{ hitsContainers?: Array<{ hits?: SearchHit[] }> }>;
+  }>("/search/query", token, {
+    requests: [
+      {
+        entityTypes: ["driveItem"],
+        query: { queryString: `"${id}" AND (${paths})` },
+        from: 0,
+        size: 25,
+      },
+    ],
+  });
+
+  const hits: SearchHit[] = [];
+  (resp.value || []).forEach((v) =>
+    (v.hitsContainers || []).forEach((c) => hits.push(...(c.hits || [])))
+  );
+  const out: ArchivedLocation[] = [];
+  for (const hit of hits) {
+    const r = hit.resource;
+    if (!r?.webUrl) continue;
+    const lib = libraries.find(
+      (l) =>
+        l.profile.DriveId === r.parentReference?.driveId ||
+        r.webUrl!.toLowerCase().startsWith(l.webUrl.toLowerCase())
+    );
+    if (lib) out.push(toLocation(r, lib.profile.Label));
+  }
+  return out;
+}
+
+/** Every place the message is filed across the mapped libraries. */
+export async function findArchivedLocations(
+  token: TokenSource,
+  internetMessageId: string,
+  profiles: LibraryProfile[]
+): Promise<ArchivedLocation[]> {
+  if (!internetMessageId || !profiles.length) return [];
+  const needsSearch: Array<{ profile: LibraryProfile; webUrl: string }> = [];
+
+  const byColumn = await Promise.all(
+    profiles.map(async (profile) => {
+      try {
+        const siteId = await getSiteIdFromUrl(profile.SiteUrl, token);
+        const target = { siteId, driveId: profile.DriveId, folderPath: "" };
+        const copies = await findByInternetMessageId(token, target, internetMessageId);
+        if (copies) return copies.map((c) => toLocation(c, profile.Label));
+
+        needsSearch.push({ profile, webUrl: await getDriveWebUrl(token, profile.DriveId) });
+      } catch (e) {
+        // No access to this library (or it's gone) — just leave it out
+        console.warn(`Archive lookup skipped ${profile.Label}:`, e);
+      }
+      return [] as ArchivedLocation[];
+    })
+  );
+
+  let bySearch: ArchivedLocation[] = [];
+  try {
+    bySearch = await searchLibraries(token, internetMessageId, needsSearch);
+  } catch (e) {
+    console.warn("Microsoft Search lookup failed:", e);
+  }
+
+  const seen = new Set<string>();
+  return ([] as ArchivedLocation[])
+    .concat(...byColumn, bySearch)
+    .filter((l) => {
+      const key = l.webUrl.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => (b.archivedAt || "").localeCompare(a.archivedAt || ""));
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Item custom properties cache
+   ────────────────────────────────────────────────────────────── */
+const CUSTOM_PROPERTY = "flowpointArchived";
+// Custom properties are capped at 2,500 characters per item
+const MAX_CACHE_CHARS = 2400;
+
+export interface CachedLocations {
+  checkedAt: string;
+  locations: ArchivedLocation[];
+}
+
+function loadCustomProperties(item: Office.MessageRead): Promise<Office.CustomProperties> {
+  return new Promise((resolve, reject) =>
+    item.loadCustomPropertiesAsync((result) =>
+      result.status === Office.AsyncResultStatus.Succeeded
+        ? resolve(result.value)
+        : reject(result.error)
+    )
+  );
+}
+
+export async function readCachedLocations(
+  item: Office.MessageRead
+): Promise<CachedLocations | null> {
+  try {
+    const raw = (await loadCustomProperties(item)).get(CUSTOM_PROPERTY);
+    return raw ? (JSON.parse(raw) as CachedLocations) : null;
+  } catch (e) {
+    console.warn("Could not read cached archive locations:", e);
+    return null;
+  }
+}
+
+export async function writeCachedLocations(
+  item: Office.MessageRead,
+  locations: ArchivedLocation[]
+): Promise<void> {
+  try {
+    const props = await loadCustomProperties(item);
+    const value: CachedLocations = {
+      checkedAt: new Date().toISOString(),
+      locations: [...locations],
+    };
+    // Keep the newest locations that fit
+    while (value.locations.length && JSON.stringify(value).length > MAX_CACHE_CHARS)
+      value.locations.pop();
+    props.set(CUSTOM_PROPERTY, JSON.stringify(value));
+    await new Promise<void>((resolve, reject) =>
+      props.saveAsync((result) =>
+        result.status === Office.AsyncResultStatus.Succeeded ? resolve() : reject(result.error)
+      )
+    );
+  } catch (e) {
+    console.warn("Could not cache archive locations on the item:", e);
+  }
+}
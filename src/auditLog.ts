@@ -0,0 +1,344 @@
+// src/auditLog.ts
+import { graphGET, graphGetAll, graphPOST, TokenSource } from "./graphClient";
+import { idbGetAll, idbPut, idbClear, idbUpdate, STORES } from "./idb";
+import { getMappingsSiteId } from "./libraryProfiles";
+import { getConfig } from "./config";
+import { ArchiveJob, ArchiveJobItem, ArchiveOutcome } from "./archiveQueue";
+
+/* global console */
+
+/**
+ * Audit trail of archive attempts: who filed which email where, when, and
+ * how it went. Every entry is kept locally in IndexedDB (viewable offline,
+ * exportable as CSV) and written to a SharePoint list on the same site as
+ * the library mappings list. Entries that couldn't be written are retried
+ * on the next write.
+ */
+
+export type AuditOutcome = ArchiveOutcome | "failed" | "cancelled";
+
+export interface AuditEntry {
+  id: string;
+  /** ISO timestamp */
+  at: string;
+  user: string;
+  internetMessageId?: string;
+  subject?: string;
+  fromAddress?: string;
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+  libraryLabel?: string;
+  fileName?: string;
+  driveItemId?: string;
+  webUrl?: string;
+  outcome: AuditOutcome;
+  error?: string;
+  jobId: string;
+  source: ArchiveJob["source"];
+  /** Written to the SharePoint list yet */
+  synced: boolean;
+  /** Window currently posting it to the list (see syncOnce) */
+  syncClaim?: { owner: string; at: number };
+}
+
+// null = the list named in the runtime config
+let auditListTitle: string | null = null;
+
+/** Point the log at a different list (on the mappings site). */
+export function setAuditListTitle(title: string): void {
+  if (title && title !== auditListTitle) {
+    auditListTitle = title;
+    auditList = null;
+  }
+}
+
+let auditList: Promise<{ siteId: string; listId: string; columns: Set<string> } | null> | null =
+  null;
+
+/** The audit list and its column names, or null if it doesn't exist / isn't accessible. */
+function resolveAuditList(token: TokenSource) {
+  if (!auditList) {
+    auditList = (async () => {
+      try {
+        const siteId = await getMappingsSiteId(token);
+        const listTitle = auditListTitle || getConfig().lists.auditLog;
+        const title = listTitle.replace(/'/g, "''");
+        const lists = await graphGetAll<{ id: string }>(
+          `/sites/${siteId}/lists?$filter=displayName eq '${encodeURIComponent(title)}'&$select=id`,
+          token
+        );
+        if (!lists.length) {
+          console.warn(`Audit list "${listTitle}" not found; keeping history locally only.`);
+          return null;
+        }
+        const listId = lists[0].id;
+        const cols = await graphGetAll<{ name: string }>(
+          `/sites/${siteId}/lists/${listId}/columns?$select=name`,
+          token
+        );
+        return { siteId, listId, columns: new Set(cols.map((c) => c.name)) };
+      } catch (e) {
+        console.warn("Audit list unavailable; keeping history locally only.", e);
+        auditList = null; // try again next time
+        return null;
+      }
+    })();
+  }
+  return auditList;
+}
+
+let currentUser: Promise<string> | null = null;
+
+function getCurrentUser(token: TokenSource): Promise<string> {
+  if (!currentUser) {
+    currentUser = graphGET<{ userPrincipalName?: string; mail?: string }>(
+      "/me?$select=userPrincipalName,mail",
+      token
+    )
+      .then((me) => me.userPrincipalName || me.mail || "unknown")
+      .catch(() => {
+        currentUser = null;
+        return "unknown";
+      });
+  }
+  return currentUser;
+}
+
+function listFields(entry: AuditEntry, columns: Set<string>): Record<string, any> {
+  const all: Record<string, any> = {
+    Title: (entry.subject || "(no subject)").slice(0, 255),
+    ArchivedBy: entry.user,
+    ArchivedAt: entry.at,
+    InternetMessageId: entry.internetMessageId,
+    FromAddress: entry.fromAddress,
+    Library: entry.libraryLabel,
+    DriveId: entry.driveId,
+    FolderPath: entry.folderPath,
+    FileName: entry.fileName,
+    DriveItemId: entry.driveItemId,
+    FileUrl: entry.webUrl,
+    Outcome: entry.outcome,
+    ErrorMessage: entry.error,
+    JobId: entry.jobId,
+    Source: entry.source,
+  };
+  // Only write columns the list actually has (Title always exists)
+  const fields: Record<string, any> = {};
+  Object.keys(all).forEach((k) => {
+    if (all[k] !== undefined && all[k] !== "" && (k === "Title" || columns.has(k)))
+      fields[k] = all[k];
+  });
+  return fields;
+}
+
+async function pushEntry(token: TokenSource, entry: AuditEntry): Promise<boolean> {
+  const list = await resolveAuditList(token);
+  if (!list) return false;
+  try {
+    await graphPOST(`/sites/${list.siteId}/lists/${list.listId}/items`, token, {
+      fields: listFields(entry, list.columns),
+    });
+    return true;
+  } catch (e) {
+    console.warn("Could not write audit entry to SharePoint; will retry later.", e);
+    return false;
+  }
+}
+
+// Identifies this window's claims on pending entries
+const SYNC_OWNER = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+// A claim older than this belongs to a window that closed mid-post
+const SYNC_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Claim or release an entry in one transaction; null if it's synced or another window has it. */
+function setSyncClaim(id: string, claim: boolean): Promise<AuditEntry | undefined> {
+  return idbUpdate<AuditEntry>(STORES.auditLog, id, (current) => {
+    if (!current || current.synced) return undefined;
+    const held =
+      current.syncClaim &&
+      current.syncClaim.owner !== SYNC_OWNER &&
+      Date.now() - current.syncClaim.at < SYNC_CLAIM_TIMEOUT_MS;
+    if (held) return undefined;
+    return { ...current, syncClaim: claim ? { owner: SYNC_OWNER, at: Date.now() } : undefined };
+  });
+}
+
+async function syncOnce(token: TokenSource): Promise<number> {
+  const pending = (await idbGetAll<AuditEntry>(STORES.auditLog)).filter((e) => !e.synced);
+  let synced = 0;
+  for (const { id } of pending) {
+    // The pane and the dialog share the store: only the window holding the claim posts
+    const entry = await setSyncClaim(id, true);
+    if (!entry) continue;
+    if (!(await pushEntry(token, entry))) {
+      await setSyncClaim(id, false);
+      break;
+    }
+    await idbPut(STORES.auditLog, { ...entry, synced: true, syncClaim: undefined });
+    synced++;
+  }
+  return synced;
+}
+
+// Syncs run one at a time so parallel archive workers never post an entry twice
+let syncChain: Promise<unknown> = Promise.resolve();
+
+/** Retry entries that haven't reached the SharePoint list yet. */
+export function syncPendingAuditEntries(token: TokenSource): Promise<number> {
+  const run = syncChain.then(() => syncOnce(token));
+  syncChain = run.catch(() => undefined);
+  return run;
+}
+
+/** Record the final state of one archive item. */
+export async function recordArchiveAttempt(
+  token: TokenSource,
+  job: ArchiveJob,
+  item: ArchiveJobItem
+): Promise<void> {
+  const outcome: AuditOutcome =
+    item.state === "failed"
+      ? "failed"
+      : item.state === "cancelled"
+        ? "cancelled"
+        : item.outcome || "uploaded";
+  const entry: AuditEntry = {
+    id: `${job.id}:${item.restId}:${item.updatedAt}`,
+    at: new Date(item.updatedAt).toISOString(),
+    user: await getCurrentUser(token),
+    internetMessageId: item.internetMessageId,
+    subject: item.subject,
+    fromAddress: item.fromAddress,
+    siteId: job.siteId,
+    driveId: job.driveId,
+    folderPath: job.folderPath,
+    libraryLabel: job.libraryLabel,
+    fileName: item.fileName,
+    driveItemId: item.driveItemId,
+    webUrl: item.webUrl,
+    outcome,
+    error: item.error || item.postActionError,
+    jobId: job.id,
+    source: job.source,
+    synced: false,
+  };
+  await idbPut(STORES.auditLog, entry);
+  await syncPendingAuditEntries(token);
+}
+
+/**
+ * onItemUpdate hook that records each item once when it reaches a final
+ * state during a run.
+ */
+export function createAuditHook(
+  token: TokenSource
+): (job: ArchiveJob, item: ArchiveJobItem) => void {
+  const recorded = new Set<string>();
+  return (job, item) => {
+    if (item.state !== "done" && item.state !== "failed" && item.state !== "cancelled") return;
+    const key = `${job.id}:${item.restId}`;
+    if (recorded.has(key)) return;
+    recorded.add(key);
+    void recordArchiveAttempt(token, job, item).catch((e) =>
+      console.warn("Audit log write failed:", e)
+    );
+  };
+}
+
+/** Local history, newest first. */
+export async function getAuditHistory(): Promise<AuditEntry[]> {
+  const all = await idbGetAll<AuditEntry>(STORES.auditLog);
+  return all.sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0));
+}
+
+export function clearAuditHistory(): Promise<void> {
+  return idbClear(STORES.auditLog);
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Shortcuts derived from history
+   ────────────────────────────────────────────────────────────── */
+
+export interface RecentDestination {
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+  libraryLabel?: string;
+  /** ISO timestamp of the newest filing here */
+  lastUsed: string;
+  /** Emails filed here (within the history scanned) */
+  count: number;
+}
+
+function filedHere(entry: AuditEntry): boolean {
+  return entry.outcome === "uploaded" || entry.outcome === "replaced";
+}
+
+/** Distinct destinations from newest-first history, most recently used first. */
+export function recentDestinations(history: AuditEntry[], limit = 5): RecentDestination[] {
+  const byKey = new Map<string, RecentDestination>();
+  for (const entry of history) {
+    if (!filedHere(entry)) continue;
+    const key = `${entry.driveId}|${entry.folderPath.toLowerCase()}`;
+    const seen = byKey.get(key);
+    if (seen) {
+      seen.count++;
+      continue;
+    }
+    if (byKey.size >= limit) continue;
+    byKey.set(key, {
+      siteId: entry.siteId,
+      driveId: entry.driveId,
+      folderPath: entry.folderPath,
+      libraryLabel: entry.libraryLabel,
+      lastUsed: entry.at,
+      count: 1,
+    });
+  }
+  return Array.from(byKey.values());
+}
+
+/** Where mail from this sender was last filed, from newest-first history. */
+export function lastDestinationForSender(
+  history: AuditEntry[],
+  fromAddress: string
+): RecentDestination | null {
+  const sender = fromAddress.trim().toLowerCase();
+  if (!sender) return null;
+  const entry = history.find((e) => filedHere(e) && (e.fromAddress || "").toLowerCase() === sender);
+  if (!entry) return null;
+  const { siteId, driveId, folderPath, libraryLabel, at } = entry;
+  return { siteId, driveId, folderPath, libraryLabel, lastUsed: at, count: 1 };
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  "at",
+  "user",
+  "outcome",
+  "subject",
+  "fromAddress",
+  "internetMessageId",
+  "libraryLabel",
+  "folderPath",
+  "fileName",
+  "webUrl",
+  "driveId",
+  "driveItemId",
+  "error",
+  "source",
+  "jobId",
+];
+
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? "" : String(value);
+  // Keep spreadsheet apps from treating subjects like "=SUM(…)" as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  entries.forEach((e) => rows.push(CSV_COLUMNS.map((c) => csvCell(e[c])).join(",")));
+  return rows.join("\r\n");
+}
@@ -1,53 +1,32 @@
 // src/authConfig.ts
-import { PublicClientApplication, AccountInfo } from "@azure/msal-browser";
+import { Configuration } from "@azure/msal-browser";
+import { getConfig } from "./config";
 
-/**
- * Centralized MSAL configuration used by both taskpane and dialog.
- */
-export const msalConfig = {
-  auth: {
-    clientId: "cc4403ef-7360-4427-87f5-af7f6f236e2c", // Flowpoint App ID
-    authority: "https://login.microsoftonline.com/adf44a4d-b671-4672-ba02-21fdc77f982a",
-    redirectUri: "https://localhost:3000/taskpane.html",
-  },
-};
+/* global URL, location */
 
 /**
- * Default login request scopes.
- * Exported because TaskPane.tsx imports it directly.
+ * Centralized MSAL configuration, built from the runtime config (see
+ * config.ts). The single MSAL client lives in authService.ts.
  */
-export const loginRequest = {
-  scopes: ["User.Read", "Mail.Read", "Files.ReadWrite.All", "Sites.ReadWrite.All"],
-};
-
-const msalInstance = new PublicClientApplication(msalConfig);
-let initializePromise: Promise<void> | null = null;
-let account: AccountInfo | null = null;
-
-/** Ensure the MSAL instance is initialized */
-async function ensureInitialized() {
-  if (!initializePromise) initializePromise = msalInstance.initialize();
-  await initializePromise;
+export function getMsalConfig(): Configuration {
+  const { auth } = getConfig();
+  return {
+    auth: {
+      clientId: auth.clientId,
+      authority: `https://login.microsoftonline.com/${auth.tenantId}`,
+      redirectUri: auth.redirectUri || new URL("taskpane.html", location.href).toString(),
+    },
+    // Task pane, dialog and commands runtime are separate windows; share the sign-in
+    cache: { cacheLocation: "localStorage" },
+  };
 }
 
-/** Acquire (or silently refresh) an access token */
-export async function getAccessToken(): Promise<string> {
-  await ensureInitialized();
-
-  if (!account) {
-    const accounts = msalInstance.getAllAccounts();
-    account = accounts[0] || (await msalInstance.loginPopup(loginRequest)).account;
-  }
+/** Scopes requested for every Graph token. */
+export const loginRequest = {
+  scopes: ["User.Read", "Mail.ReadWrite", "Files.ReadWrite.All", "Sites.ReadWrite.All"],
+};
 
-  try {
-    const tokenResponse = await msalInstance.acquireTokenSilent({
-      ...loginRequest,
-      account,
-    });
-    return tokenResponse.accessToken;
-  } catch {
-    const popupResponse = await msalInstance.acquireTokenPopup(loginRequest);
-    return popupResponse.accessToken;
-  }
-}
-export const loginAndGetToken = getAccessToken;
+/** Joined teams and their channels; asked for only when the Teams picker opens. */
+export const teamsRequest = {
+  scopes: ["Team.ReadBasic.All", "Channel.ReadBasic.All"],
+};
@@ -0,0 +1,233 @@
+// src/authService.ts
+import {
+  createNestablePublicClientApplication,
+  createStandardPublicClientApplication,
+  AccountInfo,
+  AuthenticationResult,
+  IPublicClientApplication,
+} from "@azure/msal-browser";
+import { getMsalConfig, loginRequest } from "./authConfig";
+import { TokenSource } from "./graphClient";
+
+/* global Office, clearTimeout, console, setTimeout */
+
+/**
+ * The one sign-in for the task pane, dialog and commands runtime. Where the
+ * host supports nested app authentication (Office SSO) tokens come from the
+ * signed-in Office account without prompting; elsewhere a standard MSAL
+ * client is used with popups. Tokens are cached, refreshed a few minutes
+ * before they expire, and refreshed on demand after a 401 (see graphClient).
+ *
+ * NAA needs a `brk-multihub://<add-in host>` SPA redirect URI on the app
+ * registration in addition to the taskpane.html one.
+ */
+
+export type AuthStatus = "initializing" | "signedOut" | "signingIn" | "signedIn" | "error";
+
+export interface AuthState {
+  status: AuthStatus;
+  account: AccountInfo | null;
+  /** "naa" = Office SSO via nested app auth; "popup" = standard MSAL */
+  mode: "naa" | "popup" | null;
+  error?: string;
+}
+
+// Refresh this long before expiry (and never hand out a token closer to it)
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+let state: AuthState = { status: "initializing", account: null, mode: null };
+const listeners = new Set<(state: AuthState) => void>();
+
+function setState(patch: Partial<AuthState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l(state));
+}
+
+export function getAuthState(): AuthState {
+  return state;
+}
+
+/** Listen for sign-in changes; returns the unsubscribe function. */
+export function subscribeAuth(listener: (state: AuthState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Client
+   ────────────────────────────────────────────────────────────── */
+
+function supportsNestedAppAuth(): boolean {
+  try {
+    return !!Office?.context?.requirements?.isSetSupported("NestedAppAuth", "1.1");
+  } catch {
+    return false;
+  }
+}
+
+let client: Promise<IPublicClientApplication> | null = null;
+
+function getClient(): Promise<IPublicClientApplication> {
+  if (!client) {
+    client = (async () => {
+      const config = getMsalConfig();
+      if (supportsNestedAppAuth()) {
+        try {
+          const naa = await createNestablePublicClientApplication(config);
+          setState({ mode: "naa" });
+          return naa;
+        } catch (e) {
+          console.warn("Nested app auth unavailable; using popup sign-in.", e);
+        }
+      }
+      const pca = await createStandardPublicClientApplication(config);
+      const redirect = await pca.handleRedirectPromise();
+      if (redirect?.account) pca.setActiveAccount(redirect.account);
+      setState({ mode: "popup" });
+      return pca;
+    })();
+    client.catch(() => (client = null));
+  }
+  return client;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Tokens
+   ────────────────────────────────────────────────────────────── */
+
+let cached: { token: string; expiresOn: number } | null = null;
+let inflight: { promise: Promise<string>; forceRefresh: boolean; interactive: boolean } | null =
+  null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+function accept(result: AuthenticationResult, pca: IPublicClientApplication): string {
+  if (result.account) pca.setActiveAccount(result.account);
+  cached = {
+    token: result.accessToken,
+    expiresOn: result.expiresOn?.getTime() ?? Date.now() + 55 * 60 * 1000,
+  };
+  if (refreshTimer) clearTimeout(refreshTimer);
+  const refreshIn = Math.max(30 * 1000, cached.expiresOn - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    getToken({ forceRefresh: true, interactive: false }).catch((e) =>
+      console.warn("Token refresh failed:", e)
+    );
+  }, refreshIn);
+  setState({ status: "signedIn", account: result.account || state.account, error: undefined });
+  return cached.token;
+}
+
+async function acquire(forceRefresh: boolean, interactive: boolean): Promise<string> {
+  const pca = await getClient();
+  const account = pca.getActiveAccount() || pca.getAllAccounts()[0] || undefined;
+  // NAA can get a token for the Office account without one cached here
+  if (account || state.mode === "naa") {
+    try {
+      return accept(await pca.acquireTokenSilent({ ...loginRequest, account, forceRefresh }), pca);
+    } catch (e) {
+      if (!interactive) throw e;
+      console.warn("Silent token failed; prompting.", e);
+    }
+  }
+  if (!interactive) {
+    setState({ status: "signedOut", account: null });
+    throw new Error("Not signed in.");
+  }
+  setState({ status: "signingIn" });
+  try {
+    return accept(await pca.acquireTokenPopup({ ...loginRequest, account }), pca);
+  } catch (e: unknown) {
+    setState({ status: "error", error: e instanceof Error ? e.message : String(e) });
+    throw e;
+  }
+}
+
+/**
+ * A Graph access token. Cached until close to expiry; `forceRefresh` skips
+ * the cache (e.g. after a 401); `interactive: false` never shows a popup.
+ */
+export function getToken(
+  opts: { forceRefresh?: boolean; interactive?: boolean } = {}
+): Promise<string> {
+  const { forceRefresh = false, interactive = true } = opts;
+  if (!forceRefresh && cached && cached.expiresOn - Date.now() > REFRESH_MARGIN_MS)
+    return Promise.resolve(cached.token);
+  // One acquisition at a time. Callers it covers share it; a forced or
+  // interactive call behind a weaker one waits its turn, then goes again
+  if (inflight) {
+    const covered =
+      (!forceRefresh || inflight.forceRefresh) && (!interactive || inflight.interactive);
+    if (covered) return inflight.promise;
+    return inflight.promise.then(
+      () => getToken(opts),
+      () => getToken(opts)
+    );
+  }
+  const current = { promise: acquire(forceRefresh, interactive), forceRefresh, interactive };
+  inflight = current;
+  const clear = () => {
+    if (inflight === current) inflight = null;
+  };
+  current.promise.then(clear, clear);
+  return current.promise;
+}
+
+/**
+ * Token function for graphClient: always current, refreshed after a 401.
+ * Never prompts: its callers include background work (resume, audit sync,
+ * training) with no user gesture to open a popup from. Only signIn() does.
+ */
+export const graphToken: TokenSource = (opts) =>
+  getToken({ forceRefresh: opts?.forceRefresh, interactive: false });
+
+/**
+ * A token for scopes beyond the sign-in's (incremental consent). MSAL caches
+ * it; `interactive` allows the consent popup, so only pass it from a click.
+ */
+export async function getScopedToken(
+  scopes: string[],
+  opts: { forceRefresh?: boolean; interactive?: boolean } = {}
+): Promise<string> {
+  const { forceRefresh = false, interactive = false } = opts;
+  const pca = await getClient();
+  const account = pca.getActiveAccount() || pca.getAllAccounts()[0] || undefined;
+  if (!account && state.mode !== "naa") throw new Error("Not signed in.");
+  try {
+    return (await pca.acquireTokenSilent({ scopes, account, forceRefresh })).accessToken;
+  } catch (e) {
+    if (!interactive) throw e;
+    console.warn("Silent token failed; asking for consent.", e);
+  }
+  return (await pca.acquireTokenPopup({ scopes, account })).accessToken;
+}
+
+/** Pick up an existing sign-in without prompting (call once per page). */
+export async function initAuth(): Promise<AuthState> {
+  try {
+    await getToken({ interactive: false });
+  } catch {
+    if (state.status !== "signedIn") setState({ status: "signedOut" });
+  }
+  return state;
+}
+
+export async function signIn(): Promise<void> {
+  await getToken();
+}
+
+export async function signOut(): Promise<void> {
+  const pca = await getClient();
+  const account = pca.getActiveAccount() || undefined;
+  cached = null;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  try {
+    // NAA can't end the Office session; just forget our tokens
+    if (state.mode === "naa") await pca.clearCache({ account });
+    else await pca.logoutPopup({ account });
+  } finally {
+    setState({ status: "signedOut", account: null });
+  }
+}
@@ -1,61 +1,101 @@
-/* global Office */
+import { loadFavorites } from "../favoritesStore";
+import { loadConfig } from "../config";
+import { graphToken, initAuth } from "../authService";
+import { createArchiveEngine, ArchiveRunSummary } from "../archiveEngine";
+import { waitForLeaseRelease } from "../archiveQueue";
+import { loadSettings } from "../settings";
+import {
+  describeBulkArchiveSummary,
+  getSelectedMessageRestIds,
+  openBulkArchiveDialog as launchBulkArchiveDialog,
+} from "../dialogProtocol";
 
-/**
- * Opens the Flowpoint Bulk Archive dialog
- * and syncs user favorites from localStorage to the dialog.
- */
-function openBulkArchiveDialog(event: Office.AddinCommands.Event) {
-  try {
-    const origin = `${location.protocol}//${location.host}`;
-    const dialogUrl = `${origin}/dialog.html`;
+/* global Office, console, window */
 
-    console.log("🟢 Opening Bulk Archive dialog:", dialogUrl);
+const NOTIFICATION_KEY = "flowpointBulkArchive";
 
-    Office.context.ui.displayDialogAsync(
-      dialogUrl,
-      { height: 55, width: 40 },
-      (asyncResult) => {
-        if (asyncResult.status === Office.AsyncResultStatus.Failed) {
-          console.error("❌ Dialog launch failed:", asyncResult.error);
-          event.completed();
-          return;
-        }
+/** Show a line on the open message's info bar (no-op without one). */
+function notify(message: string, type: "info" | "error" = "info") {
+  const item = Office.context.mailbox?.item;
+  if (!item?.notificationMessages) return;
+  const details: Office.NotificationMessageDetails =
+    type === "error"
+      ? { type: Office.MailboxEnums.ItemNotificationMessageType.ErrorMessage, message }
+      : {
+          type: Office.MailboxEnums.ItemNotificationMessageType.InformationalMessage,
+          message,
+          icon: "icon16",
+          persistent: false,
+        };
+  item.notificationMessages.replaceAsync(NOTIFICATION_KEY, details, (res) => {
+    if (res.status === Office.AsyncResultStatus.Failed)
+      console.warn("Notification failed:", res.error);
+  });
+}
 
-        const dialog = asyncResult.value;
-        console.log("✅ Bulk Archive dialog opened successfully.");
+/**
+ * Finish jobs the closed dialog (lease owner `runner`) left mid-run, once
+ * its lease on them lapses. Resumes only with an existing sign-in.
+ */
+async function finishLeftoverJobs(runner: string): Promise<void> {
+  const leftover = await waitForLeaseRelease(runner);
+  if (!leftover.length) return;
+  await loadConfig();
+  if ((await initAuth()).status !== "signedIn") return;
+  const engine = createArchiveEngine({ token: graphToken });
+  const concurrency = loadSettings().archiveConcurrency;
+  for (const job of leftover) {
+    const summary = await engine.run(job.id, { concurrency });
+    if (summary) notifySummary(summary);
+    else notify("An archive the dialog started is still running in another window.");
+  }
+}
 
-        // ─────────────────────────────────────────────
-        // Listen for messages from dialog
-        // ─────────────────────────────────────────────
-        dialog.addEventHandler(Office.EventType.DialogMessageReceived, (msg) => {
-          console.log("📩 Message received from dialog:", msg);
-        });
+function notifySummary(summary: ArchiveRunSummary) {
+  notify(
+    describeBulkArchiveSummary(summary).slice(0, 150),
+    summary.failed.length ? "error" : "info"
+  );
+}
 
-        // ─────────────────────────────────────────────
-        // Load favorites from localStorage (Taskpane key)
-        // ─────────────────────────────────────────────
-        const favorites = localStorage.getItem("flowpoint:favorites") || "[]";
-        console.log("📤 Preparing to send favorites to dialog:", favorites);
+/**
+ * Opens the Flowpoint Bulk Archive dialog with the selected emails and the
+ * user's favorites. The command stays open until the dialog closes so the
+ * results can be reported on the message, and jobs the dialog didn't get to
+ * finish go through the archive engine here.
+ */
+async function openBulkArchiveDialog(event: Office.AddinCommands.Event) {
+  let completed = false;
+  const complete = () => {
+    if (completed) return;
+    completed = true;
+    event.completed();
+  };
 
-        // ─────────────────────────────────────────────
-        // Ensure dialog is fully initialized before sending data
-        // (Office iframe can take ~1-2 seconds to register its message listener)
-        // ─────────────────────────────────────────────
-        setTimeout(() => {
-          try {
-            dialog.messageChild(favorites);
-            console.log("✅ Favorites sent to dialog successfully.");
-          } catch (err) {
-            console.error("❌ Failed to send favorites to dialog:", err);
-          }
-        }, 2500); // 2.5 s delay for stability
-      }
-    );
-  } catch (err) {
+  try {
+    const restIds = await getSelectedMessageRestIds();
+    if (!restIds.length) {
+      notify("Select one or more emails, then choose Bulk Archive.", "error");
+      complete();
+      return;
+    }
+    await launchBulkArchiveDialog({
+      restIds,
+      favorites: loadFavorites().favorites,
+      onResult: notifySummary,
+      // Complete the ribbon command first; jobs closed mid-run are finished in the background
+      onClosed: (runner) => {
+        complete();
+        if (!runner) return;
+        finishLeftoverJobs(runner).catch((e) =>
+          console.warn("Couldn't finish leftover archive jobs:", e)
+        );
+      },
+    });
+  } catch (err: any) {
     console.error("❌ Error in openBulkArchiveDialog:", err);
-  } finally {
-    // Always complete the ribbon command so Outlook UI remains responsive
-    if (event) event.completed();
+    notify(`Couldn't open Bulk Archive: ${err?.message || err}`.slice(0, 150), "error");
+    complete();
   }
 }
 
@@ -66,5 +106,3 @@ Office.onReady(() => {
   (window as any).openBulkArchiveDialog = openBulkArchiveDialog;
   console.log("🧩 Flowpoint ribbon command registered and ready.");
 });
-
-export {};
@@ -1,77 +1,59 @@
 // src/commands/dialog.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { createRoot } from "react-dom/client";
 import {
-  listDocumentLibraries,
-  getDriveFolderItems,
-  getAccessToken,
-} from "../graphSharePoint";
+  Button,
+  Caption1,
+  Combobox,
+  FluentProvider,
+  Option,
+  SpinButton,
+  webDarkTheme,
+} from "@fluentui/react-components";
+import { listDocumentLibraries, getSiteIdFromDrive } from "../graphSharePoint";
+import { TokenSource } from "../graphClient";
+import { graphToken, signIn } from "../authService";
+import { useAuth } from "../taskpane/useAuth";
+import { getMessagesMeta } from "../graphMail";
+import { checkMessageSizes } from "../messageLimits";
+import { ArchiveOutputFormat, OUTPUT_FORMAT_LABELS } from "../emailPdf";
+import { createArchiveJob, listResumableJobs, ArchiveJob } from "../archiveQueue";
+import { createArchiveEngine, ArchiveRunSummary } from "../archiveEngine";
+import { ConflictPolicy, CONFLICT_POLICY_LABELS } from "../archiveDuplicates";
+import { loadSettings, saveSettings, MAX_ARCHIVE_CONCURRENCY } from "../settings";
+import {
+  findProfileForDrive,
+  loadLibraryProfiles,
+  loadPersonalLibraries,
+  withPersonalLibraries,
+  LibraryProfile,
+} from "../libraryProfiles";
+import {
+  buildArchiveFileBaseName,
+  fileBaseNameBudget,
+  libraryPathFromWebUrl,
+  resolveFileNameTemplate,
+  sanitizeSharePointName,
+  uniqueFileBaseNames,
+} from "../fileNaming";
+import { getDriveWebUrl, getFolderByPath, FolderNode } from "../driveFolders";
+import FolderTreePicker from "../taskpane/FolderTreePicker";
+import FolderBreadcrumb from "../taskpane/FolderBreadcrumb";
+import { loadFavorites, normalizeFavorites, FavoriteFolder } from "../favoritesStore";
+import FavoritesList from "../taskpane/FavoritesList";
+import FileNameReview, { PendingFileName } from "../taskpane/FileNameReview";
+import ArchiveProgress from "../taskpane/ArchiveProgress";
+import SetupScreen from "../taskpane/SetupScreen";
+import { loadConfig } from "../config";
+import { listenToParent, postToParent, describeBulkArchiveSummary } from "../dialogProtocol";
 
 /** Types */
 type DriveRef = { id: string; name: string };
-type FolderRef = { id: string; name: string };
-type FavoriteRef = { id?: string; folderId?: string; name: string; driveId: string; path?: string };
-type ParentPayload = { favorites?: FavoriteRef[]; restIds?: string[] };
-
-/** SharePoint field names (same as taskpane) */
-const FIELD_FROM = "From";
-const FIELD_FROM_ADDRESS = "From_x002d_Address";
-const FIELD_RECEIVED = "Received";
-const FIELD_ATTACHMENT = "Attachment";
-const FIELD_ORIGINAL_LINK = "OriginalMessageLink";
-const FIELD_INTERNET_ID = "InternetMessageId";
+type ReviewItem = PendingFileName;
 
-/** Small helpers */
-const encodeDrivePathForGraph = (path: string) =>
-  path.split("/").filter(Boolean).map(encodeURIComponent).join("/");
-
-const safeFileNameFromSubject = (subject: string) =>
-  `${(subject || "Email").replace(/[^a-z0-9\\-_. ]/gi, "_")}.eml`;
-
-async function withRetry<T>(fn: () => Promise<T>, max = 4, baseDelayMs = 500): Promise<T> {
-  let attempt = 0, delay = baseDelayMs;
-  while (true) {
-    try { return await fn(); }
-    catch (e: any) {
-      const status = e?.status ?? e?.response?.status;
-      const retriable = status === 429 || (status >= 500 && status <= 599);
-      attempt++;
-      if (!retriable || attempt >= max) throw e;
-      await new Promise(r => setTimeout(r, delay));
-      delay *= 2;
-    }
-  }
-}
-
-async function graphGET<T>(url: string, token: string): Promise<T> {
-  const r = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
-  if (!r.ok) {
-    const err: any = new Error(`GET ${url} failed: ${r.status}`);
-    err.status = r.status;
-    err.body = await r.text().catch(() => "");
-    throw err;
-  }
-  return r.json();
-}
-
-async function getSiteIdFromDrive(driveId: string, token: string): Promise<string> {
-  const data = await graphGET<{ sharepointIds?: { siteId?: string } }>(
-    `https://graph.microsoft.com/v1.0/drives/${driveId}?$select=sharepointIds`,
-    token
-  );
-  const siteId = data?.sharepointIds?.siteId || "";
-  if (!siteId) throw new Error("Could not resolve siteId for drive.");
-  return siteId;
-}
-
-async function getDriveListFieldNames(token: string, siteId: string, driveId: string): Promise<Set<string>> {
-  const cols = await graphGET<{ value: Array<{ name: string }> }>(
-    `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/list/columns?$select=name`,
-    token
-  );
-  return new Set((cols.value || []).map(c => c.name));
-}
+const accent = "#ff7a18";
 
+/** Small helpers */
 async function waitForOfficeReady(): Promise<void> {
   return new Promise((resolve) => {
     if ((window as any).Office && (window as any).Office.context) resolve();
@@ -82,89 +64,78 @@ async function waitForOfficeReady(): Promise<void> {
 /* ───────────────────────────────────────────── */
 
 function BulkArchiveDialog() {
-  const [token, setToken] = useState<string | null>(null);
+  const { token } = useAuth();
   const [drives, setDrives] = useState<DriveRef[]>([]);
-  const [folders, setFolders] = useState<FolderRef[]>([]);
-  const [filteredFolders, setFilteredFolders] = useState<FolderRef[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
   const [selectedDrive, setSelectedDrive] = useState("");
-  const [selectedFolder, setSelectedFolder] = useState("");
-  const [favorites, setFavorites] = useState<FavoriteRef[]>([]);
+  const [selectedFolder, setSelectedFolder] = useState<FolderNode | null>(null);
+  const [favorites, setFavorites] = useState<FavoriteFolder[]>(() => loadFavorites().favorites);
   const [incomingRestIds, setIncomingRestIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [status, setStatus] = useState("Initializing…");
+  const [activeJob, setActiveJob] = useState<ArchiveJob | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const [concurrency, setConcurrency] = useState<number>(() => loadSettings().archiveConcurrency);
+  const [outputFormat, setOutputFormat] = useState<ArchiveOutputFormat>(() => loadSettings().outputFormat);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(() => loadSettings().conflictPolicy);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set synchronously, so a second run can't slip in before `archiving` re-renders
+  const archiveBusyRef = useRef(false);
+  const [profiles, setProfiles] = useState<LibraryProfile[]>([]);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[] | null>(null);
+
+  const driveName = (driveId: string) => drives.find((d) => d.id === driveId)?.name || "Library";
 
   /* ───────────────────────────────────────────── */
-  // Recursive folder loader
-  async function fetchAllFoldersRecursive(
-    driveId: string,
-    folderId: string = "root",
-    prefix = ""
-  ): Promise<FolderRef[]> {
-    const children = await getDriveFolderItems(driveId, folderId);
-    const all: FolderRef[] = [];
-    for (const item of children) {
-      if (item.folder) {
-        const fullName = prefix ? `${prefix}/${item.name}` : item.name;
-        all.push({ id: item.id, name: fullName });
-        const sub = await fetchAllFoldersRecursive(driveId, item.id, fullName);
-        all.push(...sub);
-      }
-    }
-    return all;
-  }
-
-  /* ───────────────────────────────────────────── */
-  // Init + receive parent payload
+  // Init + handshake with the parent (task pane or ribbon command)
   useEffect(() => {
     async function initialize() {
       try {
         await waitForOfficeReady();
         console.log("✅ Office ready in dialog");
 
+        // Say "ready" first: the parent holds the selection until then
+        listenToParent((msg) => {
+          setFavorites(normalizeFavorites(msg.favorites));
+          setIncomingRestIds(msg.restIds);
+          setStatus(
+            msg.restIds.length
+              ? `Ready to archive ${msg.restIds.length} email(s).`
+              : "No emails selected. Select emails and reopen."
+          );
+        });
+
         setStatus("Signing in to Microsoft 365…");
-        const accessToken = await getAccessToken();
-        setToken(accessToken);
+        await signIn();
+        const accessToken = graphToken;
+
+        // Pick up archive jobs left unfinished by a closed pane/dialog
+        void (async () => {
+          const resumable = await listResumableJobs();
+          if (!resumable.length) return;
+          await exclusiveArchive(async () => {
+            for (const job of resumable) {
+              setStatus(`Resuming ${job.items.length} queued email(s)…`);
+              await runJob(job.id, accessToken);
+            }
+          });
+        })().catch((e) => console.error("Resume failed:", e));
 
+        // Mapped libraries (with their defaults) plus the user's own; the mappings site's libraries without them
         setStatus("Loading document libraries…");
-        const libs = await listDocumentLibraries();
-        setDrives(libs || []);
-        setStatus("Select a document library.");
-
-        // Fallback favorites
-        const stored = localStorage.getItem("flowpoint:favorites");
-        if (stored) {
-          const parsed = JSON.parse(stored);
-          setFavorites(parsed);
-          console.log("📦 Fallback favorites:", parsed);
+        let mapped: LibraryProfile[] = [];
+        try {
+          mapped = await loadLibraryProfiles(accessToken);
+          setProfiles(mapped);
+        } catch (e) {
+          console.warn("Library mappings unavailable; using default naming.", e);
         }
-
-        // Listen for parent payload (favorites + restIds)
-        const handler = (event: MessageEvent) => {
-          try {
-            const data: ParentPayload =
-              typeof event.data === "string" ? JSON.parse(event.data) : event.data;
-            if (Array.isArray(data?.favorites)) {
-              const unique = Array.from(
-                new Map(data.favorites.map(f => [f.folderId || f.id, f])).values()
-              );
-              setFavorites(unique);
-              console.log("📥 Favorites from parent:", unique);
-            }
-            if (Array.isArray(data?.restIds)) {
-              setIncomingRestIds(data.restIds);
-              console.log("📥 REST IDs from parent:", data.restIds);
-              if (data.restIds.length)
-                setStatus(`Ready to archive ${Math.min(10, data.restIds.length)} email(s).`);
-              else
-                setStatus("No emails selected. Select up to 10 and reopen.");
-            }
-          } catch (e) {
-            console.warn("⚠️ Non-JSON or irrelevant message:", e);
-          }
-        };
-        window.addEventListener("message", handler);
-        return () => window.removeEventListener("message", handler);
+        const libraries = withPersonalLibraries(mapped, loadPersonalLibraries()).filter((p) => p.DriveId);
+        setDrives(
+          libraries.length
+            ? libraries.map((p) => ({ id: p.DriveId, name: p.Label }))
+            : (await listDocumentLibraries()) || []
+        );
+        setStatus((s) => (s.startsWith("Ready") || s.startsWith("No emails") ? s : "Select a document library."));
       } catch (err) {
         console.error("Init error:", err);
         setStatus("Failed to load document libraries.");
@@ -176,165 +147,87 @@ function BulkArchiveDialog() {
   }, []);
 
   /* ───────────────────────────────────────────── */
-  // Folder load + search handlers
-  async function loadFoldersForDrive(driveId: string, keepSearch = false) {
-    setSelectedDrive(driveId);
-    setFolders([]); setFilteredFolders([]); setSelectedFolder("");
-    if (!driveId) return;
-    try {
-      setLoading(true);
-      setStatus("Loading folders (including subfolders)…");
-      const all = await fetchAllFoldersRecursive(driveId, "root");
-      setFolders(all);
-      const term = keepSearch ? searchTerm.trim().toLowerCase() : "";
-      const visible = term ? all.filter(f => f.name.toLowerCase().includes(term)) : all;
-      setFilteredFolders(visible);
-      if (visible.length) setSelectedFolder(visible[0].id);
-      setStatus(`Folders loaded (${all.length}).`);
-    } catch (e) {
-      console.error("Folder load error:", e);
-      setStatus("Failed to load folders.");
-    } finally { setLoading(false); }
-  }
-
-  const handleDriveChange = (e: React.ChangeEvent<HTMLSelectElement>) =>
-    loadFoldersForDrive(e.target.value, true);
-
-  function handleSearch(e: React.ChangeEvent<HTMLInputElement>) {
-    const term = e.target.value;
-    setSearchTerm(term);
-    if (!term) { setFilteredFolders(folders); setSelectedFolder(""); return; }
-    const lower = term.toLowerCase();
-    const filtered = folders.filter(f => f.name.toLowerCase().includes(lower));
-    setFilteredFolders(filtered);
-    if (filtered.length) setSelectedFolder(filtered[0].id);
+  // Folder selection (id + real path)
+  function selectFolder(folder: FolderNode) {
+    setSelectedFolder(folder);
+    setStatus(`Selected: ${[driveName(folder.driveId), folder.path].filter(Boolean).join("/")}`);
   }
 
-  async function handleRefresh() {
-    if (!selectedDrive) return alert("Please select a library first.");
-    setLoading(true);
-    const all = await fetchAllFoldersRecursive(selectedDrive, "root");
-    setFolders(all);
-    setFilteredFolders(all);
-    setStatus(`Folder list updated (${all.length}).`);
-    setLoading(false);
-  }
-
-  /* ───────────────────────────────────────────── */
-  async function handleFavoriteClick(fav: FavoriteRef) {
+  async function selectAncestor(depth: number) {
+    if (!selectedFolder || !token) return;
+    const path = selectedFolder.path.split("/").slice(0, depth).join("/");
     try {
-      setStatus(`Loading favorite ${fav.name}…`);
-      if (fav.driveId !== selectedDrive) await loadFoldersForDrive(fav.driveId);
-      setSelectedFolder(fav.folderId || fav.id || "");
-      setStatus(`Favorite selected: ${fav.name}`);
+      selectFolder(await getFolderByPath(token, selectedFolder.driveId, path));
     } catch (e) {
-      console.error("Favorite load error:", e);
-      setStatus("Failed to load favorite.");
+      console.error("Folder lookup error:", e);
+      setStatus("Failed to select that folder.");
     }
   }
 
-  /* ───────────────────────────────────────────── */
-  // Upload + metadata patch
-  async function uploadInChunksWithRetry(uploadUrl: string, blob: Blob) {
-    const chunkSize = 5 * 1024 * 1024;
-    const total = blob.size;
-    for (let offset = 0; offset < total; ) {
-      const slice = blob.slice(offset, Math.min(offset + chunkSize, total));
-      const end = offset + slice.size - 1;
-      await withRetry(async () => {
-        const r = await fetch(uploadUrl, {
-          method: "PUT",
-          headers: {
-            "Content-Length": String(slice.size),
-            "Content-Range": `bytes ${offset}-${end}/${total}`,
-          },
-          body: slice,
-        });
-        if (!(r.ok || r.status === 202 || r.status === 201)) {
-          const t = await r.text();
-          const err: any = new Error(`Chunk upload failed ${r.status}: ${t}`);
-          err.status = r.status;
-          throw err;
-        }
-      });
-      offset += slice.size;
-    }
+  function handleFavoriteClick(fav: FavoriteFolder) {
+    if (fav.driveId !== selectedDrive) setSelectedDrive(fav.driveId);
+    selectFolder({ driveId: fav.driveId, id: fav.id, name: fav.name, path: fav.path });
   }
 
-  async function archiveMessageByRestId(
-    restId: string,
-    siteId: string,
-    driveId: string,
-    folderPath: string,
-    token: string
-  ) {
-    const msg = await graphGET<{
-      subject?: string;
-      from?: { emailAddress?: { address?: string; name?: string } };
-      hasAttachments?: boolean;
-      receivedDateTime?: string;
-      webLink?: string;
-      internetMessageId?: string;
-    }>(
-      `https://graph.microsoft.com/v1.0/me/messages/${restId}?$select=subject,from,hasAttachments,receivedDateTime,webLink,internetMessageId`,
-      token
-    );
-
-    const blob = await withRetry(async () => {
-      const r = await fetch(
-        `https://graph.microsoft.com/v1.0/me/messages/${restId}/$value`,
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
-      if (!r.ok) throw new Error(`Download failed ${r.status}`);
-      return r.blob();
-    });
-
-    const fileName = safeFileNameFromSubject(msg.subject || "Email");
-    const encodedPath = encodeDrivePathForGraph(folderPath ? `${folderPath}/${fileName}` : fileName);
-
-    const session = await withRetry(async () => {
-      const r = await fetch(
-        `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/root:/${encodedPath}:/createUploadSession`,
-        {
-          method: "POST",
-          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-          body: JSON.stringify({ "@microsoft.graph.conflictBehavior": "rename" }),
-        }
-      );
-      if (!r.ok) throw new Error(`Session failed ${r.status}`);
-      return r.json();
+  /* ───────────────────────────────────────────── */
+  // Run a persisted job (new or resumed) through the archive engine and report the outcome
+  async function runJob(jobId: string, accessToken: TokenSource) {
+    const engine = createArchiveEngine({ token: accessToken });
+    const publish = (j: ArchiveJob) => setActiveJob({ ...j, items: j.items.map((i) => ({ ...i })) });
+
+    // Tell the parent whenever an item finishes
+    let reported = "";
+    engine.on((event) => {
+      if (event.type === "jobFinished") return;
+      const j = event.job;
+      publish(j);
+      const done = j.items.filter((i) => i.state === "done").length;
+      const failed = j.items.filter((i) => i.state === "failed").length;
+      if (`${done}/${failed}` === reported) return;
+      reported = `${done}/${failed}`;
+      postToParent({ type: "progress", jobId: j.id, total: j.items.length, done, failed });
     });
 
-    await uploadInChunksWithRetry(session.uploadUrl, blob);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setArchiving(true);
+    let summary: ArchiveRunSummary | null;
+    try {
+      summary = await engine.run(jobId, { concurrency, signal: controller.signal });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setArchiving(false);
+    }
+    if (!summary) {
+      setStatus("⚠️ This archive is already running in another window.");
+      return;
+    }
 
-    const pathForFetch = folderPath
-      ? `/${encodeDrivePathForGraph(folderPath)}/${encodeURIComponent(fileName)}`
-      : `/${encodeURIComponent(fileName)}`;
-    const uploaded = await graphGET<any>(
-      `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/root:${pathForFetch}`,
-      token
-    );
+    postToParent({ type: "result", summary });
+    const icon = summary.cancelled ? "🛑" : summary.failed.length ? "⚠️" : "✅";
+    setStatus(`${icon} ${describeBulkArchiveSummary(summary)}`);
+  }
 
-    const fields = await getDriveListFieldNames(token, siteId, driveId);
-    const patch: Record<string, any> = {};
-    if (fields.has(FIELD_FROM_ADDRESS)) patch[FIELD_FROM_ADDRESS] = msg.from?.emailAddress?.address || "";
-    if (fields.has(FIELD_FROM)) patch[FIELD_FROM] = msg.from?.emailAddress?.name || "";
-    if (fields.has(FIELD_RECEIVED)) patch[FIELD_RECEIVED] = msg.receivedDateTime ?? new Date().toISOString();
-    if (fields.has(FIELD_ATTACHMENT)) patch[FIELD_ATTACHMENT] = !!msg.hasAttachments;
-    if (fields.has(FIELD_ORIGINAL_LINK) && msg.webLink) patch[FIELD_ORIGINAL_LINK] = msg.webLink;
-    if (fields.has(FIELD_INTERNET_ID) && msg.internetMessageId) patch[FIELD_INTERNET_ID] = msg.internetMessageId;
-
-    if (Object.keys(patch).length)
-      await fetch(
-        `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/items/${uploaded.id}/listItem/fields`,
-        {
-          method: "PATCH",
-          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-          body: JSON.stringify(patch),
-        }
-      );
+  // One archive at a time: a second job would take over Cancel from the first
+  async function exclusiveArchive(run: () => Promise<void>) {
+    if (archiveBusyRef.current) {
+      setStatus("⚠️ An archive is already running. Wait for it to finish or cancel it.");
+      return;
+    }
+    archiveBusyRef.current = true;
+    try {
+      await run();
+    } finally {
+      archiveBusyRef.current = false;
+    }
   }
 
+  // Server-relative library path, for the file name length budget ("" if it can't be read)
+  const libraryPathFor = (driveId: string, accessToken: TokenSource) =>
+    getDriveWebUrl(accessToken, driveId)
+      .then(libraryPathFromWebUrl)
+      .catch(() => "");
+
   /* ───────────────────────────────────────────── */
   // Bulk archive main handler
   async function handleBulkArchive() {
@@ -347,42 +240,89 @@ function BulkArchiveDialog() {
     return;
   }
 
-  const ids = incomingRestIds || [];
-  if (ids.length === 0) {
-    setStatus("⚠️ No emails selected. Select 1–10 emails, then reopen this dialog.");
+  const restIds = incomingRestIds || [];
+  if (restIds.length === 0) {
+    setStatus("⚠️ No emails selected. Select emails, then reopen this dialog.");
     return;
   }
 
-  // Enforce a cap of 10 emails
-  const restIds = ids.slice(0, 10);
-  if (ids.length > 10) {
-    setStatus(`⚠️ ${ids.length} emails selected — only the first 10 will be processed.`);
+    try {
+      setLoading(true);
+      const accessToken = token || graphToken;
+      const meta = await getMessagesMeta(restIds, accessToken);
+      const profile = findProfileForDrive(profiles, selectedFolder.driveId);
+      const template = resolveFileNameTemplate(loadSettings().fileNameTemplate, profile?.FilenameTemplate);
+      const libraryPath = await libraryPathFor(selectedFolder.driveId, accessToken);
+      const names = uniqueFileBaseNames(
+        restIds.map((id) =>
+          buildArchiveFileBaseName(template, {
+            message: meta.get(id) || {},
+            folderPath: selectedFolder.path,
+            libraryPath,
+            projectNumberPattern: profile?.ProjectNumberPattern,
+          })
+        ),
+        fileBaseNameBudget(selectedFolder.path, libraryPath)
+      );
+      const sizeWarnings = checkMessageSizes(restIds, meta);
+      const items = restIds.map((restId, i) => ({
+        restId,
+        subject: meta.get(restId)?.subject,
+        name: names[i],
+        sizeWarning: sizeWarnings.get(restId),
+      }));
+
+      // Oversized emails always get the review, so the warning is seen before the upload
+      if (sizeWarnings.size) {
+        setReviewItems(items);
+        setStatus(`⚠️ ${sizeWarnings.size} email(s) are very large; check the notes, then Upload.`);
+        return;
+      }
+      if (loadSettings().reviewFileNames) {
+        setReviewItems(items);
+        setStatus("Review file names, then Upload.");
+        return;
+      }
+      await startBulkArchive(items);
+    } catch (e: any) {
+      console.error("Bulk archive error:", e);
+      setStatus(`❌ Bulk archive failed: ${e?.message || e}`);
+    } finally {
+      setLoading(false);
+    }
   }
 
-
+  async function startBulkArchive(items: ReviewItem[]) {
     try {
+      setReviewItems(null);
       setLoading(true);
-      setStatus(`Archiving ${restIds.length} email(s)…`);
-      const accessToken = token || (await getAccessToken());
-      const siteId = await getSiteIdFromDrive(selectedDrive, accessToken);
-
-      let success = 0, failed: string[] = [];
-      for (let i = 0; i < restIds.length; i++) {
-        const id = restIds[i];
-        setStatus(`Uploading ${i + 1} of ${restIds.length}…`);
-        try {
-          await archiveMessageByRestId(id, siteId, selectedDrive, selectedFolder, accessToken);
-          success++;
-        } catch (e) {
-          console.error("❌ Failed:", e);
-          failed.push(id);
+      setStatus(`Archiving ${items.length} email(s)…`);
+      const accessToken = token || graphToken;
+      if (!selectedFolder) throw new Error("No folder selected.");
+      const { driveId, path } = selectedFolder;
+      const siteId = await getSiteIdFromDrive(driveId, accessToken);
+      const profile = findProfileForDrive(profiles, driveId);
+      const nameBudget = fileBaseNameBudget(path, await libraryPathFor(driveId, accessToken));
+      const fileNames: Record<string, string> = {};
+      items.forEach((i) => (fileNames[i.restId] = sanitizeSharePointName(i.name, nameBudget)));
+
+      // Persisted job: reopening the dialog resumes it if we're closed mid-run
+      const job = await createArchiveJob(
+        { siteId, driveId, folderPath: path },
+        items.map((i) => i.restId),
+        "dialog",
+        {
+          outputFormat,
+          conflictPolicy,
+          postArchiveActions: loadSettings().postArchiveActions || profile?.PostArchiveActions,
+          metadataMapping: profile?.MetadataMapping,
+          libraryLabel: profile?.Label || driveName(driveId),
+          fileNameTemplate: resolveFileNameTemplate(loadSettings().fileNameTemplate, profile?.FilenameTemplate),
+          projectNumberPattern: profile?.ProjectNumberPattern,
+          fileNames,
         }
-      }
-
-      if (!failed.length)
-        setStatus(`✅ Archived ${success} email(s) successfully.`);
-      else
-        setStatus(`⚠️ ${success} succeeded, ${failed.length} failed (check console).`);
+      );
+      await runJob(job.id, accessToken);
     } catch (e: any) {
       console.error("Bulk archive error:", e);
       setStatus(`❌ Bulk archive failed: ${e?.message || e}`);
@@ -393,115 +333,190 @@ function BulkArchiveDialog() {
 
   /* ───────────────────────────────────────────── */
   // UI
+  const field = { display: "block", marginTop: 12, marginBottom: 4, color: "#b5b8bf" } as const;
   return (
-    <div style={{ background: "#0f0f10", color: "#e5e7eb", fontFamily: "Segoe UI, sans-serif", padding: 20, minHeight: "100%" }}>
-      <h3 style={{ color: "#ff7a18", fontWeight: 700, marginBottom: 6, textShadow: "0 0 8px rgba(255,122,24,0.5)" }}>
-        Archive to SharePoint
-      </h3>
-      <p style={{ color: "#b5b8bf", fontSize: 12, marginTop: 0 }}>
-        Choose a document library and target folder for bulk archiving.
-      </p>
-
-      <label style={{ display: "block", marginTop: 10, color: "#b5b8bf" }}>Document Library</label>
-      <select
-        style={{ width: "100%", padding: "6px", borderRadius: 6, border: "1px solid #2a2b2f", background: "#17181a", color: "#e5e7eb" }}
-        value={selectedDrive}
-        onChange={handleDriveChange}
-        disabled={loading}
-      >
-        <option value="">-- Select a document library --</option>
-        {drives.map((d) => (
-          <option key={d.id} value={d.id}>{d.name}</option>
-        ))}
-      </select>
-
-      <label style={{ display: "block", marginTop: 15, color: "#b5b8bf" }}>Folder / Subfolder</label>
-      <input
-        type="text"
-        placeholder="Search folders..."
-        value={searchTerm}
-        onChange={handleSearch}
-        style={{
-          width: "100%", padding: "6px", borderRadius: 6,
-          border: "1px solid #2a2b2f", background: "#17181a",
-          color: "#e5e7eb", marginBottom: 6,
-        }}
-        disabled={!selectedDrive || loading || folders.length === 0}
-      />
-      <select
-        style={{
-          width: "100%", padding: "6px", borderRadius: 6, border: "1px solid #2a2b2f",
-          background: "#17181a", color: "#e5e7eb", maxHeight: "200px", overflowY: "auto",
-        }}
-        value={selectedFolder}
-        onChange={(e) => setSelectedFolder(e.target.value)}
-        disabled={!filteredFolders.length || loading}
-      >
-        <option value="">-- Choose a folder --</option>
-        {filteredFolders.map((f) => (
-          <option key={f.id} value={f.id}>{f.name}</option>
-        ))}
-      </select>
-
-      <div style={{ display: "flex", gap: 10, marginTop: 20 }}>
-        <button
-          onClick={handleRefresh}
-          style={{ background: "#2c2e33", color: "#fff", border: "1px solid #2a2b2f", borderRadius: 6, padding: "8px 14px", cursor: "pointer" }}
-        >
-          Update Folder List
-        </button>
-        <button
-          onClick={handleBulkArchive}
-          disabled={!selectedFolder}
-          style={{
-            background: selectedFolder ? "#ff7a18" : "#333",
-            color: "#fff",
-            border: "none",
-            borderRadius: 6,
-            padding: "8px 14px",
-            fontWeight: 600,
-            cursor: selectedFolder ? "pointer" : "not-allowed",
+    <FluentProvider theme={webDarkTheme} style={{ background: "#0f0f10", minHeight: "100%" }}>
+      <div style={{ color: "#e5e7eb", fontFamily: "Segoe UI, sans-serif", padding: 20 }}>
+        <h3 style={{ color: accent, fontWeight: 700, marginBottom: 6, textShadow: "0 0 8px rgba(255,122,24,0.5)" }}>
+          Archive to SharePoint
+        </h3>
+        <Caption1 style={{ color: "#b5b8bf" }}>Choose a document library and target folder for bulk archiving.</Caption1>
+
+        <label style={field}>Document Library</label>
+        <Combobox
+          placeholder="Select a document library"
+          value={selectedDrive ? driveName(selectedDrive) : ""}
+          selectedOptions={selectedDrive ? [selectedDrive] : []}
+          disabled={loading}
+          style={{ width: "100%" }}
+          onOptionSelect={(_, data) => {
+            setSelectedDrive(data.optionValue || "");
+            setSelectedFolder(null);
           }}
         >
-          Bulk Archive
-        </button>
-      </div>
-
-      <div style={{ marginTop: 20 }}>
-        <h4 style={{ color: "#b5b8bf", marginBottom: 8 }}>⭐ Favorites</h4>
-        {favorites.length ? (
-          <div style={{ display: "grid", gap: 6 }}>
-            {favorites.map((f) => (
-              <button
-                key={`${f.driveId}:${f.folderId || f.id}`}
-                onClick={() => handleFavoriteClick(f)}
-                style={{
-                  textAlign: "left", background: "#141518", color: "#e5e7eb",
-                  border: "1px solid #2a2b2f", borderRadius: 6, padding: "8px 10px", cursor: "pointer",
-                }}
-              >
-                {f.name}
-              </button>
+          {drives.map((d) => (
+            <Option key={d.id} value={d.id}>
+              {d.name}
+            </Option>
+          ))}
+        </Combobox>
+
+        {selectedDrive && (
+          <>
+            <label style={field}>Folder</label>
+            {token && (
+              <FolderTreePicker
+                token={token}
+                driveId={selectedDrive}
+                rootLabel={driveName(selectedDrive)}
+                selected={selectedFolder}
+                onSelect={selectFolder}
+              />
+            )}
+          </>
+        )}
+
+        {selectedFolder && (
+          <div style={{ marginTop: 8 }}>
+            <FolderBreadcrumb
+              rootLabel={driveName(selectedFolder.driveId)}
+              segments={selectedFolder.path.split("/").filter(Boolean)}
+              onNavigate={(depth) => void selectAncestor(depth)}
+            />
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 10, marginTop: 16 }}>
+          <Button
+            appearance="primary"
+            onClick={() => void exclusiveArchive(handleBulkArchive)}
+            disabled={!selectedFolder || archiving}
+            style={{ background: selectedFolder ? accent : undefined }}
+          >
+            Bulk Archive
+          </Button>
+        </div>
+
+        {reviewItems && selectedFolder && (
+          <div style={{ marginTop: 12 }}>
+            <FileNameReview
+              items={reviewItems}
+              extensionLabel={outputFormat === "both" ? ".eml + .pdf" : `.${outputFormat}`}
+              destination={selectedFolder.path}
+              onChange={(restId, name) =>
+                setReviewItems((list) => list && list.map((i) => (i.restId === restId ? { ...i, name } : i)))
+              }
+              disabled={archiving}
+              onConfirm={() => void exclusiveArchive(() => startBulkArchive(reviewItems))}
+              onCancel={() => {
+                setReviewItems(null);
+                setStatus("Archive cancelled.");
+              }}
+            />
+          </div>
+        )}
+
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12, flexWrap: "wrap" }}>
+          <Caption1 style={{ color: "#b5b8bf" }}>Parallel uploads</Caption1>
+          <SpinButton
+            size="small"
+            min={1}
+            max={MAX_ARCHIVE_CONCURRENCY}
+            value={concurrency}
+            disabled={archiving}
+            style={{ width: 70 }}
+            onChange={(_, data) => {
+              const raw = data.value ?? Number(data.displayValue);
+              if (raw === undefined || raw === null || isNaN(raw)) return;
+              setConcurrency(saveSettings({ archiveConcurrency: raw }).archiveConcurrency);
+            }}
+          />
+          <Caption1 style={{ color: "#b5b8bf" }}>Save as</Caption1>
+          <Combobox
+            size="small"
+            value={OUTPUT_FORMAT_LABELS[outputFormat]}
+            selectedOptions={[outputFormat]}
+            disabled={archiving}
+            style={{ minWidth: 120 }}
+            onOptionSelect={(_, data) => {
+              const format = data.optionValue as ArchiveOutputFormat;
+              if (format) setOutputFormat(saveSettings({ outputFormat: format }).outputFormat);
+            }}
+          >
+            {(Object.keys(OUTPUT_FORMAT_LABELS) as ArchiveOutputFormat[]).map((f) => (
+              <Option key={f} value={f}>
+                {OUTPUT_FORMAT_LABELS[f]}
+              </Option>
+            ))}
+          </Combobox>
+        </div>
+
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+          <Caption1 style={{ color: "#b5b8bf" }}>If already archived</Caption1>
+          <Combobox
+            size="small"
+            value={CONFLICT_POLICY_LABELS[conflictPolicy]}
+            selectedOptions={[conflictPolicy]}
+            disabled={archiving}
+            style={{ minWidth: 160 }}
+            onOptionSelect={(_, data) => {
+              const policy = data.optionValue as ConflictPolicy;
+              if (policy) setConflictPolicy(saveSettings({ conflictPolicy: policy }).conflictPolicy);
+            }}
+          >
+            {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((p) => (
+              <Option key={p} value={p}>
+                {CONFLICT_POLICY_LABELS[p]}
+              </Option>
             ))}
+          </Combobox>
+        </div>
+
+        {activeJob && (
+          <div style={{ marginTop: 15 }}>
+            <ArchiveProgress job={activeJob} running={archiving} onCancel={() => abortRef.current?.abort()} />
           </div>
-        ) : <p style={{ fontSize: 12, color: "#666" }}>No favorites yet.</p>}
+        )}
+
+        <div style={{ marginTop: 20 }}>
+          <h4 style={{ color: "#b5b8bf", marginBottom: 0 }}>⭐ Favorites</h4>
+          <FavoritesList
+            favorites={favorites}
+            selectedId={selectedFolder?.id}
+            libraryLabel={driveName}
+            onSelect={handleFavoriteClick}
+          />
+        </div>
+
+        <p
+          style={{
+            marginTop: 15,
+            fontSize: 12,
+            color: status.includes("Failed")
+              ? "#ff8f3a"
+              : status.includes("✅") || status.includes("Ready") ? "#45ff82" : "#b5b8bf",
+          }}
+        >
+          {loading ? "⏳ " : "✅ "} {status}
+        </p>
       </div>
-
-      <p style={{
-        marginTop: 15,
-        fontSize: 12,
-        color: status.includes("Failed")
-          ? "#ff8f3a"
-          : status.includes("✅") || status.includes("Ready") ? "#45ff82" : "#b5b8bf",
-      }}>
-        {loading ? "⏳ " : "✅ "} {status}
-      </p>
-    </div>
+    </FluentProvider>
   );
 }
 
 /* ───────────────────────────────────────────── */
-Office.onReady(() => {
+Office.onReady(async () => {
   const container = document.getElementById("container");
-  if (container) createRoot(container).render(<BulkArchiveDialog />);
+  if (!container) return;
+  try {
+    await loadConfig();
+    createRoot(container).render(<BulkArchiveDialog />);
+  } catch (e) {
+    console.error("Flowpoint config invalid:", e);
+    createRoot(container).render(
+      <FluentProvider theme={webDarkTheme}>
+        <SetupScreen error={e} />
+      </FluentProvider>
+    );
+  }
 });
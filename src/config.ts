@@ -0,0 +1,185 @@
+// src/config.ts
+/* global URL, URLSearchParams, fetch, location */
+
+/**
+ * Runtime configuration: tenant, app registration, mappings site and list
+ * names come from a `flowpoint.config.json` deployed next to the pages, so
+ * one build can serve several tenants and environments. The file holds the
+ * base values plus optional per-environment overlays:
+ *
+ *   {
+ *     "environment": "prod",
+ *     "auth": { "clientId": "…", "tenantId": "…" },
+ *     "mappings": { "siteUrl": "https://contoso.sharepoint.com/sites/IT", "listId": "…" },
+ *     "environments": {
+ *       "dev": { "hosts": ["localhost:3000"], "mappings": { "siteUrl": "…/sites/IT-Test" } }
+ *     }
+ *   }
+ *
+ * The overlay is picked by `?env=` on the page URL, then by the page's
+ * host, then by `environment`.
+ */
+
+export const CONFIG_FILE = "flowpoint.config.json";
+
+export interface FlowpointConfig {
+  /** Name of the overlay in effect ("" = base values only) */
+  environment: string;
+  auth: {
+    /** Entra app registration (client) id */
+    clientId: string;
+    /** Tenant id or domain, e.g. contoso.onmicrosoft.com */
+    tenantId: string;
+    /** Defaults to taskpane.html next to the running page */
+    redirectUri?: string;
+  };
+  mappings: {
+    /** Site hosting the mappings, rules, templates and audit lists */
+    siteUrl: string;
+    /** Mappings list id; looked up by listTitle when empty */
+    listId?: string;
+    listTitle: string;
+  };
+  lists: {
+    rules: string;
+    folderTemplates: string;
+    auditLog: string;
+  };
+}
+
+type Overlay = DeepPartial<Omit<FlowpointConfig, "environment">> & { hosts?: string[] };
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? Partial<T[K]> : T[K] };
+
+interface ConfigFile extends Overlay {
+  environment?: string;
+  environments?: Record<string, Overlay>;
+}
+
+const DEFAULT_MAPPINGS_LIST_TITLE = "Dialectic Flowpoint Mappings";
+const DEFAULT_LISTS: FlowpointConfig["lists"] = {
+  rules: "Dialectic Flowpoint Rules",
+  folderTemplates: "Dialectic Flowpoint Folder Templates",
+  auditLog: "Dialectic Flowpoint Archive Log",
+};
+
+/** Config couldn't be loaded or is incomplete; `problems` lists what to fix. */
+export class ConfigError extends Error {
+  constructor(
+    public problems: string[],
+    public environment = ""
+  ) {
+    super(`Flowpoint isn't configured: ${problems.join("; ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function pickEnvironment(file: ConfigFile): string {
+  const envs = file.environments || {};
+  const requested = new URLSearchParams(location.search).get("env");
+  if (requested && envs[requested]) return requested;
+  const host = location.host.toLowerCase();
+  const byHost = Object.keys(envs).find((name) =>
+    (envs[name].hosts || []).some((h) => h.toLowerCase() === host)
+  );
+  return byHost || file.environment || "";
+}
+
+function overlay(base: FlowpointConfig, o: Overlay | undefined): FlowpointConfig {
+  if (!o) return base;
+  return {
+    ...base,
+    auth: { ...base.auth, ...o.auth },
+    mappings: { ...base.mappings, ...o.mappings },
+    lists: { ...base.lists, ...o.lists },
+  };
+}
+
+const GUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Everything wrong with a config, in words an admin can act on. */
+export function validateConfig(config: FlowpointConfig): string[] {
+  const problems: string[] = [];
+  const { auth, mappings, lists } = config;
+  if (!auth.clientId) problems.push("auth.clientId is missing (the app registration's client id)");
+  else if (!GUID.test(auth.clientId))
+    problems.push(`auth.clientId "${auth.clientId}" isn't a GUID`);
+  if (!auth.tenantId) problems.push("auth.tenantId is missing (tenant id or domain)");
+  else if (!GUID.test(auth.tenantId) && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(auth.tenantId))
+    problems.push(`auth.tenantId "${auth.tenantId}" isn't a tenant id or domain`);
+  if (auth.redirectUri && !/^https:\/\//i.test(auth.redirectUri))
+    problems.push("auth.redirectUri must be an https URL");
+  if (!mappings.siteUrl)
+    problems.push("mappings.siteUrl is missing (the site with the Flowpoint lists)");
+  // Any https host: sovereign clouds use sharepoint.us, sharepoint.cn, …
+  else if (!/^https:\/\/[^/\s]+(\/|$)/i.test(mappings.siteUrl))
+    problems.push(`mappings.siteUrl "${mappings.siteUrl}" isn't an https site URL`);
+  if (mappings.listId && !GUID.test(mappings.listId))
+    problems.push(`mappings.listId "${mappings.listId}" isn't a GUID`);
+  if (!mappings.listId && !mappings.listTitle)
+    problems.push("mappings.listId or mappings.listTitle is required");
+  (Object.keys(lists) as Array<keyof FlowpointConfig["lists"]>).forEach((k) => {
+    if (!lists[k]) problems.push(`lists.${k} is empty`);
+  });
+  return problems;
+}
+
+async function fetchConfig(): Promise<FlowpointConfig> {
+  const url = new URL(CONFIG_FILE, location.href).toString();
+  let file: ConfigFile;
+  try {
+    const resp = await fetch(url, { cache: "no-store" });
+    if (!resp.ok)
+      throw new ConfigError([`${CONFIG_FILE} wasn't found at ${url} (HTTP ${resp.status})`]);
+    file = await resp.json();
+  } catch (e) {
+    if (e instanceof ConfigError) throw e;
+    throw new ConfigError([`${CONFIG_FILE} couldn't be read: ${(e as Error)?.message || e}`]);
+  }
+
+  const environment = pickEnvironment(file);
+  if (environment && file.environments && !file.environments[environment])
+    throw new ConfigError(
+      [`environment "${environment}" has no overlay in ${CONFIG_FILE}`],
+      environment
+    );
+
+  const base: FlowpointConfig = {
+    environment,
+    auth: { clientId: "", tenantId: "" },
+    mappings: { siteUrl: "", listTitle: DEFAULT_MAPPINGS_LIST_TITLE },
+    lists: { ...DEFAULT_LISTS },
+  };
+  const config = overlay(
+    overlay(base, file),
+    environment ? file.environments?.[environment] : undefined
+  );
+  const problems = validateConfig(config);
+  if (problems.length) throw new ConfigError(problems, environment);
+  return config;
+}
+
+let loading: Promise<FlowpointConfig> | null = null;
+let loaded: FlowpointConfig | null = null;
+
+/** Load (once) and validate the config; rejects with a ConfigError. */
+export function loadConfig(): Promise<FlowpointConfig> {
+  if (!loading) {
+    loading = fetchConfig().then((c) => (loaded = c));
+    loading.catch(() => (loading = null));
+  }
+  return loading;
+}
+
+/** The loaded config; pages call loadConfig() before rendering anything that needs it. */
+export function getConfig(): FlowpointConfig {
+  if (!loaded) throw new Error("Flowpoint config used before loadConfig() finished.");
+  return loaded;
+}
+
+/** URL of another add-in page (e.g. dialog.html) next to this one, keeping `?env=`. */
+export function addinPageUrl(page: string): string {
+  const url = new URL(page, location.href);
+  const env = new URLSearchParams(location.search).get("env");
+  if (env) url.searchParams.set("env", env);
+  return url.toString();
+}
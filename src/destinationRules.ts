@@ -0,0 +1,185 @@
+// src/destinationRules.ts
+import { graphGetAll, TokenSource } from "./graphClient";
+import { getMappingsSiteId, LibraryProfile } from "./libraryProfiles";
+import { getConfig } from "./config";
+
+/* global console */
+
+/**
+ * Destination rules: rows in a SharePoint list next to the mappings list,
+ * each mapping sender domains, a subject regex and/or recipient addresses
+ * to a library (by its mapping Label) and a folder path. The folder path
+ * may use the subject regex's capture groups, e.g. subject
+ * "\b(P-\d{4})\b" with folder "Projects/$1/Correspondence".
+ */
+
+export interface DestinationRule {
+  id: string;
+  Title: string;
+  /** Comma/semicolon separated, e.g. "contoso.com; fabrikam.co.uk" */
+  SenderDomains: string[];
+  /** Case-insensitive regex tested against the subject */
+  SubjectPattern?: string;
+  /** Comma/semicolon separated addresses (To or Cc) */
+  Recipients: string[];
+  /** LibraryProfile.Label */
+  Library: string;
+  FolderPath: string;
+  /** Higher wins ties */
+  Priority: number;
+}
+
+export interface RuleEmail {
+  from?: string;
+  subject?: string;
+  /** To and Cc addresses */
+  recipients: string[];
+}
+
+export interface DestinationSuggestion {
+  profile: LibraryProfile;
+  folderPath: string;
+  rule: DestinationRule;
+  /** Which conditions matched, for the tooltip */
+  reasons: string[];
+  score: number;
+}
+
+function splitList(raw: unknown): string[] {
+  return String(raw || "")
+    .split(/[;,\n]/)
+    .map((s) => s.trim().toLowerCase().replace(/^@/, ""))
+    .filter(Boolean);
+}
+
+export function ruleFromFields(id: string, f: any): DestinationRule {
+  return {
+    id,
+    Title: f.Title || "",
+    SenderDomains: splitList(f.SenderDomains),
+    SubjectPattern: f.SubjectPattern || undefined,
+    Recipients: splitList(f.Recipients),
+    Library: f.Library || "",
+    FolderPath: String(f.FolderPath || "").replace(/^\/+|\/+$/g, ""),
+    Priority: Number(f.Priority) || 0,
+  };
+}
+
+let rulesCache: Promise<DestinationRule[]> | null = null;
+
+/** Rules from the SharePoint list (loaded once; [] if the list doesn't exist). */
+export function loadDestinationRules(
+  token: TokenSource,
+  refresh = false
+): Promise<DestinationRule[]> {
+  if (!rulesCache || refresh) {
+    rulesCache = (async () => {
+      const siteId = await getMappingsSiteId(token);
+      const listTitle = getConfig().lists.rules;
+      const title = encodeURIComponent(listTitle.replace(/'/g, "''"));
+      const lists = await graphGetAll<{ id: string }>(
+        `/sites/${siteId}/lists?$filter=displayName eq '${title}'&$select=id`,
+        token
+      );
+      if (!lists.length) {
+        console.warn(`Rules list "${listTitle}" not found; no destination suggestions.`);
+        return [];
+      }
+      const items = await graphGetAll<{ id: string; fields: any }>(
+        `/sites/${siteId}/lists/${lists[0].id}/items?expand=fields`,
+        token
+      );
+      return items.map((i) => ruleFromFields(i.id, i.fields)).filter((r) => r.Library);
+    })();
+    rulesCache.catch(() => (rulesCache = null));
+  }
+  return rulesCache;
+}
+
+function domainOf(address?: string): string {
+  const at = (address || "").lastIndexOf("@");
+  return at < 0 ? "" : address!.slice(at + 1).toLowerCase();
+}
+
+/** Sender domain also matches subdomains (mail.contoso.com ~ contoso.com). */
+function domainMatches(domain: string, ruleDomain: string): boolean {
+  return (
+    domain === ruleDomain ||
+    (domain.length > ruleDomain.length && domain.slice(-ruleDomain.length - 1) === `.${ruleDomain}`)
+  );
+}
+
+/**
+ * Evaluate one rule. Every condition the rule sets must match; a rule with
+ * no conditions never matches. Returns null if it doesn't apply.
+ */
+export function matchRule(
+  rule: DestinationRule,
+  email: RuleEmail
+): { folderPath: string; reasons: string[]; score: number } | null {
+  const reasons: string[] = [];
+  let folderPath = rule.FolderPath;
+
+  if (rule.SenderDomains.length) {
+    const domain = domainOf(email.from);
+    const hit = rule.SenderDomains.find((d) => domainMatches(domain, d));
+    if (!hit) return null;
+    reasons.push(`sender @${hit}`);
+  }
+
+  if (rule.SubjectPattern) {
+    let re: RegExp;
+    try {
+      re = new RegExp(rule.SubjectPattern, "i");
+    } catch {
+      console.warn(`Ignoring rule "${rule.Title}": invalid subject pattern`, rule.SubjectPattern);
+      return null;
+    }
+    const m = re.exec(email.subject || "");
+    if (!m) return null;
+    folderPath = folderPath.replace(/\$(\d)/g, (_, n: string) => (m[Number(n)] || "").trim());
+    reasons.push(`subject "${m[0]}"`);
+  }
+
+  if (rule.Recipients.length) {
+    const recipients = email.recipients.map((r) => r.toLowerCase());
+    const hit = rule.Recipients.find((r) => recipients.indexOf(r) >= 0);
+    if (!hit) return null;
+    reasons.push(`sent to ${hit}`);
+  }
+
+  if (!reasons.length) return null;
+  // More specific rules first, then the list's own priority
+  return {
+    folderPath: folderPath.replace(/\/{2,}/g, "/").replace(/^\/|\/$/g, ""),
+    reasons,
+    score: reasons.length * 100 + rule.Priority,
+  };
+}
+
+/** Best matching destinations for an email, one per library + folder. */
+export function suggestDestinations(
+  rules: DestinationRule[],
+  profiles: LibraryProfile[],
+  email: RuleEmail,
+  limit = 3
+): DestinationSuggestion[] {
+  const out: DestinationSuggestion[] = [];
+  for (const rule of rules) {
+    const profile = profiles.find((p) => p.Label === rule.Library);
+    if (!profile) continue;
+    const match = matchRule(rule, email);
+    if (match) out.push({ profile, rule, ...match });
+  }
+
+  const seen = new Set<string>();
+  return out
+    .sort((a, b) => b.score - a.score)
+    .filter((s) => {
+      const key = `${s.profile.DriveId}|${s.folderPath.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
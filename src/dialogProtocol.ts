@@ -0,0 +1,214 @@
+// src/dialogProtocol.ts
+import { addinPageUrl } from "./config";
+import { FavoriteFolder } from "./favoritesStore";
+import { ArchiveRunSummary } from "./archiveEngine";
+import { RUNNER_ID } from "./archiveQueue";
+
+/* global Office, console */
+
+/**
+ * Messages between the Bulk Archive dialog and whatever opened it (the task
+ * pane or the ribbon command). The dialog announces "ready" once it is
+ * listening; only then does the parent send the selection. While archiving
+ * the dialog reports progress, and a summary when a job finishes.
+ *
+ * Every message carries the protocol version so a cached older page on
+ * either side is ignored (and logged) instead of misread.
+ */
+
+export const DIALOG_PROTOCOL_VERSION = 1;
+const PROTOCOL = "flowpoint.bulkArchive";
+
+/** Outcome of one dialog archive job (as the archive engine reports it). */
+export type BulkArchiveSummary = ArchiveRunSummary;
+
+export type DialogToParentMessage =
+  | { type: "ready"; runner: string }
+  | { type: "progress"; jobId: string; total: number; done: number; failed: number }
+  | { type: "result"; summary: BulkArchiveSummary };
+
+export type ParentToDialogMessage = {
+  type: "selection";
+  restIds: string[];
+  favorites: FavoriteFolder[];
+};
+
+type Envelope = { protocol: typeof PROTOCOL; version: number };
+
+export function encodeDialogMessage(
+  message: DialogToParentMessage | ParentToDialogMessage
+): string {
+  const envelope: Envelope = { protocol: PROTOCOL, version: DIALOG_PROTOCOL_VERSION };
+  return JSON.stringify({ ...envelope, ...message });
+}
+
+function decode<T extends { type: string }>(raw: unknown, types: string[]): T | null {
+  let data: any;
+  try {
+    data = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    return null;
+  }
+  if (!data || data.protocol !== PROTOCOL) return null;
+  if (data.version !== DIALOG_PROTOCOL_VERSION) {
+    console.warn(
+      `Ignoring dialog message with protocol version ${data.version} (expected ${DIALOG_PROTOCOL_VERSION}).`
+    );
+    return null;
+  }
+  if (types.indexOf(data.type) < 0) return null;
+  return data as T;
+}
+
+/** A message the dialog sent, or null if it isn't one of ours. */
+export function decodeDialogToParent(raw: unknown): DialogToParentMessage | null {
+  const msg = decode<DialogToParentMessage>(raw, ["ready", "progress", "result"]);
+  if (msg?.type === "result" && !Array.isArray(msg.summary?.failed)) return null;
+  return msg;
+}
+
+/** A message the parent sent, or null if it isn't one of ours. */
+export function decodeParentToDialog(raw: unknown): ParentToDialogMessage | null {
+  const msg = decode<ParentToDialogMessage>(raw, ["selection"]);
+  if (msg && (!Array.isArray(msg.restIds) || !Array.isArray(msg.favorites))) return null;
+  return msg;
+}
+
+/** One-line description of a job's outcome for a status bar or notification. */
+export function describeBulkArchiveSummary(summary: BulkArchiveSummary): string {
+  const { archived, skipped, cancelled, failed } = summary;
+  const skippedNote = skipped ? ` ${skipped} already archived (skipped).` : "";
+  if (cancelled) return `Cancelled — ${archived + skipped} archived, ${cancelled} not archived.`;
+  if (!failed.length) return `Archived ${archived} email(s) successfully.${skippedNote}`;
+  return `${archived + skipped} succeeded, ${failed.length} failed.${skippedNote}`;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Parent side
+   ────────────────────────────────────────────────────────────── */
+
+/**
+ * REST ids of the messages selected in Outlook (multi-select needs Mailbox
+ * 1.13), falling back to the open message.
+ */
+export async function getSelectedMessageRestIds(): Promise<string[]> {
+  const mbox: any = Office?.context?.mailbox;
+  if (!mbox) return [];
+  const toRest = (itemId: string) =>
+    mbox.convertToRestId(itemId, Office.MailboxEnums.RestVersion.v2_0) as string;
+  const current = (): string[] => (mbox.item?.itemId ? [toRest(mbox.item.itemId)] : []);
+
+  const multiSelect =
+    typeof mbox.getSelectedItemsAsync === "function" &&
+    !!Office.context.requirements?.isSetSupported?.("Mailbox", "1.13");
+  if (!multiSelect) return current();
+
+  const selected = await new Promise<string[]>((resolve) => {
+    try {
+      mbox.getSelectedItemsAsync((res: Office.AsyncResult<Array<{ itemId?: string }>>) => {
+        resolve(
+          res?.status === Office.AsyncResultStatus.Succeeded && Array.isArray(res.value)
+            ? res.value
+                .map((it) => it?.itemId || "")
+                .filter(Boolean)
+                .map(toRest)
+            : []
+        );
+      });
+    } catch {
+      resolve([]);
+    }
+  });
+  return selected.length ? selected : current();
+}
+
+export interface BulkArchiveDialogOptions {
+  restIds: string[];
+  favorites: FavoriteFolder[];
+  onProgress?: (progress: Extract<DialogToParentMessage, { type: "progress" }>) => void;
+  onResult?: (summary: BulkArchiveSummary) => void;
+  /**
+   * The user closed the dialog (or it navigated away). `runner` is the
+   * dialog's archive lease owner, once it has said "ready".
+   */
+  onClosed?: (runner?: string) => void;
+}
+
+/**
+ * Open the Bulk Archive dialog and hand it the selection once it says it's
+ * ready. Resolves when the dialog is open; rejects if it couldn't be opened.
+ */
+export function openBulkArchiveDialog(options: BulkArchiveDialogOptions): Promise<Office.Dialog> {
+  const selection = encodeDialogMessage({
+    type: "selection",
+    restIds: options.restIds,
+    favorites: options.favorites,
+  });
+
+  return new Promise((resolve, reject) => {
+    Office.context.ui.displayDialogAsync(
+      addinPageUrl("dialog.html"),
+      { height: 55, width: 40 },
+      (result) => {
+        if (result.status === Office.AsyncResultStatus.Failed) {
+          reject(new Error(result.error?.message || "The Bulk Archive dialog couldn't be opened."));
+          return;
+        }
+        const dialog = result.value;
+        let runner: string | undefined;
+
+        dialog.addEventHandler(Office.EventType.DialogMessageReceived, (arg) => {
+          const msg = decodeDialogToParent((arg as { message?: string }).message);
+          if (!msg) return;
+          if (msg.type === "ready") {
+            runner = msg.runner;
+            // Sent on every "ready" so a reloaded dialog gets it again
+            try {
+              dialog.messageChild(selection);
+            } catch (e) {
+              console.error("Could not send the selection to the dialog:", e);
+            }
+          } else if (msg.type === "progress") options.onProgress?.(msg);
+          else options.onResult?.(msg.summary);
+        });
+
+        dialog.addEventHandler(Office.EventType.DialogEventReceived, () =>
+          options.onClosed?.(runner)
+        );
+        resolve(dialog);
+      }
+    );
+  });
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Dialog side
+   ────────────────────────────────────────────────────────────── */
+
+/** Send a message to the page that opened this dialog (no-op when opened directly). */
+export function postToParent(message: DialogToParentMessage): void {
+  try {
+    Office.context.ui.messageParent(encodeDialogMessage(message));
+  } catch (e) {
+    console.warn("No dialog parent to notify:", e);
+  }
+}
+
+/** Listen for the parent's messages (for the life of the page), then announce "ready". */
+export function listenToParent(onMessage: (message: ParentToDialogMessage) => void): void {
+  const handler = (arg: { message: string }) => {
+    const msg = decodeParentToDialog(arg.message);
+    if (msg) onMessage(msg);
+  };
+  Office.context.ui.addHandlerAsync(
+    Office.EventType.DialogParentMessageReceived,
+    handler,
+    (res) => {
+      if (res.status === Office.AsyncResultStatus.Failed) {
+        console.warn("Can't receive messages from the dialog parent:", res.error);
+        return;
+      }
+      postToParent({ type: "ready", runner: RUNNER_ID });
+    }
+  );
+}
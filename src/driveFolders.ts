@@ -0,0 +1,431 @@
+// src/driveFolders.ts
+import {
+  batchBodyOrThrow,
+  graphBatch,
+  graphGET,
+  graphGetAll,
+  graphPOST,
+  isGraphError,
+  TokenSource,
+} from "./graphClient";
+import { getMappingsSiteId } from "./libraryProfiles";
+import { getConfig } from "./config";
+import { sanitizeSharePointName } from "./fileNaming";
+
+/* global AbortSignal, console */
+
+/**
+ * Folders in a library: browsing one level at a time, server-side search,
+ * and creating single folders, whole paths (missing segments are created)
+ * and admin-defined folder templates kept in a SharePoint list next to the
+ * mappings list.
+ */
+
+export interface DriveFolder {
+  id: string;
+  name: string;
+  webUrl?: string;
+}
+
+/** A folder as the pickers see it: its id and its real path in the library. */
+export interface FolderNode {
+  driveId: string;
+  id: string;
+  name: string;
+  /** Path from the library root, e.g. "Clients/Acme" ("" for the root) */
+  path: string;
+  childCount?: number;
+}
+
+interface RawFolderItem {
+  id: string;
+  name: string;
+  folder?: { childCount?: number };
+  parentReference?: { driveId?: string; path?: string };
+}
+
+/** "/drives/{id}/root:/A/B" → "A/B" */
+export function pathFromParentReference(parentPath?: string): string {
+  const i = (parentPath || "").indexOf("root:");
+  return i < 0 ? "" : decodeURIComponent(parentPath!.slice(i + 5)).replace(/^\/+/, "");
+}
+
+/** Sub-folders of one folder ("root" for the library root). */
+export async function listChildFolders(
+  token: TokenSource,
+  driveId: string,
+  parent: { id: string; path: string },
+  signal?: AbortSignal
+): Promise<FolderNode[]> {
+  const base =
+    parent.id === "root" ? `/drives/${driveId}/root` : `/drives/${driveId}/items/${parent.id}`;
+  // Drive children can't be filtered to folders server-side
+  const items = await graphGetAll<RawFolderItem>(
+    `${base}/children?$select=id,name,folder&$top=200`,
+    token,
+    { signal }
+  );
+  return items
+    .filter((i) => !!i.folder)
+    .map((i) => ({
+      driveId,
+      id: i.id,
+      name: i.name,
+      path: [parent.path, i.name].filter(Boolean).join("/"),
+      childCount: i.folder!.childCount,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Look a folder up by its path ("" = the library root). */
+export async function getFolderByPath(
+  token: TokenSource,
+  driveId: string,
+  path: string
+): Promise<FolderNode> {
+  const segments = (path || "").split("/").filter(Boolean);
+  if (!segments.length) return { driveId, id: "root", name: "", path: "" };
+  const item = await graphGET<RawFolderItem>(
+    `/drives/${driveId}/root:/${segments.map(encodeURIComponent).join("/")}?$select=id,name,folder`,
+    token
+  );
+  return {
+    driveId,
+    id: item.id,
+    name: item.name,
+    path: segments.join("/"),
+    childCount: item.folder?.childCount,
+  };
+}
+
+/** An item found by library search. */
+export interface DriveSearchHit {
+  driveId: string;
+  id: string;
+  name: string;
+  /** Path of the folder containing the item */
+  parentPath: string;
+  isFolder: boolean;
+  webUrl?: string;
+}
+
+/** The folder a hit lives in — or the hit itself, if it's a folder. */
+export function hitFolderPath(hit: DriveSearchHit): string {
+  return hit.isFolder ? [hit.parentPath, hit.name].filter(Boolean).join("/") : hit.parentPath;
+}
+
+/**
+ * Graph drive search across one whole library. Search hits don't always
+ * carry their parent path, so those are looked up in one $batch.
+ */
+export async function searchDrive(
+  token: TokenSource,
+  driveId: string,
+  query: string,
+  opts: { signal?: AbortSignal; foldersOnly?: boolean; limit?: number } = {}
+): Promise<DriveSearchHit[]> {
+  const { signal, foldersOnly, limit = 50 } = opts;
+  const q = encodeURIComponent(query.replace(/'/g, "''"));
+  const hits = (
+    await graphGetAll<RawFolderItem & { webUrl?: string }>(
+      `/drives/${driveId}/root/search(q='${q}')?$select=id,name,folder,file,webUrl,parentReference&$top=100`,
+      token,
+      { signal, maxItems: 300 }
+    )
+  )
+    .filter((i) => !foldersOnly || !!i.folder)
+    .slice(0, limit);
+
+  const missing = hits.filter((h) => !h.parentReference?.path);
+  if (missing.length) {
+    const responses = await graphBatch<RawFolderItem>(
+      missing.map((h) => ({
+        method: "GET" as const,
+        url: `/drives/${driveId}/items/${h.id}?$select=id,name,folder,parentReference`,
+      })),
+      token,
+      { signal }
+    );
+    responses.forEach((r, i) => {
+      try {
+        missing[i].parentReference = batchBodyOrThrow(r, "GET item").parentReference;
+      } catch (e) {
+        console.warn("Could not resolve path for search hit:", e);
+      }
+    });
+  }
+
+  return hits
+    .filter((h) => h.parentReference?.path)
+    .map((h) => ({
+      driveId,
+      id: h.id,
+      name: h.name,
+      parentPath: pathFromParentReference(h.parentReference!.path),
+      isFolder: !!h.folder,
+      webUrl: h.webUrl,
+    }));
+}
+
+/** Server-side folder search across the whole library. */
+export async function searchFolders(
+  token: TokenSource,
+  driveId: string,
+  query: string,
+  signal?: AbortSignal,
+  limit = 50
+): Promise<FolderNode[]> {
+  const hits = await searchDrive(token, driveId, query, { signal, foldersOnly: true, limit });
+  return hits.map((h) => ({ driveId, id: h.id, name: h.name, path: hitFolderPath(h) }));
+}
+
+const driveWebUrls = new Map<string, Promise<string>>();
+
+/** A library's URL, e.g. https://contoso.sharepoint.com/sites/Projects/Shared Documents */
+export function getDriveWebUrl(token: TokenSource, driveId: string): Promise<string> {
+  let cached = driveWebUrls.get(driveId);
+  if (!cached) {
+    cached = graphGET<{ webUrl: string }>(`/drives/${driveId}?$select=webUrl`, token).then(
+      (d) => d.webUrl
+    );
+    cached.catch(() => driveWebUrls.delete(driveId));
+    driveWebUrls.set(driveId, cached);
+  }
+  return cached;
+}
+
+interface SearchQueryHit {
+  resource?: RawFolderItem & { webUrl?: string };
+}
+
+/**
+ * Microsoft Search across several libraries at once (one request). Paths
+ * are worked out from each hit's URL relative to its library's URL.
+ */
+export async function searchLibraries(
+  token: TokenSource,
+  driveIds: string[],
+  query: string,
+  opts: { signal?: AbortSignal; limit?: number } = {}
+): Promise<DriveSearchHit[]> {
+  const libraries = (
+    await Promise.all(
+      driveIds.map((driveId) =>
+        getDriveWebUrl(token, driveId)
+          .then((webUrl) => ({ driveId, webUrl: decodeURIComponent(webUrl) }))
+          .catch(() => null)
+      )
+    )
+  ).filter((l): l is { driveId: string; webUrl: string } => !!l);
+  if (!libraries.length) return [];
+
+  const scope = libraries.map((l) => `path:"${l.webUrl}"`).join(" OR ");
+  const resp = await graphPOST<{
+    value?: Array<{ hitsContainers?: Array<{ hits?: SearchQueryHit[] }> }>;
+  }>(
+    "/search/query",
+    token,
+    {
+      requests: [
+        {
+          entityTypes: ["driveItem"],
+          query: { queryString: `${query.replace(/"/g, "")} AND (${scope})` },
+          from: 0,
+          size: opts.limit || 50,
+        },
+      ],
+    },
+    { signal: opts.signal }
+  );
+
+  const out: DriveSearchHit[] = [];
+  (resp.value || []).forEach((v) =>
+    (v.hitsContainers || []).forEach((c) =>
+      (c.hits || []).forEach((hit) => {
+        const r = hit.resource;
+        if (!r?.webUrl) return;
+        const url = decodeURIComponent(r.webUrl);
+        const lib = libraries.find(
+          (l) =>
+            l.driveId === r.parentReference?.driveId ||
+            url.toLowerCase().indexOf(l.webUrl.toLowerCase() + "/") === 0
+        );
+        if (!lib) return;
+        const relative = url.slice(lib.webUrl.length + 1).split("/");
+        relative.pop(); // the item itself
+        out.push({
+          driveId: lib.driveId,
+          id: r.id,
+          name: r.name,
+          parentPath: relative.join("/"),
+          isFolder: !!r.folder,
+          webUrl: r.webUrl,
+        });
+      })
+    )
+  );
+  return out;
+}
+
+/**
+ * The chain of folders (id + name) from the library root down to `path`,
+ * for jumping a folder browser there. Looked up in one $batch.
+ */
+export async function resolveFolderStack(
+  token: TokenSource,
+  driveId: string,
+  path: string
+): Promise<Array<{ id: string; name: string }>> {
+  const segments = (path || "").split("/").filter(Boolean);
+  if (!segments.length) return [];
+  const responses = await graphBatch<RawFolderItem>(
+    segments.map((_, i) => ({
+      method: "GET" as const,
+      url: `/drives/${driveId}/root:/${segments
+        .slice(0, i + 1)
+        .map(encodeURIComponent)
+        .join("/")}?$select=id,name`,
+    })),
+    token
+  );
+  return responses.map((r, i) => {
+    const item = batchBodyOrThrow(r, `GET folder ${segments.slice(0, i + 1).join("/")}`);
+    return { id: item.id, name: item.name };
+  });
+}
+
+export interface FolderTemplate {
+  id: string;
+  Title: string;
+  /** Relative paths, one per line in the list, e.g. "02 Drawings/Issued" */
+  Folders: string[];
+  /** Only offered for this library (LibraryProfile.Label); empty = everywhere */
+  Library?: string;
+}
+
+/** Split a typed path into SharePoint-safe segments ("a//b/ c " → ["a", "b", "c"]). */
+export function folderPathSegments(path: string): string[] {
+  return (path || "")
+    .split(/[\\/]/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => sanitizeSharePointName(s));
+}
+
+function drivePath(siteId: string, driveId: string): string {
+  return `/sites/${siteId}/drives/${driveId}`;
+}
+
+/** Create one folder under a parent folder id ("root" for the library root). */
+export async function createFolder(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  parentId: string,
+  name: string
+): Promise<DriveFolder> {
+  const parent = parentId === "root" ? "root" : `items/${parentId}`;
+  return graphPOST<DriveFolder>(`${drivePath(siteId, driveId)}/${parent}/children`, token, {
+    name: sanitizeSharePointName(name),
+    folder: {},
+    "@microsoft.graph.conflictBehavior": "fail",
+  });
+}
+
+/**
+ * Make sure every folder along `path` exists, creating what's missing.
+ * Returns the last folder and the normalized path.
+ */
+export async function ensureFolderPath(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  path: string
+): Promise<{ folder: DriveFolder; path: string }> {
+  const segments = folderPathSegments(path);
+  let folder: DriveFolder = { id: "root", name: "" };
+  const done: string[] = [];
+
+  for (const name of segments) {
+    done.push(name);
+    const encoded = done.map(encodeURIComponent).join("/");
+    try {
+      folder = await graphGET<DriveFolder>(
+        `${drivePath(siteId, driveId)}/root:/${encoded}?$select=id,name,webUrl,folder`,
+        token
+      );
+      continue;
+    } catch (e) {
+      if (!isGraphError(e) || e.status !== 404) throw e;
+    }
+    try {
+      folder = await createFolder(token, siteId, driveId, folder.id, name);
+    } catch (e) {
+      // Someone else created it in the meantime
+      if (!isGraphError(e) || e.status !== 409) throw e;
+      folder = await graphGET<DriveFolder>(
+        `${drivePath(siteId, driveId)}/root:/${encoded}?$select=id,name,webUrl`,
+        token
+      );
+    }
+  }
+  return { folder, path: segments.join("/") };
+}
+
+let templatesCache: Promise<FolderTemplate[]> | null = null;
+
+/** Folder templates from the SharePoint list ([] if the list doesn't exist). */
+export function loadFolderTemplates(token: TokenSource): Promise<FolderTemplate[]> {
+  if (!templatesCache) {
+    templatesCache = (async () => {
+      const siteId = await getMappingsSiteId(token);
+      const title = encodeURIComponent(getConfig().lists.folderTemplates.replace(/'/g, "''"));
+      const lists = await graphGetAll<{ id: string }>(
+        `/sites/${siteId}/lists?$filter=displayName eq '${title}'&$select=id`,
+        token
+      );
+      if (!lists.length) return [];
+      const items = await graphGetAll<{ id: string; fields: any }>(
+        `/sites/${siteId}/lists/${lists[0].id}/items?expand=fields`,
+        token
+      );
+      return items
+        .map((i) => ({
+          id: i.id,
+          Title: i.fields.Title || "",
+          Folders: String(i.fields.Folders || "")
+            .split(/\r?\n/)
+            .map((l) => l.trim())
+            .filter(Boolean),
+          Library: i.fields.Library || undefined,
+        }))
+        .filter((t) => t.Title && t.Folders.length);
+    })();
+    templatesCache.catch(() => (templatesCache = null));
+  }
+  return templatesCache;
+}
+
+/**
+ * Create `<parentPath>/<rootName>` and the template's folders beneath it.
+ * Existing folders are left as they are, so re-running fills in gaps.
+ */
+export async function instantiateFolderTemplate(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  parentPath: string,
+  rootName: string,
+  template: FolderTemplate,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> {
+  const root = (
+    await ensureFolderPath(token, siteId, driveId, [parentPath, rootName].filter(Boolean).join("/"))
+  ).path;
+  for (let i = 0; i < template.Folders.length; i++) {
+    onProgress?.(i, template.Folders.length);
+    await ensureFolderPath(token, siteId, driveId, `${root}/${template.Folders[i]}`);
+  }
+  onProgress?.(template.Folders.length, template.Folders.length);
+  return root;
+}
@@ -0,0 +1,233 @@
+// src/emailPdf.ts
+import DOMPurify from "dompurify";
+import { graphGET, graphGetAll, TokenSource } from "./graphClient";
+
+/* global AbortSignal, Blob, DOMException, DOMParser, console, document, Element */
+
+/**
+ * Client-side PDF rendering of an email: a header block (From, To, Cc,
+ * Sent, Subject, attachments) followed by the message body, with inline
+ * cid: images resolved to data URIs. jsPDF is loaded on demand so it only
+ * costs bundle size when someone actually archives as PDF.
+ *
+ * The body is untrusted HTML rendered in the add-in's own page (which holds
+ * the Graph token), so it always goes through DOMPurify first, losing its
+ * stylesheets and anything that would fetch a remote resource.
+ */
+
+export type ArchiveOutputFormat = "eml" | "pdf" | "both";
+
+export const OUTPUT_FORMAT_LABELS: Record<ArchiveOutputFormat, string> = {
+  eml: "Email (.eml)",
+  pdf: "PDF (.pdf)",
+  both: ".eml + .pdf",
+};
+
+/** Which files an output format produces, in upload order. */
+export function outputExtensions(format: ArchiveOutputFormat | undefined): Array<"eml" | "pdf"> {
+  if (format === "pdf") return ["pdf"];
+  if (format === "both") return ["eml", "pdf"];
+  return ["eml"];
+}
+
+interface Recipient {
+  emailAddress?: { name?: string; address?: string };
+}
+
+interface PdfMessage {
+  subject?: string;
+  from?: Recipient;
+  toRecipients?: Recipient[];
+  ccRecipients?: Recipient[];
+  sentDateTime?: string;
+  body?: { contentType?: "html" | "text"; content?: string };
+}
+
+interface AttachmentInfo {
+  id: string;
+  name?: string;
+  contentType?: string;
+  isInline?: boolean;
+  size?: number;
+}
+
+const PAGE_WIDTH_PT = 595; // A4
+const MARGIN_PT = 36;
+const RENDER_WIDTH_PX = 760;
+
+function escapeHtml(text: string): string {
+  return (text || "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatRecipient(r?: Recipient): string {
+  const name = r?.emailAddress?.name || "";
+  const address = r?.emailAddress?.address || "";
+  return name && address && name !== address ? `${name} <${address}>` : name || address;
+}
+
+function formatRecipients(list?: Recipient[]): string {
+  return (list || []).map(formatRecipient).filter(Boolean).join("; ");
+}
+
+/** Inline images as cid → data: URI. */
+async function loadInlineImages(
+  restId: string,
+  attachments: AttachmentInfo[],
+  token: TokenSource,
+  signal?: AbortSignal
+): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  for (const att of attachments) {
+    if (!att.isInline) continue;
+    try {
+      // contentId/contentBytes only come back on the full fileAttachment
+      const full = await graphGET<{
+        contentBytes?: string;
+        contentType?: string;
+        contentId?: string;
+      }>(`/me/messages/${restId}/attachments/${att.id}`, token, { signal });
+      if (full.contentBytes && full.contentId) {
+        const cid = full.contentId.replace(/^<|>$/g, "");
+        map.set(
+          cid.toLowerCase(),
+          `data:${full.contentType || att.contentType || "image/png"};base64,${full.contentBytes}`
+        );
+      }
+    } catch (e) {
+      console.warn(`Inline image ${att.name} could not be loaded; leaving it out of the PDF.`, e);
+    }
+  }
+  return map;
+}
+
+// Nothing that can run script, submit, change how URLs resolve or fetch from
+// elsewhere. <style> blocks go too: mounted in the add-in's page they would
+// restyle the pane itself
+const SANITIZE_OPTIONS = {
+  FORBID_TAGS: [
+    "style",
+    "form",
+    "base",
+    "input",
+    "button",
+    "textarea",
+    "select",
+    "audio",
+    "video",
+    "source",
+    "svg",
+  ],
+  FORBID_ATTR: ["action", "formaction", "background", "srcset", "poster"],
+};
+
+// Inline CSS that can load something (url(), @import) or hide it behind escapes
+const REMOTE_CSS = /url\s*\(|@import|image-set|\\/i;
+
+function dropRemoteCss(node: Element) {
+  const style = node.getAttribute?.("style");
+  if (style && REMOTE_CSS.test(style)) node.removeAttribute("style");
+}
+
+/** Sanitized body HTML with cid: references swapped for data URIs. */
+function prepareBodyHtml(body: PdfMessage["body"], inlineImages: Map<string, string>): string {
+  if (!body?.content) return "";
+  if (body.contentType !== "html") {
+    return `<pre style="white-space:pre-wrap;font-family:inherit">${escapeHtml(body.content)}</pre>`;
+  }
+
+  // Parsed into an inert document: nothing in it loads or runs here
+  const doc = new DOMParser().parseFromString(body.content, "text/html");
+  doc.querySelectorAll("img").forEach((img) => {
+    const src = img.getAttribute("src") || "";
+    if (/^cid:/i.test(src)) {
+      const data = inlineImages.get(src.slice(4).toLowerCase());
+      if (data) img.setAttribute("src", data);
+      else img.remove();
+    } else if (!/^data:/i.test(src)) {
+      // Remote images would taint the canvas (CORS); drop them rather than fail
+      img.remove();
+    }
+  });
+  DOMPurify.addHook("afterSanitizeAttributes", dropRemoteCss);
+  try {
+    return DOMPurify.sanitize(doc.body.innerHTML, SANITIZE_OPTIONS);
+  } finally {
+    DOMPurify.removeHook("afterSanitizeAttributes");
+  }
+}
+
+function buildHeaderHtml(msg: PdfMessage, attachments: AttachmentInfo[]): string {
+  const files = attachments.filter((a) => !a.isInline).map((a) => a.name || "attachment");
+  const row = (label: string, value: string) =>
+    value
+      ? `<tr><td style="font-weight:600;padding:2px 12px 2px 0;vertical-align:top;white-space:nowrap">${label}</td>` +
+        `<td style="padding:2px 0">${escapeHtml(value)}</td></tr>`
+      : "";
+  return (
+    `<table style="border-collapse:collapse;font-size:12px;margin-bottom:12px">` +
+    row("From:", formatRecipient(msg.from)) +
+    row("To:", formatRecipients(msg.toRecipients)) +
+    row("Cc:", formatRecipients(msg.ccRecipients)) +
+    row("Sent:", msg.sentDateTime ? new Date(msg.sentDateTime).toLocaleString() : "") +
+    row("Subject:", msg.subject || "") +
+    row("Attachments:", files.join("; ")) +
+    `</table><hr style="border:none;border-top:1px solid #999;margin:0 0 12px"/>`
+  );
+}
+
+/**
+ * Render a message to a PDF Blob.
+ */
+export async function renderMessagePdf(
+  restId: string,
+  token: TokenSource,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const msg = await graphGET<PdfMessage>(
+    `/me/messages/${restId}?$select=subject,from,toRecipients,ccRecipients,sentDateTime,body`,
+    token,
+    { signal, headers: { Prefer: 'outlook.body-content-type="html"' } }
+  );
+  const attachments = await graphGetAll<AttachmentInfo>(
+    `/me/messages/${restId}/attachments?$select=id,name,contentType,size,isInline`,
+    token,
+    { signal }
+  );
+  const inlineImages = await loadInlineImages(restId, attachments, token, signal);
+
+  const container = document.createElement("div");
+  container.style.cssText =
+    `position:fixed;left:-10000px;top:0;width:${RENDER_WIDTH_PX}px;background:#fff;color:#000;` +
+    `font-family:'Segoe UI',Arial,sans-serif;font-size:13px;line-height:1.4;padding:0`;
+  container.innerHTML = buildHeaderHtml(msg, attachments) + prepareBodyHtml(msg.body, inlineImages);
+  document.body.appendChild(container);
+
+  try {
+    const { jsPDF } = await import("jspdf");
+    const pdf = new jsPDF({ unit: "pt", format: "a4" });
+    pdf.setProperties({
+      title: msg.subject || "Email",
+      subject: msg.subject || "",
+      creator: "Flowpoint",
+    });
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    // Rejects if html2canvas fails (e.g. a tainted canvas or an image that won't load)
+    await pdf.html(container, {
+      x: 0,
+      y: 0,
+      margin: [MARGIN_PT, MARGIN_PT, MARGIN_PT, MARGIN_PT],
+      width: PAGE_WIDTH_PT - MARGIN_PT * 2,
+      windowWidth: RENDER_WIDTH_PX,
+      autoPaging: "text",
+      html2canvas: { useCORS: false, backgroundColor: "#ffffff" },
+    });
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    return pdf.output("blob");
+  } finally {
+    container.remove();
+  }
+}
@@ -0,0 +1,348 @@
+// src/favoritesStore.ts
+import { graphFetch, graphGET, isGraphError, TokenSource } from "./graphClient";
+
+/* global Office, console, fetch, localStorage */
+
+/**
+ * Favorites, in one versioned shape for the task pane, dialog and ribbon.
+ * The local copy (localStorage) is what the UI reads synchronously; it is
+ * synced across devices through the mailbox's roaming settings, or — when
+ * those aren't available or the list outgrows them — through a JSON file
+ * in the user's OneDrive app folder. The newest copy wins.
+ */
+
+// v2 added optional `label` and `group`; v1 lists read as-is
+export const FAVORITES_VERSION = 2;
+
+/** A saved destination folder: its id and its real path in the library. */
+export interface FavoriteFolder {
+  id: string;
+  name: string;
+  driveId: string;
+  /** Path from the library root, e.g. "Clients/Acme" */
+  path: string;
+  /** Display name chosen by the user (defaults to the folder name) */
+  label?: string;
+  /** User-defined group heading; ungrouped favorites come first */
+  group?: string;
+}
+
+export interface FavoritesDocument {
+  version: number;
+  /** When the list last changed ("" = migrated, never synced) */
+  updatedAt: string;
+  favorites: FavoriteFolder[];
+}
+
+const STORAGE_KEY = "flowpoint:favorites:v1";
+// Pre-versioning lists: task pane `{id, path}` or dialog `{folderId}` without a path
+const LEGACY_KEYS = ["flowpoint:favorites"];
+const ROAMING_KEY = "flowpointFavorites";
+// Roaming settings are capped at 32 KB for the whole add-in
+const MAX_ROAMING_CHARS = 30000;
+const APP_FOLDER_FILE = "/me/drive/special/approot:/favorites.json";
+
+/* ──────────────────────────────────────────────────────────────
+   Schema
+   ────────────────────────────────────────────────────────────── */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object";
+
+/** Any favorites list we have ever written (or an export) → current shape, deduped. */
+export function normalizeFavorites(raw: unknown): FavoriteFolder[] {
+  const list: unknown[] = Array.isArray(raw)
+    ? raw
+    : isRecord(raw) && Array.isArray(raw.favorites)
+      ? raw.favorites
+      : [];
+  const seen = new Set<string>();
+  const out: FavoriteFolder[] = [];
+  for (const f of list) {
+    if (!isRecord(f)) continue;
+    const id = String(f.folderId || f.id || "");
+    if (!id || typeof f.driveId !== "string" || !f.driveId) continue;
+    const key = `${f.driveId}:${id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const name = String(f.name || "");
+    const path = typeof f.path === "string" ? f.path.replace(/^\/+|\/+$/g, "") : name;
+    const fav: FavoriteFolder = {
+      id,
+      name: name || path.split("/").pop() || id,
+      driveId: f.driveId,
+      path,
+    };
+    if (typeof f.label === "string" && f.label.trim()) fav.label = f.label.trim();
+    if (typeof f.group === "string" && f.group.trim()) fav.group = f.group.trim();
+    out.push(fav);
+  }
+  return out;
+}
+
+function toDocument(raw: unknown): FavoritesDocument | null {
+  if (!raw || typeof raw !== "object") return null;
+  const doc = raw as Partial<FavoritesDocument>;
+  if (typeof doc.version !== "number" || doc.version > FAVORITES_VERSION) return null;
+  return {
+    version: FAVORITES_VERSION,
+    updatedAt: doc.updatedAt || "",
+    favorites: normalizeFavorites(doc.favorites),
+  };
+}
+
+/** What the list shows for a favorite. */
+export function favoriteLabel(fav: FavoriteFolder): string {
+  return fav.label || fav.name;
+}
+
+/** Group names in list order. */
+export function favoriteGroups(favorites: FavoriteFolder[]): string[] {
+  const groups: string[] = [];
+  favorites.forEach((f) => f.group && groups.indexOf(f.group) < 0 && groups.push(f.group));
+  return groups;
+}
+
+/**
+ * Move a favorite before another (taking on its group), or to the end of a
+ * group when dropped on the group's heading (`target` = null).
+ */
+export function moveFavorite(
+  favorites: FavoriteFolder[],
+  moving: FavoriteFolder,
+  target: FavoriteFolder | null,
+  group?: string
+): FavoriteFolder[] {
+  const same = (a: FavoriteFolder, b: FavoriteFolder) => a.driveId === b.driveId && a.id === b.id;
+  if (target && same(moving, target)) return favorites;
+  const rest = favorites.filter((f) => !same(f, moving));
+  const moved: FavoriteFolder = { ...moving, group: (target ? target.group : group) || undefined };
+  let at = target ? rest.findIndex((f) => same(f, target)) : -1;
+  if (at < 0) {
+    // End of the group (or of the list)
+    at = rest.length;
+    for (let i = rest.length - 1; i >= 0; i--) {
+      if ((rest[i].group || "") === (moved.group || "")) {
+        at = i + 1;
+        break;
+      }
+    }
+  }
+  return [...rest.slice(0, at), moved, ...rest.slice(at)];
+}
+
+/** `incoming` added after `current`, skipping folders already there. */
+export function mergeFavorites(
+  current: FavoriteFolder[],
+  incoming: FavoriteFolder[]
+): FavoriteFolder[] {
+  return normalizeFavorites([...current, ...incoming]);
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Local copy
+   ────────────────────────────────────────────────────────────── */
+
+function writeLocal(doc: FavoritesDocument) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(doc));
+}
+
+/** The local list, migrating the old keys the first time. */
+export function loadFavorites(): FavoritesDocument {
+  try {
+    const doc = toDocument(JSON.parse(localStorage.getItem(STORAGE_KEY) || "null"));
+    if (doc) return doc;
+  } catch {
+    // Unreadable; fall through to a migration / empty list
+  }
+
+  let migrated: FavoriteFolder[] = [];
+  for (const key of LEGACY_KEYS) {
+    try {
+      migrated = mergeFavorites(
+        migrated,
+        normalizeFavorites(JSON.parse(localStorage.getItem(key) || "[]"))
+      );
+    } catch (e) {
+      console.warn(`Ignoring unreadable favorites in ${key}:`, e);
+    }
+  }
+  const doc: FavoritesDocument = { version: FAVORITES_VERSION, updatedAt: "", favorites: migrated };
+  writeLocal(doc);
+  LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
+  return doc;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Remote copies
+   ────────────────────────────────────────────────────────────── */
+
+// Roaming settings exist in the task pane and ribbon commands, not in dialogs
+function roamingSettings(): Office.RoamingSettings | undefined {
+  try {
+    return Office.context?.roamingSettings;
+  } catch {
+    return undefined;
+  }
+}
+
+function readRoaming(): FavoritesDocument | null {
+  const raw = roamingSettings()?.get(ROAMING_KEY);
+  try {
+    return toDocument(typeof raw === "string" ? JSON.parse(raw) : raw);
+  } catch {
+    return null;
+  }
+}
+
+/** false when roaming settings are unavailable or the list doesn't fit. */
+async function writeRoaming(doc: FavoritesDocument): Promise<boolean> {
+  const settings = roamingSettings();
+  if (!settings) return false;
+  const json = JSON.stringify(doc);
+  const fits = json.length <= MAX_ROAMING_CHARS;
+  // An oversized list lives in the app folder; don't leave a stale copy behind
+  if (fits) settings.set(ROAMING_KEY, json);
+  else settings.remove(ROAMING_KEY);
+  await new Promise<void>((resolve, reject) =>
+    settings.saveAsync((result) =>
+      result.status === Office.AsyncResultStatus.Succeeded ? resolve() : reject(result.error)
+    )
+  );
+  return fits;
+}
+
+async function readAppFolder(token: TokenSource): Promise<FavoritesDocument | null> {
+  try {
+    const file = await graphGET<{ "@microsoft.graph.downloadUrl"?: string }>(
+      APP_FOLDER_FILE,
+      token
+    );
+    const url = file["@microsoft.graph.downloadUrl"];
+    if (!url) return null;
+    // Pre-authenticated link; no bearer token
+    const resp = await fetch(url);
+    return resp.ok ? toDocument(await resp.json()) : null;
+  } catch (e) {
+    if (isGraphError(e) && e.status === 404) return null;
+    throw e;
+  }
+}
+
+async function writeAppFolder(token: TokenSource, doc: FavoritesDocument): Promise<void> {
+  await graphFetch(`${APP_FOLDER_FILE}:/content`, token, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(doc),
+  });
+}
+
+// Pushes run one at a time so an older list can't land after a newer one
+let pushChain: Promise<void> = Promise.resolve();
+
+function pushRemote(doc: FavoritesDocument, token?: TokenSource): Promise<void> {
+  const run = async () => {
+    try {
+      const roamed = await writeRoaming(doc);
+      if (!roamed && token) await writeAppFolder(token, doc);
+    } catch (e) {
+      console.warn("Favorites sync (push) failed:", e);
+    }
+  };
+  pushChain = pushChain.then(run, run);
+  return pushChain;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Public API
+   ────────────────────────────────────────────────────────────── */
+
+/** Replace the list locally right away, then sync it in the background. */
+export function saveFavorites(favorites: FavoriteFolder[], token?: TokenSource): FavoritesDocument {
+  const doc: FavoritesDocument = {
+    version: FAVORITES_VERSION,
+    updatedAt: new Date().toISOString(),
+    favorites: normalizeFavorites(favorites),
+  };
+  writeLocal(doc);
+  void pushRemote(doc, token);
+  return doc;
+}
+
+/**
+ * Reconcile the local list with the roaming / app folder copy. The newest
+ * wins; a freshly migrated local list is merged instead, so upgrading on a
+ * second device doesn't drop either device's favorites.
+ */
+export async function syncFavorites(token?: TokenSource): Promise<FavoritesDocument> {
+  const local = loadFavorites();
+  let remote = readRoaming();
+  if (!remote && token) {
+    try {
+      remote = await readAppFolder(token);
+    } catch (e) {
+      console.warn("Favorites sync (app folder) failed:", e);
+    }
+  }
+
+  if (!remote) {
+    if (!local.favorites.length) return local;
+    if (!local.updatedAt) {
+      const doc = saveFavorites(local.favorites, token);
+      await pushChain;
+      return doc;
+    }
+    await pushRemote(local, token);
+    return local;
+  }
+
+  if (!local.updatedAt) {
+    const merged = mergeFavorites(remote.favorites, local.favorites);
+    if (merged.length === remote.favorites.length) {
+      writeLocal(remote);
+      return remote;
+    }
+    const doc = saveFavorites(merged, token);
+    await pushChain;
+    return doc;
+  }
+
+  if (remote.updatedAt > local.updatedAt) {
+    writeLocal(remote);
+    return remote;
+  }
+  if (local.updatedAt > remote.updatedAt) await pushRemote(local, token);
+  return local;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Export / import
+   ────────────────────────────────────────────────────────────── */
+
+export function exportFavorites(favorites: FavoriteFolder[]): string {
+  const doc: FavoritesDocument = {
+    version: FAVORITES_VERSION,
+    updatedAt: new Date().toISOString(),
+    favorites,
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+/** Favorites from an export file (or an old bare list); throws on anything else. */
+export function parseFavoritesImport(text: string): FavoriteFolder[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("That file isn't valid JSON.");
+  }
+  if (!Array.isArray(raw)) {
+    if (!isRecord(raw) || typeof raw.version !== "number" || !Array.isArray(raw.favorites))
+      throw new Error("That file isn't a Flowpoint favorites export.");
+    if (raw.version > FAVORITES_VERSION)
+      throw new Error("That export is from a newer version of Flowpoint; update the add-in first.");
+  }
+  const favorites = normalizeFavorites(raw);
+  if (!favorites.length) throw new Error("No favorites found in that file.");
+  return favorites;
+}
@@ -0,0 +1,262 @@
+// src/fileNaming.ts
+import { MessageMeta } from "./graphMail";
+
+/* global atob */
+
+/**
+ * File name templates for archived emails.
+ *
+ * A template mixes literal text with tokens, e.g.
+ *   "{received:yyyy-MM-dd} {fromName} - {subject}"
+ * Tokens that resolve to nothing are dropped along with the separator
+ * around them. The result is sanitized for SharePoint and length-limited;
+ * the extension is added by the caller.
+ */
+
+export const DEFAULT_FILENAME_TEMPLATE = "{received:yyyy-MM-dd} {fromName} - {subject}";
+
+export const FILENAME_TOKENS: Record<string, string> = {
+  received: "Received date, optional format e.g. {received:yyyy-MM-dd HHmm}",
+  fromName: "Sender display name",
+  fromDomain: "Sender email domain",
+  subject: "Email subject",
+  conversationIndex: "Position in the thread (0 = first message)",
+  projectNumber: "Project number from the folder path or subject",
+};
+
+// Room for ".eml"/".pdf" inside SharePoint's 255-char name limit
+export const MAX_FILE_BASE_LENGTH = 250;
+// SharePoint's limit on the full decoded server-relative path (site, library, folder and file name)
+export const MAX_PATH_LENGTH = 400;
+const DEFAULT_BASE_LENGTH = 120;
+
+const DEFAULT_PROJECT_NUMBER_PATTERN = "\\b\\d{4,}(?:[-.]\\d+)*\\b";
+const TOKEN_RE = /\{(\w+)(?::([^}]*))?\}/g;
+
+export interface FileNameContext {
+  message: MessageMeta;
+  /** Destination folder path, used for {projectNumber} and the path limit */
+  folderPath?: string;
+  /** Server-relative path of the library, e.g. "/sites/Projects/Shared Documents" */
+  libraryPath?: string;
+  projectNumberPattern?: string;
+}
+
+/** Names of tokens in `template` that we don't know how to fill. */
+export function unknownTemplateTokens(template: string): string[] {
+  const unknown: string[] = [];
+  (template || "").replace(TOKEN_RE, (_, name: string) => {
+    if (!FILENAME_TOKENS[name] && unknown.indexOf(name) < 0) unknown.push(name);
+    return "";
+  });
+  return unknown;
+}
+
+const pad = (n: number) => ("0" + n).slice(-2);
+
+/** Minimal date formatter: yyyy, yy, MM, dd, HH, mm, ss. */
+export function formatDate(date: Date, pattern = "yyyy-MM-dd"): string {
+  return pattern.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, (t) => {
+    switch (t) {
+      case "yyyy":
+        return String(date.getFullYear());
+      case "yy":
+        return pad(date.getFullYear() % 100);
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "dd":
+        return pad(date.getDate());
+      case "HH":
+        return pad(date.getHours());
+      case "mm":
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+}
+
+/** Reply depth encoded in a conversationIndex (22-byte header + 5 bytes per reply). */
+export function conversationDepth(conversationIndex?: string): number | undefined {
+  if (!conversationIndex) return undefined;
+  try {
+    const bytes = atob(conversationIndex).length;
+    return bytes >= 22 ? Math.floor((bytes - 22) / 5) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function findProjectNumber(ctx: FileNameContext): string {
+  let re: RegExp;
+  try {
+    re = new RegExp(ctx.projectNumberPattern || DEFAULT_PROJECT_NUMBER_PATTERN, "i");
+  } catch {
+    re = new RegExp(DEFAULT_PROJECT_NUMBER_PATTERN, "i");
+  }
+  // Folder names like "24017 - Riverside Clinic" are the most reliable source
+  const segments = (ctx.folderPath || "").split("/").filter(Boolean).reverse();
+  for (const candidate of [...segments, ctx.message.subject || ""]) {
+    const m = candidate.match(re);
+    if (m) return m[0];
+  }
+  return "";
+}
+
+function tokenValue(name: string, format: string | undefined, ctx: FileNameContext): string {
+  const msg = ctx.message;
+  const address = msg.from?.emailAddress?.address || "";
+  switch (name) {
+    case "received":
+      return msg.receivedDateTime
+        ? formatDate(new Date(msg.receivedDateTime), format || undefined)
+        : "";
+    case "fromName":
+      return msg.from?.emailAddress?.name || address.split("@")[0] || "";
+    case "fromDomain":
+      return address.indexOf("@") >= 0 ? address.split("@")[1] : "";
+    case "subject":
+      return msg.subject || "";
+    case "conversationIndex": {
+      const depth = conversationDepth(msg.conversationIndex);
+      return depth === undefined ? "" : String(depth);
+    }
+    case "projectNumber":
+      return findProjectNumber(ctx);
+    default:
+      return "";
+  }
+}
+
+/** Fill a template's tokens (no sanitizing). */
+export function renderFileNameTemplate(template: string, ctx: FileNameContext): string {
+  const filled = (template || DEFAULT_FILENAME_TEMPLATE).replace(
+    TOKEN_RE,
+    (_, name: string, format?: string) => tokenValue(name, format, ctx)
+  );
+  // Tidy separators left behind by empty tokens: "2024-05-01  - " → "2024-05-01"
+  return filled
+    .replace(/\s+/g, " ")
+    .replace(/(\s*[-_]\s*){2,}/g, " - ")
+    .replace(/^[\s\-_]+|[\s\-_]+$/g, "")
+    .replace(/\(\s*\)|\[\s*\]/g, "");
+}
+
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d|desktop\.ini|\.lock)$/i;
+// Control characters: U+0000–U+001F and DEL
+const stripControlChars = (text: string) =>
+  text
+    .split("")
+    .filter((c) => c.charCodeAt(0) > 0x1f && c.charCodeAt(0) !== 0x7f)
+    .join("");
+
+/**
+ * Make a name SharePoint-safe: no " * : < > ? / \ | # % or control characters,
+ * no "_vti_", no leading "~" or trailing dots/spaces, no reserved device
+ * names, and at most `maxLength` characters (cut at a word boundary if one
+ * is close).
+ */
+export function sanitizeSharePointName(name: string, maxLength = DEFAULT_BASE_LENGTH): string {
+  let out = stripControlChars(name || "")
+    .replace(/["*:<>?/\\|#%]/g, "_")
+    .replace(/_vti_/gi, "_")
+    .replace(/\s+/g, " ")
+    .replace(/_{2,}/g, "_")
+    .replace(/^[\s.~]+/, "")
+    .replace(/[\s.]+$/, "");
+
+  const limit = Math.max(1, Math.min(maxLength, MAX_FILE_BASE_LENGTH));
+  if (out.length > limit) {
+    const cut = out.slice(0, limit);
+    const space = cut.lastIndexOf(" ");
+    out = (space > limit * 0.7 ? cut.slice(0, space) : cut).replace(/[\s.\-_]+$/, "");
+  }
+
+  if (!out) out = "Email";
+  if (RESERVED_NAMES.test(out)) out += "_";
+  return out;
+}
+
+/** Server-relative, decoded path of a library from its URL. */
+export function libraryPathFromWebUrl(webUrl: string): string {
+  const path = (webUrl || "").replace(/^https?:\/\/[^/]+/i, "");
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Longest base name (no extension) that keeps
+ * `libraryPath/folderPath/name.ext` within SharePoint's path limit.
+ */
+export function fileBaseNameBudget(
+  folderPath = "",
+  libraryPath = "",
+  maxLength = DEFAULT_BASE_LENGTH
+): number {
+  const folder = [libraryPath, folderPath]
+    .map((p) => p.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean)
+    .join("/");
+  // Leading "/", the folder, the "/" before the name and the extension
+  const roomInPath = MAX_PATH_LENGTH - folder.length - 2 - ".eml".length;
+  return Math.max(1, Math.min(maxLength, MAX_FILE_BASE_LENGTH, roomInPath));
+}
+
+/** Base file name (no extension) for an email, within the path budget. */
+export function buildArchiveFileBaseName(
+  template: string,
+  ctx: FileNameContext,
+  maxLength = DEFAULT_BASE_LENGTH
+): string {
+  return sanitizeSharePointName(
+    renderFileNameTemplate(template, ctx),
+    fileBaseNameBudget(ctx.folderPath, ctx.libraryPath, maxLength)
+  );
+}
+
+/** Template precedence: the user's override, then the library's, then the default. */
+export function resolveFileNameTemplate(userOverride?: string, libraryTemplate?: string): string {
+  return (userOverride || "").trim() || (libraryTemplate || "").trim() || DEFAULT_FILENAME_TEMPLATE;
+}
+
+/**
+ * Names for a batch, made unique within the batch ("Name", "Name (2)", …)
+ * so a bulk archive doesn't rely on SharePoint renames. A name is shortened
+ * to make room for its suffix, so none is longer than `maxLength`.
+ */
+export function uniqueFileBaseNames(names: string[], maxLength = MAX_FILE_BASE_LENGTH): string[] {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const key = name.toLowerCase();
+    const n = (seen.get(key) || 0) + 1;
+    seen.set(key, n);
+    if (n === 1) return name;
+    const suffix = ` (${n})`;
+    const base = name.slice(0, Math.max(1, maxLength - suffix.length)).replace(/[\s.]+$/, "");
+    return `${base}${suffix}`;
+  });
+}
+
+/** Strip an archive extension from a stored file name. */
+export function stripArchiveExtension(fileName: string): string {
+  return (fileName || "").replace(/\.(eml|pdf)$/i, "");
+}
+
+/** "RE: FW: Re: RFI 12" → "RFI 12" */
+export function stripSubjectPrefixes(subject: string): string {
+  return (subject || "").replace(/^\s*((re|fw|fwd|aw|wg|sv|vs)\s*(\[\d+\])?\s*:\s*)+/i, "").trim();
+}
+
+/**
+ * Subfolder for an archived conversation: thread start date and subject,
+ * e.g. "2024-05-01 RFI 12 - Door schedule".
+ */
+export function conversationFolderName(messages: MessageMeta[]): string {
+  const first = messages[0] || {};
+  const started = first.receivedDateTime ? formatDate(new Date(first.receivedDateTime)) : "";
+  const subject = stripSubjectPrefixes(first.subject || "") || "Conversation";
+  return sanitizeSharePointName([started, subject].filter(Boolean).join(" "), 80);
+}
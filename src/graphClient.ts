@@ -0,0 +1,411 @@
+// src/graphClient.ts
+/* global AbortSignal, Blob, DOMException, ReadableStream, Response, clearTimeout, fetch, setTimeout */
+
+/**
+ * ──────────────────────────────────────────────────────────────
+ * Shared Microsoft Graph client
+ * ──────────────────────────────────────────────────────────────
+ * Every Graph call in the add-in (task pane, dialog, helpers) goes
+ * through here so paging, throttling and error shapes behave the same.
+ *
+ * - 429 / 5xx are retried, honoring Graph's Retry-After header. A POST is
+ *   only retried when Graph asks for it (429/503 with Retry-After), so a
+ *   resource is never created twice.
+ * - A 401 is retried once with a freshly acquired token (token functions only).
+ * - Non-2xx responses surface as GraphError (status, code, requestId).
+ * - Small requests can be combined into JSON $batch calls.
+ */
+
+export const GRAPH_BASE = "https://graph.microsoft.com/v1.0";
+
+/**
+ * A bearer token, or a function that returns one (called per attempt;
+ * `forceRefresh` asks for a new token after a 401).
+ */
+export type TokenSource = string | ((opts?: { forceRefresh?: boolean }) => Promise<string>);
+
+/* ──────────────────────────────────────────────────────────────
+   Errors
+   ────────────────────────────────────────────────────────────── */
+export class GraphError extends Error {
+  status: number;
+  code: string;
+  requestId: string;
+  retryAfterMs?: number;
+  body?: string;
+
+  constructor(message: string, status: number, code = "", requestId = "", body?: string) {
+    super(message);
+    Object.setPrototypeOf(this, GraphError.prototype);
+    this.name = "GraphError";
+    this.status = status;
+    this.code = code;
+    this.requestId = requestId;
+    this.body = body;
+  }
+}
+
+export function isGraphError(e: unknown): e is GraphError {
+  return e instanceof GraphError;
+}
+
+function isAbortError(e: any): boolean {
+  return e?.name === "AbortError";
+}
+
+/** Parse Retry-After (delta-seconds or HTTP date) into milliseconds. */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Build a GraphError from a failed fetch Response. */
+export async function toGraphError(resp: Response, context: string): Promise<GraphError> {
+  const body = await resp.text().catch(() => "");
+  let code = "";
+  let message = "";
+  let requestId = resp.headers.get("request-id") || resp.headers.get("client-request-id") || "";
+  try {
+    const json = JSON.parse(body);
+    code = json?.error?.code || "";
+    message = json?.error?.message || "";
+    requestId = requestId || json?.error?.innerError?.["request-id"] || "";
+  } catch {
+    // non-JSON body (e.g. upload session endpoints) — keep raw text
+  }
+  const err = new GraphError(
+    `${context} failed: ${resp.status}${code ? ` ${code}` : ""}${message ? ` — ${message}` : ""}`,
+    resp.status,
+    code,
+    requestId,
+    body
+  );
+  err.retryAfterMs = parseRetryAfter(resp.headers.get("Retry-After"));
+  return err;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Retry
+   ────────────────────────────────────────────────────────────── */
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+function isRetriable(e: any): boolean {
+  if (isAbortError(e)) return false;
+  const status = e?.status ?? e?.response?.status;
+  if (status === 429 || (status >= 500 && status <= 599)) return true;
+  // fetch() rejects with TypeError on network drops
+  return e instanceof TypeError;
+}
+
+/** POST isn't idempotent: retry only what Graph explicitly turned away. */
+function isRetriablePost(e: any): boolean {
+  return (e?.status === 429 || e?.status === 503) && e?.retryAfterMs !== undefined;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry 429/5xx/network failures. Uses the server's Retry-After when given,
+ * otherwise exponential backoff with a little jitter.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  opts: RetryOptions = {},
+  shouldRetry: (e: any) => boolean = isRetriable
+): Promise<T> {
+  const { maxAttempts = 5, baseDelayMs = 500, maxDelayMs = 60000, signal } = opts;
+  let attempt = 0;
+  let backoff = baseDelayMs;
+  while (true) {
+    try {
+      return await fn();
+    } catch (e: any) {
+      attempt++;
+      if (isAbortError(e) || !shouldRetry(e) || attempt >= maxAttempts) throw e;
+      const wait = Math.min(e?.retryAfterMs ?? backoff + Math.random() * 250, maxDelayMs);
+      await delay(wait, signal);
+      backoff *= 2;
+    }
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Requests
+   ────────────────────────────────────────────────────────────── */
+export interface GraphRequestOptions extends RetryOptions {
+  method?: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+async function resolveToken(token: TokenSource, forceRefresh = false): Promise<string> {
+  return typeof token === "function" ? token(forceRefresh ? { forceRefresh } : undefined) : token;
+}
+
+function absoluteUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `${GRAPH_BASE}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+/**
+ * Low-level request with auth, retry and GraphError. Returns the raw Response
+ * so callers can read JSON, blobs or streams. Relative URLs hit /v1.0.
+ */
+export async function graphFetch(
+  url: string,
+  token: TokenSource,
+  opts: GraphRequestOptions = {}
+): Promise<Response> {
+  const { method = "GET", body, headers = {}, signal } = opts;
+  const target = absoluteUrl(url);
+  const isJsonBody =
+    body !== undefined &&
+    !(body instanceof Blob) &&
+    !(body instanceof ArrayBuffer) &&
+    !ArrayBuffer.isView(body) &&
+    !(body instanceof ReadableStream) &&
+    typeof body !== "string";
+
+  const send = async (forceRefresh: boolean) =>
+    fetch(target, {
+      method,
+      signal,
+      headers: {
+        Authorization: `Bearer ${await resolveToken(token, forceRefresh)}`,
+        ...(isJsonBody ? { "Content-Type": "application/json" } : {}),
+        ...headers,
+      },
+      body: isJsonBody ? JSON.stringify(body) : body,
+    });
+
+  return withRetry(
+    async () => {
+      let resp = await send(false);
+      // Expired or revoked token: one more try with a new one
+      if (resp.status === 401 && typeof token === "function") resp = await send(true);
+      if (!resp.ok) throw await toGraphError(resp, `${method} ${target}`);
+      return resp;
+    },
+    opts,
+    method.toUpperCase() === "POST" ? isRetriablePost : isRetriable
+  );
+}
+
+async function readJson<T>(resp: Response): Promise<T> {
+  if (resp.status === 204) return undefined as unknown as T;
+  const text = await resp.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export async function graphGET<T>(
+  url: string,
+  token: TokenSource,
+  opts: GraphRequestOptions = {}
+): Promise<T> {
+  return readJson<T>(await graphFetch(url, token, { ...opts, method: "GET" }));
+}
+
+export async function graphPOST<T>(
+  url: string,
+  token: TokenSource,
+  body?: any,
+  opts: GraphRequestOptions = {}
+): Promise<T> {
+  return readJson<T>(await graphFetch(url, token, { ...opts, method: "POST", body }));
+}
+
+export async function graphPATCH<T>(
+  url: string,
+  token: TokenSource,
+  body: any,
+  opts: GraphRequestOptions = {}
+): Promise<T> {
+  return readJson<T>(await graphFetch(url, token, { ...opts, method: "PATCH", body }));
+}
+
+export async function graphDELETE(
+  url: string,
+  token: TokenSource,
+  opts: GraphRequestOptions = {}
+): Promise<void> {
+  await graphFetch(url, token, { ...opts, method: "DELETE" });
+}
+
+/** Follow @odata.nextLink until exhausted (or `maxItems` reached). */
+export async function graphGetAll<T>(
+  url: string,
+  token: TokenSource,
+  opts: GraphRequestOptions & { maxItems?: number } = {}
+): Promise<T[]> {
+  const all: T[] = [];
+  let next: string | undefined = url;
+  while (next) {
+    const page: { value?: T[]; "@odata.nextLink"?: string } = await graphGET(next, token, opts);
+    all.push(...(page.value || []));
+    if (opts.maxItems && all.length >= opts.maxItems) return all.slice(0, opts.maxItems);
+    next = page["@odata.nextLink"];
+  }
+  return all;
+}
+
+/* ──────────────────────────────────────────────────────────────
+   JSON $batch
+   ────────────────────────────────────────────────────────────── */
+const MAX_BATCH_SIZE = 20; // Graph limit per $batch call
+
+export interface BatchRequest {
+  id?: string;
+  method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  url: string; // relative ("/me/messages/…") or absolute v1.0 URL
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface BatchResponse<T = any> {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: T;
+}
+
+function relativeUrl(url: string): string {
+  return url.startsWith(GRAPH_BASE) ? url.slice(GRAPH_BASE.length) : url;
+}
+
+/** Turn a failed batch sub-response into a GraphError (or return its body). */
+export function batchBodyOrThrow<T>(resp: BatchResponse<T>, context: string): T {
+  if (resp.status >= 200 && resp.status < 300) return resp.body as T;
+  const err: any = resp.body || {};
+  const e = new GraphError(
+    `${context} failed: ${resp.status}${err?.error?.code ? ` ${err.error.code}` : ""}`,
+    resp.status,
+    err?.error?.code || "",
+    err?.error?.innerError?.["request-id"] || resp.headers?.["request-id"] || ""
+  );
+  e.retryAfterMs = parseRetryAfter(resp.headers?.["Retry-After"]);
+  throw e;
+}
+
+/**
+ * Send any number of requests through /$batch (20 per call). Throttled
+ * sub-requests (429/503) are re-sent after the largest Retry-After seen.
+ * Results come back in the same order as `requests`.
+ */
+export async function graphBatch<T = any>(
+  requests: BatchRequest[],
+  token: TokenSource,
+  opts: RetryOptions = {}
+): Promise<BatchResponse<T>[]> {
+  const { maxAttempts = 5, baseDelayMs = 500, signal } = opts;
+  const prepared = requests.map((r, i) => ({
+    id: r.id ?? String(i),
+    method: r.method,
+    url: relativeUrl(r.url),
+    body: r.body, // undefined bodies are dropped by JSON.stringify
+    headers:
+      r.body !== undefined ? { "Content-Type": "application/json", ...r.headers } : r.headers,
+  }));
+  const results = new Map<string, BatchResponse<T>>();
+
+  for (let start = 0; start < prepared.length; start += MAX_BATCH_SIZE) {
+    let pending = prepared.slice(start, start + MAX_BATCH_SIZE);
+    let attempt = 0;
+    let backoff = baseDelayMs;
+
+    while (pending.length) {
+      const data = await graphPOST<{ responses: BatchResponse<T>[] }>(
+        "/$batch",
+        token,
+        { requests: pending },
+        opts
+      );
+      const throttled: typeof pending = [];
+      let wait = 0;
+      for (const r of data.responses || []) {
+        if ((r.status === 429 || r.status === 503) && attempt + 1 < maxAttempts) {
+          throttled.push(pending.find((p) => p.id === r.id)!);
+          wait = Math.max(wait, parseRetryAfter(r.headers?.["Retry-After"]) ?? backoff);
+        } else {
+          results.set(r.id, r);
+        }
+      }
+      pending = throttled;
+      if (pending.length) {
+        attempt++;
+        await delay(wait, signal);
+        backoff *= 2;
+      }
+    }
+  }
+
+  return prepared.map((p) => results.get(p.id) ?? { id: p.id, status: 0 });
+}
+
+/**
+ * Auto-combining batcher: individual requests issued within a short window
+ * (e.g. from concurrent archive workers) are sent together as one $batch.
+ */
+export function createBatcher(token: TokenSource, windowMs = 30) {
+  let queue: Array<{ req: BatchRequest; resolve: (v: any) => void; reject: (e: any) => void }> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function flush() {
+    timer = null;
+    const current = queue;
+    queue = [];
+    if (!current.length) return;
+    try {
+      const responses = await graphBatch(
+        current.map((q, i) => ({ ...q.req, id: String(i) })),
+        token
+      );
+      responses.forEach((r, i) => {
+        const { req, resolve, reject } = current[i];
+        try {
+          resolve(batchBodyOrThrow(r, `${req.method} ${req.url}`));
+        } catch (e) {
+          reject(e);
+        }
+      });
+    } catch (e) {
+      current.forEach((q) => q.reject(e));
+    }
+  }
+
+  return {
+    request<T>(req: BatchRequest): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push({ req, resolve, reject });
+        if (queue.length >= MAX_BATCH_SIZE) {
+          if (timer) clearTimeout(timer);
+          void flush();
+        } else if (!timer) {
+          timer = setTimeout(() => void flush(), windowMs);
+        }
+      });
+    },
+    flush,
+  };
+}
+
+export type GraphBatcher = ReturnType<typeof createBatcher>;
@@ -0,0 +1,240 @@
+// src/graphMail.ts
+import {
+  graphBatch,
+  graphFetch,
+  graphGET,
+  graphGetAll,
+  batchBodyOrThrow,
+  TokenSource,
+} from "./graphClient";
+import { UploadContent } from "./uploadSession";
+import { formatBytes } from "./format";
+
+/* global AbortSignal, Blob, BlobPart, ReadableStream, Response, console */
+
+/**
+ * Message fields used for archive metadata and de-duplication.
+ */
+export interface MessageMeta {
+  id?: string;
+  subject?: string;
+  from?: { emailAddress?: { address?: string; name?: string } };
+  hasAttachments?: boolean;
+  receivedDateTime?: string;
+  webLink?: string;
+  internetMessageId?: string;
+  conversationId?: string;
+  /** Base64 Exchange thread index; grows by 5 bytes per reply */
+  conversationIndex?: string;
+  toRecipients?: Array<{ emailAddress?: { address?: string; name?: string } }>;
+  ccRecipients?: Array<{ emailAddress?: { address?: string; name?: string } }>;
+  sentDateTime?: string;
+  importance?: "low" | "normal" | "high";
+  categories?: string[];
+  /** First 255 characters of the body as plain text */
+  bodyPreview?: string;
+  /** Only PidTagMessageSize is requested (see messageSize) */
+  singleValueExtendedProperties?: Array<{ id: string; value: string }>;
+}
+
+export const MESSAGE_META_SELECT =
+  "id,subject,from,hasAttachments,receivedDateTime,webLink,internetMessageId,conversationId,conversationIndex,toRecipients,ccRecipients," +
+  "sentDateTime,importance,categories,bodyPreview";
+
+// PidTagMessageSize: the message's size in the mailbox, attachments included
+const MESSAGE_SIZE_PROPERTY = "Integer 0x0E08";
+const MESSAGE_META_EXPAND = `singleValueExtendedProperties($filter=${encodeURIComponent(
+  `id eq '${MESSAGE_SIZE_PROPERTY}'`
+)})`;
+const MESSAGE_META_QUERY = `$select=${MESSAGE_META_SELECT}&$expand=${MESSAGE_META_EXPAND}`;
+
+/** Mailbox size of the message in bytes, when Graph returned it. */
+export function messageSize(meta: MessageMeta): number | undefined {
+  const prop = (meta.singleValueExtendedProperties || [])[0];
+  const size = prop ? Number(prop.value) : NaN;
+  return isNaN(size) ? undefined : size;
+}
+
+export async function getMessageMeta(
+  restId: string,
+  token: TokenSource,
+  signal?: AbortSignal
+): Promise<MessageMeta> {
+  return graphGET<MessageMeta>(`/me/messages/${restId}?${MESSAGE_META_QUERY}`, token, { signal });
+}
+
+/**
+ * Fetch metadata for many messages in as few $batch calls as possible.
+ * Messages that fail individually are left out of the map (the caller's
+ * per-item fetch will surface the real error).
+ */
+export async function getMessagesMeta(
+  restIds: string[],
+  token: TokenSource
+): Promise<Map<string, MessageMeta>> {
+  const out = new Map<string, MessageMeta>();
+  if (!restIds.length) return out;
+
+  const responses = await graphBatch<MessageMeta>(
+    restIds.map((id) => ({
+      method: "GET" as const,
+      url: `/me/messages/${id}?${MESSAGE_META_QUERY}`,
+    })),
+    token
+  );
+  responses.forEach((r, i) => {
+    try {
+      out.set(restIds[i], batchBodyOrThrow(r, `GET message ${restIds[i]}`));
+    } catch (e) {
+      console.warn("Batched message metadata failed; will refetch individually.", e);
+    }
+  });
+  return out;
+}
+
+/** Threads longer than this lose their oldest messages */
+export const MAX_CONVERSATION_MESSAGES = 500;
+
+/**
+ * Every message in a conversation, from any mail folder (Inbox, Sent Items,
+ * project folders…), oldest first. Drafts are left out, and copies of the
+ * same email (same InternetMessageId) are only returned once.
+ */
+export async function getConversationMessages(
+  conversationId: string,
+  token: TokenSource,
+  signal?: AbortSignal
+): Promise<MessageMeta[]> {
+  // Newest first, so the cap drops the oldest. Graph wants the $orderby property in the $filter, first
+  const filter = encodeURIComponent(
+    `receivedDateTime ge 1900-01-01T00:00:00Z and conversationId eq '${conversationId.replace(/'/g, "''")}'`
+  );
+  const all = await graphGetAll<MessageMeta & { isDraft?: boolean }>(
+    `/me/messages?$filter=${filter}&$orderby=receivedDateTime desc&$select=${MESSAGE_META_SELECT},isDraft` +
+      `&$expand=${MESSAGE_META_EXPAND}&$top=100`,
+    token,
+    { signal, maxItems: MAX_CONVERSATION_MESSAGES }
+  );
+
+  const seen = new Set<string>();
+  return all
+    .filter((m) => {
+      if (m.isDraft) return false;
+      const key = m.internetMessageId || m.id || "";
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => (a.receivedDateTime || "").localeCompare(b.receivedDateTime || ""));
+}
+
+/** Names of the message's attached files (inline images left out). */
+export async function getAttachmentNames(
+  restId: string,
+  token: TokenSource,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const attachments = await graphGetAll<{ name?: string; isInline?: boolean }>(
+    `/me/messages/${restId}/attachments?$select=name,isInline`,
+    token,
+    { signal }
+  );
+  return attachments.filter((a) => !a.isInline && a.name).map((a) => a.name!);
+}
+
+/** Messages larger than this are streamed to SharePoint instead of read into memory */
+export const STREAM_MIME_THRESHOLD = 20 * 1024 * 1024;
+
+/** Exchange Online's largest message; Graph won't export anything bigger */
+export const MAX_MESSAGE_BYTES = 150 * 1024 * 1024;
+
+type MimeProgress = (bytesRead: number, bytesTotal?: number) => void;
+
+/**
+ * A message's raw MIME (.eml) as upload content. Messages Content-Length
+ * says are small are read into a Blob. Larger ones come back as
+ * StreamedContent: the download is piped into the upload chunk by chunk and
+ * fetched again if the upload has to start over, so memory use stays
+ * bounded. A message sent without Content-Length is read into a Blob as
+ * well, since an upload session needs the total size up front. Throws when
+ * the message is over MAX_MESSAGE_BYTES.
+ */
+export async function getMessageMime(
+  restId: string,
+  token: TokenSource,
+  opts: { signal?: AbortSignal; onProgress?: MimeProgress } = {}
+): Promise<UploadContent> {
+  const url = `/me/messages/${restId}/$value`;
+  let pending: Response | null = await graphFetch(url, token, { signal: opts.signal });
+  const size = Number(pending.headers.get("Content-Length")) || undefined;
+  if (size !== undefined && size > MAX_MESSAGE_BYTES) {
+    await pending.body?.cancel().catch(() => undefined);
+    throw messageTooLarge(size);
+  }
+  if (!pending.body || size === undefined || size <= STREAM_MIME_THRESHOLD) {
+    return readMime(pending, size, opts.onProgress);
+  }
+
+  return {
+    size,
+    async open(signal) {
+      // The first read uses the response we already have
+      const resp = pending || (await graphFetch(url, token, { signal: signal || opts.signal }));
+      pending = null;
+      if (!resp.body) throw new Error("The message download can't be streamed.");
+      return countBytes(resp.body, size, opts.onProgress);
+    },
+  };
+}
+
+function messageTooLarge(size: number): Error {
+  return new Error(
+    `This message is ${formatBytes(size)}, over the ${formatBytes(MAX_MESSAGE_BYTES)} limit for archiving a message.`
+  );
+}
+
+async function readMime(
+  resp: Response,
+  length: number | undefined,
+  onProgress?: MimeProgress
+): Promise<Blob> {
+  // Without a length, count as we go so an oversized message is refused
+  if (!resp.body || (!onProgress && length !== undefined)) return resp.blob();
+  const reader = resp.body.getReader();
+  const parts: BlobPart[] = [];
+  let read = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    read += value.byteLength;
+    if (read > MAX_MESSAGE_BYTES) {
+      await reader.cancel().catch(() => undefined);
+      throw messageTooLarge(read);
+    }
+    onProgress?.(read, length);
+  }
+  return new Blob(parts, { type: "message/rfc822" });
+}
+
+function countBytes(
+  body: ReadableStream<Uint8Array>,
+  total: number,
+  onProgress?: MimeProgress
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let read = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      read += value.byteLength;
+      onProgress?.(read, total);
+      controller.enqueue(value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
@@ -1,35 +1,13 @@
 // src/graphSharePoint.ts
-import { PublicClientApplication, AccountInfo, AuthenticationResult } from "@azure/msal-browser";
+import { graphToken } from "./authService";
+import { getConfig } from "./config";
+import { graphGET, graphGetAll, graphPATCH, GraphBatcher, TokenSource } from "./graphClient";
 
-/**
- * ──────────────────────────────────────────────────────────────
- * MSAL setup
- * ──────────────────────────────────────────────────────────────
- * Keep your IDs/URIs as-is. Redirect must match what Outlook loads.
- */
-const msalConfig = {
-  auth: {
-    clientId: "cc4403ef-7360-4427-87f5-af7f6f236e2c",          // ✅ App (client) ID
-    authority: "https://login.microsoftonline.com/adf44a4d-b671-4672-ba02-21fdc77f982a", // ✅ Tenant
-    redirectUri: "https://localhost:3000/taskpane.html",
-  },
-};
-
-const loginRequest = {
-  scopes: ["User.Read", "Files.ReadWrite.All", "Sites.ReadWrite.All"],
-};
-
-const pca = new PublicClientApplication(msalConfig);
-
-let initPromise: Promise<void> | null = null;
-let account: AccountInfo | null = null;
+/* global AbortSignal, URL */
 
-// We’ll keep token+expiry and refresh as needed
-let cachedAuth: { token: string; expiresOn: number } | null = null;
-
-// Site selection (defaults to Technology site as before)
-let siteHostname = "dialecticeng.sharepoint.com";
-let sitePath = "/sites/Technology";
+// Site selection (defaults to the configured mappings site)
+let siteHostname = "";
+let sitePath = "";
 let siteIdCache: string | null = null;
 
 /**
@@ -43,55 +21,8 @@ export function setActiveSite(hostname: string, path: string) {
   siteIdCache = null; // force re-resolve
 }
 
-/* ──────────────────────────────────────────────────────────────
-   Auth helpers
-   ────────────────────────────────────────────────────────────── */
-async function ensureMsalReady() {
-  if (!initPromise) initPromise = pca.initialize();
-  await initPromise;
-}
-
-async function ensureAccount(): Promise<AccountInfo> {
-  await ensureMsalReady();
-
-  if (account) return account;
-
-  const accounts = pca.getAllAccounts();
-  if (accounts.length) {
-    account = accounts[0];
-    return account;
-  }
-
-  const login = await pca.loginPopup(loginRequest);
-  account = login.account!;
-  return account!;
-}
-
-function isExpiredSoon(expiresOn: number, skewSeconds = 60): boolean {
-  return Date.now() >= (expiresOn - skewSeconds * 1000);
-}
-
-export async function getAccessToken(forceRefresh = false): Promise<string> {
-  const acct = await ensureAccount();
-
-  if (!forceRefresh && cachedAuth && !isExpiredSoon(cachedAuth.expiresOn)) {
-    return cachedAuth.token;
-  }
-
-  let result: AuthenticationResult;
-  try {
-    result = await pca.acquireTokenSilent({ ...loginRequest, account: acct });
-  } catch {
-    result = await pca.acquireTokenPopup(loginRequest);
-  }
-
-  cachedAuth = {
-    token: result.accessToken,
-    expiresOn: (result.expiresOn?.getTime?.() ?? Date.now() + 55 * 60 * 1000), // fallback ~55m
-  };
-
-  return cachedAuth.token;
-}
+/** Token source handed to the Graph client (the shared auth service). */
+const tokenSource: TokenSource = graphToken;
 
 /* ──────────────────────────────────────────────────────────────
    Graph Site & Drive helpers
@@ -99,33 +30,21 @@ export async function getAccessToken(forceRefresh = false): Promise<string> {
 export async function getSiteId(): Promise<string> {
   if (siteIdCache) return siteIdCache;
 
-  const token = await getAccessToken();
-  const resp = await fetch(
-    `https://graph.microsoft.com/v1.0/sites/${siteHostname}:${sitePath}`,
-    { headers: { Authorization: `Bearer ${token}` } }
-  );
-
-  if (!resp.ok) {
-    throw new Error(`Failed to resolve site id: ${resp.status} ${await resp.text()}`);
+  if (!siteHostname) {
+    const site = new URL(getConfig().mappings.siteUrl);
+    setActiveSite(site.host, site.pathname.replace(/\/+$/, ""));
   }
-
-  const json = await resp.json();
+  const json = await graphGET<{ id: string }>(`/sites/${siteHostname}:${sitePath}`, tokenSource);
   siteIdCache = json.id;
   return siteIdCache!;
 }
 
 export async function getDrives(): Promise<Array<{ id: string; name: string }>> {
-  const token = await getAccessToken();
   const siteId = await getSiteId();
-
-  const resp = await fetch(
-    `https://graph.microsoft.com/v1.0/sites/${siteId}/drives?$select=id,name`,
-    { headers: { Authorization: `Bearer ${token}` } }
+  return graphGetAll<{ id: string; name: string }>(
+    `/sites/${siteId}/drives?$select=id,name`,
+    tokenSource
   );
-
-  if (!resp.ok) throw new Error(`Failed to get drives: ${resp.status} ${await resp.text()}`);
-  const json = await resp.json();
-  return json.value || [];
 }
 
 /* ──────────────────────────────────────────────────────────────
@@ -144,10 +63,9 @@ export interface DriveItem {
  */
 async function getDriveChildren(
   driveId: string,
-  folderId: string,                               // "root" OR actual itemId
+  folderId: string, // "root" OR actual itemId
   select = "id,name,webUrl,folder,file"
 ): Promise<DriveItem[]> {
-  const token = await getAccessToken();
   const siteId = await getSiteId();
 
   const path =
@@ -155,16 +73,10 @@ async function getDriveChildren(
       ? `drives/${driveId}/root/children`
       : `drives/${driveId}/items/${folderId}/children`;
 
-  const resp = await fetch(
-    `https://graph.microsoft.com/v1.0/sites/${siteId}/${path}?$select=${encodeURIComponent(select)}`,
-    { headers: { Authorization: `Bearer ${token}` } }
+  return graphGetAll<DriveItem>(
+    `/sites/${siteId}/${path}?$select=${encodeURIComponent(select)}`,
+    tokenSource
   );
-
-  if (!resp.ok) {
-    throw new Error(`Failed to get children for ${folderId}: ${resp.status} ${await resp.text()}`);
-  }
-  const json = await resp.json();
-  return json.value || [];
 }
 
 export async function getDriveRootItems(driveId: string): Promise<DriveItem[]> {
@@ -185,79 +97,124 @@ export async function listFolders(
   driveId: string
 ): Promise<Array<{ id: string; name: string }>> {
   // Use provided token if it exists and looks non-empty; otherwise get one.
-  const token = (maybeToken && maybeToken.length > 10) ? maybeToken : await getAccessToken();
+  const token = maybeToken && maybeToken.length > 10 ? maybeToken : tokenSource;
   const siteId = await getSiteId();
 
   // Only folders under drive root
-  const resp = await fetch(
-    `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/root/children?$select=id,name,folder`,
-    { headers: { Authorization: `Bearer ${token}` } }
+  const items = await graphGetAll<{ id: string; name: string; folder?: unknown }>(
+    `/sites/${siteId}/drives/${driveId}/root/children?$select=id,name,folder`,
+    token
   );
-
-  if (!resp.ok) throw new Error(`Failed to list folders: ${resp.status} ${await resp.text()}`);
-
-  const json = await resp.json();
-  return (json.value || [])
-    .filter((item: any) => !!item.folder)
-    .map((i: any) => ({ id: i.id, name: i.name }));
+  return items.filter((item) => !!item.folder).map((i) => ({ id: i.id, name: i.name }));
 }
 
 /* ──────────────────────────────────────────────────────────────
-   Uploads
+   List columns & metadata (token-explicit; shared by pane + dialog)
    ────────────────────────────────────────────────────────────── */
-export async function uploadBlobToFolderId(
-  driveId: string,
-  folderId: string, // can be "root" too; Graph supports /root:/path OR /items/{id}
-  fileName: string,
-  blob: Blob
-): Promise<void> {
-  const token = await getAccessToken();
-  const siteId = await getSiteId();
-
-  // If folderId is "root", we must use /root:/name:/createUploadSession
-  const base = `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}`;
-  const createUrl =
-    folderId === "root"
-      ? `${base}/root:/${encodeURIComponent(fileName)}:/createUploadSession`
-      : `${base}/items/${folderId}:/${encodeURIComponent(fileName)}:/createUploadSession`;
+/** A library column, with the type facets metadata mapping converts for. */
+export interface ListColumn {
+  name: string;
+  readOnly?: boolean;
+  text?: { allowMultipleLines?: boolean; maxLength?: number };
+  personOrGroup?: { allowMultipleSelection?: boolean };
+  /** displayAs "checkBoxes" is a multi-select choice column */
+  choice?: { allowTextEntry?: boolean; choices?: string[]; displayAs?: string };
+  dateTime?: { format?: string };
+  boolean?: {};
+  number?: {};
+}
 
-  const sessionResp = await fetch(createUrl, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-    body: JSON.stringify({ "@microsoft.graph.conflictBehavior": "rename" }),
-  });
+const COLUMN_SELECT = "name,readOnly,text,personOrGroup,choice,dateTime,boolean,number";
+const columnsCache = new Map<string, Promise<ListColumn[]>>();
 
-  if (!sessionResp.ok) {
-    throw new Error(`Create upload session failed: ${sessionResp.status} ${await sessionResp.text()}`);
+/**
+ * The library's list columns, cached per drive.
+ * Pass a batcher to fold the lookup into a concurrent $batch.
+ */
+export function getDriveListColumns(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  batcher?: GraphBatcher
+): Promise<ListColumn[]> {
+  const key = `${siteId}|${driveId}`;
+  let cached = columnsCache.get(key);
+  if (!cached) {
+    const url = `/sites/${siteId}/drives/${driveId}/list/columns?$select=${COLUMN_SELECT}`;
+    const req = batcher
+      ? batcher.request<{ value: ListColumn[] }>({ method: "GET", url })
+      : graphGET<{ value: ListColumn[] }>(url, token);
+    cached = req.then((cols) => cols.value || []);
+    cached.catch(() => columnsCache.delete(key));
+    columnsCache.set(key, cached);
   }
+  return cached;
+}
 
-  const session = await sessionResp.json();
-  const uploadUrl: string = session.uploadUrl;
-
-  const chunkSize = 5 * 1024 * 1024;
-  const arrayBuffer = await blob.arrayBuffer();
-  const total = arrayBuffer.byteLength;
-  let offset = 0;
+/** Internal names of the library's list columns (see getDriveListColumns). */
+export async function getDriveListFieldNames(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  batcher?: GraphBatcher
+): Promise<Set<string>> {
+  const names = new Set<string>();
+  (await getDriveListColumns(token, siteId, driveId, batcher)).forEach((c) => names.add(c.name));
+  return names;
+}
 
-  while (offset < total) {
-    const end = Math.min(offset + chunkSize, total);
-    const slice = arrayBuffer.slice(offset, end);
+const siteUserCache = new Map<string, Promise<string | undefined>>();
 
-    const putResp = await fetch(uploadUrl, {
-      method: "PUT",
-      headers: {
-        "Content-Length": String(end - offset),
-        "Content-Range": `bytes ${offset}-${end - 1}/${total}`,
-      },
-      body: slice,
-    });
+/**
+ * Lookup id of a person in the site's hidden User Information List, which
+ * person columns point at. People who never visited the site aren't in it
+ * (undefined): Graph has no equivalent of SharePoint's ensureUser.
+ */
+export function getSiteUserLookupId(
+  token: TokenSource,
+  siteId: string,
+  email: string,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const key = `${siteId}|${email.toLowerCase()}`;
+  let cached = siteUserCache.get(key);
+  if (!cached) {
+    const filter = encodeURIComponent(`fields/EMail eq '${email.replace(/'/g, "''")}'`);
+    cached = graphGET<{ value?: Array<{ id: string }> }>(
+      `/sites/${siteId}/lists/User%20Information%20List/items?$select=id&$filter=${filter}&$top=1`,
+      token,
+      { signal, headers: { Prefer: "HonorNonIndexedQueriesWarningMayFailRandomly" } }
+    ).then((r) => (r.value || [])[0]?.id);
+    cached.catch(() => siteUserCache.delete(key));
+    siteUserCache.set(key, cached);
+  }
+  return cached;
+}
 
-    if (![200, 201, 202].includes(putResp.status)) {
-      throw new Error(`Upload chunk failed: ${putResp.status} ${await putResp.text()}`);
-    }
+/** PATCH listItem/fields on a drive item, optionally through a batcher. */
+export async function patchListItemFields(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  itemId: string,
+  fields: Record<string, any>,
+  batcher?: GraphBatcher
+): Promise<void> {
+  if (!Object.keys(fields).length) return;
+  const url = `/sites/${siteId}/drives/${driveId}/items/${itemId}/listItem/fields`;
+  if (batcher) await batcher.request({ method: "PATCH", url, body: fields });
+  else await graphPATCH(url, token, fields);
+}
 
-    offset = end;
-  }
+/** Resolve the SharePoint site that hosts a drive. */
+export async function getSiteIdFromDrive(driveId: string, token: TokenSource): Promise<string> {
+  const data = await graphGET<{ sharepointIds?: { siteId?: string } }>(
+    `/drives/${driveId}?$select=sharepointIds`,
+    token
+  );
+  const siteId = data?.sharepointIds?.siteId || "";
+  if (!siteId) throw new Error("Could not resolve siteId for drive.");
+  return siteId;
 }
 
 /* ──────────────────────────────────────────────────────────────
@@ -266,46 +223,3 @@ export async function uploadBlobToFolderId(
 export async function listDocumentLibraries(): Promise<Array<{ id: string; name: string }>> {
   return getDrives();
 }
-
-/**
- * Upload an Outlook item as .eml to SharePoint.
- * Expects an Office.js item (passed from TaskPane or Dialog).
- */
-export async function uploadEmailToSharePoint(
-  _token: string,                 // kept for signature compatibility
-  outlookItem: any,
-  driveId: string,
-  folderId: string
-): Promise<void> {
-  const safeName = (outlookItem?.subject || "message").toString().replace(/[\\/:*?"<>|]/g, "_");
-  const fileName = `${safeName}.eml`;
-
-  return new Promise<void>((resolve, reject) => {
-    if (!outlookItem?.getItemAsync) {
-      reject("Invalid Outlook item reference.");
-      return;
-    }
-
-    outlookItem.getItemAsync(async (r: any) => {
-      if (r.status !== Office.AsyncResultStatus.Succeeded) {
-        reject("Failed to read email content.");
-        return;
-      }
-
-      try {
-        const blob = new Blob([r.value], { type: "message/rfc822" });
-        await uploadBlobToFolderId(driveId, folderId || "root", fileName, blob);
-        resolve();
-      } catch (e) {
-        reject(e);
-      }
-    });
-  });
-}
-
-/**
- * Favorites placeholder (wire up to real storage later)
- */
-export async function getFavorites(): Promise<Array<{ id: string; name: string }>> {
-  return [];
-}
@@ -0,0 +1,130 @@
+// src/idb.ts
+/* global IDBDatabase, IDBObjectStore, IDBRequest, IDBTransactionMode, IDBValidKey, indexedDB */
+
+/**
+ * Tiny promise wrapper around the add-in's IndexedDB database.
+ * The task pane and dialog share an origin, so they share this DB.
+ *
+ * Add new object stores by bumping DB_VERSION and extending STORES.
+ */
+const DB_NAME = "flowpoint";
+const DB_VERSION = 3;
+
+export const STORES = {
+  archiveJobs: "archiveJobs",
+  auditLog: "auditLog",
+  destinationModel: "destinationModel",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORES.archiveJobs)) {
+        db.createObjectStore(STORES.archiveJobs, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.auditLog)) {
+        db.createObjectStore(STORES.auditLog, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.destinationModel)) {
+        db.createObjectStore(STORES.destinationModel, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Already reported as blocked; don't keep a connection nobody uses
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // A newer version opened elsewhere (pane vs dialog): let it upgrade, reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    // Another window still has the old version open and didn't close it
+    req.onblocked = () => {
+      blocked = true;
+      reject(
+        new Error(
+          "The archive database is in use by another Flowpoint window. Close it and try again."
+        )
+      );
+    };
+  });
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return wrap(fn(db.transaction(store, mode).objectStore(store)));
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export async function idbPut<T>(store: StoreName, value: T): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.put(value));
+}
+
+/**
+ * Read, change and write one record in a single readwrite transaction, so
+ * two windows can't both act on the same old value. `update` returns the
+ * record to write, or undefined to leave it as is. Resolves with what was
+ * written (undefined when nothing was).
+ */
+export async function idbUpdate<T>(
+  store: StoreName,
+  key: IDBValidKey,
+  update: (current: T | undefined) => T | undefined
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    const s = tx.objectStore(store);
+    let written: T | undefined;
+    const get = s.get(key);
+    get.onsuccess = () => {
+      written = update(get.result as T | undefined);
+      if (written !== undefined) s.put(written);
+    };
+    tx.oncomplete = () => resolve(written);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.delete(key));
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.clear());
+}
@@ -0,0 +1,293 @@
+// src/learnedSuggestions.ts
+import { idbClear, idbGet, idbGetAll, idbPut, STORES } from "./idb";
+import { ArchiveJob, ArchiveJobItem } from "./archiveQueue";
+import { MessageMeta } from "./graphMail";
+import { stripSubjectPrefixes } from "./fileNaming";
+import { getAuditHistory } from "./auditLog";
+
+/* global console, localStorage */
+
+/**
+ * Learned destination suggestions: a naive Bayes model over the user's own
+ * archive history, kept in IndexedDB and never sent anywhere. Each
+ * destination (library + folder) is a class; features are the sender
+ * address and domain, recipients and subject words of the emails filed
+ * there.
+ *
+ * The first time the model is used it is seeded from the local audit log
+ * (sender and subject only; the log keeps no recipients), so filings made
+ * before learning existed still count.
+ */
+
+export interface DestinationClass {
+  /** `${driveId}|${folderPath}` (path lower-cased) */
+  id: string;
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+  libraryLabel: string;
+  /** Emails filed here */
+  count: number;
+  /** Sum of all feature counts */
+  featureTotal: number;
+  features: Record<string, number>;
+  lastUsed: string;
+}
+
+export interface LearnedSuggestion {
+  destination: DestinationClass;
+  /** 0..1, relative to the other destinations */
+  confidence: number;
+  /** e.g. "sender domain acme.com → Clients/Acme 14 times" */
+  explanation: string;
+}
+
+export interface EmailFeatures {
+  from?: string;
+  subject?: string;
+  recipients: string[];
+}
+
+// Keep per-destination vocabularies from growing without bound
+const MAX_FEATURES_PER_DESTINATION = 2000;
+
+const STOPWORDS = new Set(
+  "the and for with from this that your you our are was were have has had not but can will re fw fwd aw sv wg please thanks thank regards hi hello dear meeting email".split(
+    " "
+  )
+);
+
+function subjectWords(subject?: string): string[] {
+  const words = stripSubjectPrefixes(subject || "")
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .map((w) => w.replace(/^-+|-+$/g, ""))
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w) && !/^\d{1,2}$/.test(w));
+  return words.filter((w, i) => words.indexOf(w) === i);
+}
+
+/** Feature keys for an email: "from:", "domain:", "to:" and "word:" prefixed. */
+export function extractFeatures(email: EmailFeatures): string[] {
+  const out: string[] = [];
+  const from = (email.from || "").toLowerCase();
+  if (from) {
+    out.push(`from:${from}`);
+    const at = from.lastIndexOf("@");
+    if (at >= 0) out.push(`domain:${from.slice(at + 1)}`);
+  }
+  email.recipients
+    .map((r) => r.toLowerCase())
+    .filter((r, i, all) => r && all.indexOf(r) === i)
+    .forEach((r) => out.push(`to:${r}`));
+  subjectWords(email.subject).forEach((w) => out.push(`word:${w}`));
+  return out;
+}
+
+export function featuresFromMessage(meta: MessageMeta): EmailFeatures {
+  const recipients = [...(meta.toRecipients || []), ...(meta.ccRecipients || [])]
+    .map((r) => r.emailAddress?.address || "")
+    .filter(Boolean);
+  return { from: meta.from?.emailAddress?.address, subject: meta.subject, recipients };
+}
+
+function destinationId(driveId: string, folderPath: string): string {
+  return `${driveId}|${folderPath.toLowerCase()}`;
+}
+
+function describeFeature(feature: string): string {
+  const i = feature.indexOf(":");
+  const kind = feature.slice(0, i);
+  const value = feature.slice(i + 1);
+  switch (kind) {
+    case "from":
+      return `sender ${value}`;
+    case "domain":
+      return `sender domain ${value}`;
+    case "to":
+      return `recipient ${value}`;
+    default:
+      return `subject word "${value}"`;
+  }
+}
+
+/** Drop the rarest features once a destination's vocabulary is too big. */
+function prune(dest: DestinationClass): void {
+  const keys = Object.keys(dest.features);
+  if (keys.length <= MAX_FEATURES_PER_DESTINATION) return;
+  keys
+    .sort((a, b) => dest.features[a] - dest.features[b])
+    .slice(0, keys.length - MAX_FEATURES_PER_DESTINATION)
+    .forEach((k) => {
+      dest.featureTotal -= dest.features[k];
+      delete dest.features[k];
+    });
+}
+
+type TrainingTarget = {
+  siteId: string;
+  driveId: string;
+  folderPath: string;
+  libraryLabel?: string;
+};
+
+async function trainOnce(target: TrainingTarget, email: EmailFeatures): Promise<void> {
+  const features = extractFeatures(email);
+  if (!features.length) return;
+  const id = destinationId(target.driveId, target.folderPath);
+  const existing = await idbGet<DestinationClass>(STORES.destinationModel, id);
+  const dest: DestinationClass = existing || {
+    id,
+    siteId: target.siteId,
+    driveId: target.driveId,
+    folderPath: target.folderPath,
+    libraryLabel: target.libraryLabel || "",
+    count: 0,
+    featureTotal: 0,
+    features: {},
+    lastUsed: "",
+  };
+  dest.count++;
+  dest.lastUsed = new Date().toISOString();
+  if (target.libraryLabel) dest.libraryLabel = target.libraryLabel;
+  features.forEach((f) => {
+    dest.features[f] = (dest.features[f] || 0) + 1;
+    dest.featureTotal++;
+  });
+  prune(dest);
+  await idbPut(STORES.destinationModel, dest);
+}
+
+// Read-modify-write per destination, so parallel archive workers queue up
+let trainChain: Promise<unknown> = Promise.resolve();
+
+function queueTraining(run: () => Promise<void>): Promise<void> {
+  const next = trainChain.then(run);
+  trainChain = next.catch(() => undefined);
+  return next;
+}
+
+const BOOTSTRAPPED_KEY = "flowpoint:destinationModel:bootstrapped";
+
+let bootstrap: Promise<void> | null = null;
+
+/**
+ * Seed an empty model from the audit log, once per browser profile. A model
+ * that already has data was trained on those same filings, so it is left as is.
+ */
+function ensureBootstrapped(): Promise<void> {
+  if (!bootstrap) {
+    bootstrap = queueTraining(async () => {
+      if (localStorage.getItem(BOOTSTRAPPED_KEY)) return;
+      const existing = await idbGetAll<DestinationClass>(STORES.destinationModel);
+      if (!existing.length) {
+        // Oldest first, so lastUsed ends up at the newest filing
+        const history = (await getAuditHistory()).reverse();
+        for (const entry of history) {
+          if (entry.outcome !== "uploaded" && entry.outcome !== "replaced") continue;
+          await trainOnce(entry, {
+            from: entry.fromAddress,
+            subject: entry.subject,
+            recipients: [],
+          });
+        }
+      }
+      localStorage.setItem(BOOTSTRAPPED_KEY, "1");
+    }).catch((e) => {
+      console.warn("Could not seed learned suggestions from the audit log:", e);
+    });
+  }
+  return bootstrap;
+}
+
+/** Learn from one filed email. */
+export function trainDestination(target: TrainingTarget, email: EmailFeatures): Promise<void> {
+  return ensureBootstrapped().then(() => queueTraining(() => trainOnce(target, email)));
+}
+
+/**
+ * Rank destinations for an email (multinomial naive Bayes with add-one
+ * smoothing). Only destinations sharing at least one feature with the
+ * email are considered, so a brand-new sender gets no suggestions rather
+ * than "wherever you file most".
+ */
+export function rankDestinations(
+  model: DestinationClass[],
+  email: EmailFeatures,
+  limit = 3
+): LearnedSuggestion[] {
+  const features = extractFeatures(email);
+  const totalEmails = model.reduce((n, d) => n + d.count, 0);
+  if (!features.length || !totalEmails) return [];
+
+  const vocabulary = new Set<string>();
+  model.forEach((d) => Object.keys(d.features).forEach((f) => vocabulary.add(f)));
+  const v = vocabulary.size || 1;
+
+  const scored = model
+    .filter((d) => features.some((f) => d.features[f]))
+    .map((d) => {
+      let logP = Math.log(d.count / totalEmails);
+      features.forEach(
+        (f) => (logP += Math.log(((d.features[f] || 0) + 1) / (d.featureTotal + v)))
+      );
+      return { d, logP };
+    });
+  if (!scored.length) return [];
+
+  // Normalize in log space so tiny probabilities don't underflow
+  const max = Math.max(...scored.map((s) => s.logP));
+  const weights = scored.map((s) => Math.exp(s.logP - max));
+  const sum = weights.reduce((a, b) => a + b, 0);
+
+  return scored
+    .map((s, i) => {
+      const strongest = features
+        .filter((f) => s.d.features[f])
+        .sort((a, b) => s.d.features[b] - s.d.features[a])[0];
+      const where = [s.d.libraryLabel, s.d.folderPath].filter(Boolean).join("/") || s.d.driveId;
+      const times = s.d.features[strongest];
+      return {
+        destination: s.d,
+        confidence: weights[i] / sum,
+        explanation: `because ${describeFeature(strongest)} → ${where} ${times} time${times === 1 ? "" : "s"}`,
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+export async function loadDestinationModel(): Promise<DestinationClass[]> {
+  await ensureBootstrapped();
+  return idbGetAll<DestinationClass>(STORES.destinationModel);
+}
+
+/** Forget everything learned (the audit log isn't replayed afterwards). */
+export async function resetDestinationModel(): Promise<void> {
+  await ensureBootstrapped();
+  await idbClear(STORES.destinationModel);
+}
+
+/**
+ * onItemUpdate hook that trains on each email newly filed during a run
+ * (skips, failures and metadata-only updates teach nothing new).
+ */
+export function createLearningHook(
+  metaFor: (restId: string) => MessageMeta | undefined,
+  onTrained?: () => void
+): (job: ArchiveJob, item: ArchiveJobItem) => void {
+  const trained = new Set<string>();
+  return (job, item) => {
+    if (
+      item.state !== "done" ||
+      (item.outcome && item.outcome !== "uploaded" && item.outcome !== "replaced")
+    )
+      return;
+    const key = `${job.id}:${item.restId}`;
+    const meta = metaFor(item.restId);
+    if (trained.has(key) || !meta) return;
+    trained.add(key);
+    void trainDestination(job, featuresFromMessage(meta))
+      .then(() => onTrained?.())
+      .catch((e) => console.warn("Could not update learned suggestions:", e));
+  };
+}
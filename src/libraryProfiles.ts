@@ -0,0 +1,172 @@
+// src/libraryProfiles.ts
+import { graphGET, graphGetAll, TokenSource } from "./graphClient";
+import { parsePostArchiveActions, PostArchiveActions } from "./mailActions";
+import { getConfig } from "./config";
+import { parseMetadataMapping, MetadataMapping } from "./metadataMapping";
+
+/* global URL, localStorage */
+
+/**
+ * Library mappings: one row per department/group in a SharePoint list on
+ * the configured mappings site, each pointing at a document library and
+ * carrying that library's archive defaults. Users can add their own
+ * libraries from the site browser; those are kept per user in localStorage
+ * and offered next to the mapped ones.
+ */
+
+export interface LibraryProfile {
+  DepartmentOrGroup: string;
+  Label: string;
+  SiteUrl: string;
+  DriveId: string;
+  SortOrder?: number;
+  IsDefault?: boolean;
+  /** File name template for emails archived here (see fileNaming.ts) */
+  FilenameTemplate?: string;
+  /** Regex used for the {projectNumber} token */
+  ProjectNumberPattern?: string;
+  /** Default post-archive mailbox actions (JSON column) */
+  PostArchiveActions?: PostArchiveActions;
+  /** Message property → column (JSON column, see metadataMapping.ts) */
+  MetadataMapping?: MetadataMapping;
+  /** Added by the user from the site browser, not from the mappings list */
+  Personal?: boolean;
+}
+
+/** Site id of the site hosting the mappings list (resolved once). */
+export function getMappingsSiteId(token: TokenSource): Promise<string> {
+  return getSiteIdFromUrl(getConfig().mappings.siteUrl, token);
+}
+
+let mappingsListId: Promise<string> | null = null;
+
+/** The configured list id, or the list found by its title. */
+function getMappingsListId(token: TokenSource, siteId: string): Promise<string> {
+  const { listId, listTitle } = getConfig().mappings;
+  if (listId) return Promise.resolve(listId);
+  if (!mappingsListId) {
+    const title = encodeURIComponent(listTitle.replace(/'/g, "''"));
+    mappingsListId = graphGetAll<{ id: string }>(
+      `/sites/${siteId}/lists?$filter=displayName eq '${title}'&$select=id`,
+      token
+    ).then((lists) => {
+      if (!lists.length) throw new Error(`Mappings list "${listTitle}" not found.`);
+      return lists[0].id;
+    });
+    mappingsListId.catch(() => (mappingsListId = null));
+  }
+  return mappingsListId;
+}
+
+export function profileFromFields(f: any): LibraryProfile {
+  return {
+    DepartmentOrGroup: f.DepartmentOrGroup || "",
+    Label: f.Label || "",
+    SiteUrl: f.SiteUrl || "",
+    DriveId: f.DriveId || "",
+    SortOrder: f.SortOrder ? Number(f.SortOrder) : undefined,
+    IsDefault: f.IsDefault === true || f.IsDefault === "true",
+    FilenameTemplate: f.FilenameTemplate || undefined,
+    ProjectNumberPattern: f.ProjectNumberPattern || undefined,
+    PostArchiveActions: parsePostArchiveActions(f.PostArchiveActions),
+    MetadataMapping: parseMetadataMapping(f.MetadataMapping),
+  };
+}
+
+const siteIdsByUrl = new Map<string, Promise<string>>();
+
+/** Graph site id for a SharePoint site URL, e.g. https://contoso.sharepoint.com/sites/Accounting */
+export function getSiteIdFromUrl(siteUrl: string, token: TokenSource): Promise<string> {
+  const key = siteUrl.replace(/\/+$/, "").toLowerCase();
+  let cached = siteIdsByUrl.get(key);
+  if (!cached) {
+    const u = new URL(siteUrl);
+    cached = graphGET<{ id: string }>(
+      `/sites/${u.host}:${u.pathname.replace(/\/+$/, "")}`,
+      token
+    ).then((s) => s.id);
+    cached.catch(() => siteIdsByUrl.delete(key));
+    siteIdsByUrl.set(key, cached);
+  }
+  return cached;
+}
+
+export async function loadLibraryProfiles(
+  token: TokenSource,
+  siteId?: string
+): Promise<LibraryProfile[]> {
+  const sid = siteId || (await getMappingsSiteId(token));
+  const listId = await getMappingsListId(token, sid);
+  const data = await graphGetAll<{ fields: any }>(
+    `/sites/${sid}/lists/${listId}/items?expand=fields`,
+    token
+  );
+  return data.map((item) => profileFromFields(item.fields));
+}
+
+export function findProfileForDrive(
+  profiles: LibraryProfile[],
+  driveId?: string | null
+): LibraryProfile | undefined {
+  if (!driveId) return undefined;
+  return profiles.find((p) => p.DriveId === driveId);
+}
+
+/* ──────────────────────────────────────────────────────────────
+   Personal destinations (libraries the user added themselves)
+   ────────────────────────────────────────────────────────────── */
+
+const PERSONAL_KEY = "flowpoint:personalLibraries";
+
+export function loadPersonalLibraries(): LibraryProfile[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PERSONAL_KEY) || "[]");
+    if (!Array.isArray(saved)) return [];
+    return saved
+      .filter((p: any) => p && typeof p.DriveId === "string" && typeof p.SiteUrl === "string")
+      .map((p: any) => ({
+        ...profileFromFields(p),
+        DepartmentOrGroup: "",
+        IsDefault: false,
+        Personal: true,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function storePersonalLibraries(list: LibraryProfile[]): LibraryProfile[] {
+  localStorage.setItem(
+    PERSONAL_KEY,
+    JSON.stringify(list.map(({ Label, SiteUrl, DriveId }) => ({ Label, SiteUrl, DriveId })))
+  );
+  return loadPersonalLibraries();
+}
+
+/** Add (or rename) a personal library; returns the updated list. */
+export function savePersonalLibrary(library: {
+  label: string;
+  siteUrl: string;
+  driveId: string;
+}): LibraryProfile[] {
+  const rest = loadPersonalLibraries().filter((p) => p.DriveId !== library.driveId);
+  rest.push({
+    DepartmentOrGroup: "",
+    Label: library.label,
+    SiteUrl: library.siteUrl,
+    DriveId: library.driveId,
+  });
+  return storePersonalLibraries(rest.sort((a, b) => a.Label.localeCompare(b.Label)));
+}
+
+export function removePersonalLibrary(driveId: string): LibraryProfile[] {
+  return storePersonalLibraries(loadPersonalLibraries().filter((p) => p.DriveId !== driveId));
+}
+
+/** Mapped libraries followed by personal ones not already mapped. */
+export function withPersonalLibraries(
+  mapped: LibraryProfile[],
+  personal: LibraryProfile[]
+): LibraryProfile[] {
+  return mapped.concat(personal.filter((p) => !findProfileForDrive(mapped, p.DriveId)));
+}
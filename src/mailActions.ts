@@ -0,0 +1,167 @@
+// src/mailActions.ts
+import { graphGET, graphGetAll, graphPATCH, graphPOST, TokenSource } from "./graphClient";
+import { ArchiveItemContext } from "./archiveQueue";
+
+/* global AbortSignal, console */
+
+/**
+ * What happens to the original email after it has been archived, so it's
+ * obvious in Outlook what has already been filed.
+ */
+export interface PostArchiveActions {
+  /** Add an Outlook category "Filed: <library>/<path>" */
+  categorize: boolean;
+  markRead: boolean;
+  flagComplete: boolean;
+  /** Move to this mail folder (id) afterwards; empty = leave it where it is */
+  moveToFolderId?: string;
+  moveToFolderName?: string;
+  /** Move to Deleted Items (takes precedence over moveToFolderId) */
+  softDelete: boolean;
+}
+
+export const NO_POST_ARCHIVE_ACTIONS: PostArchiveActions = {
+  categorize: false,
+  markRead: false,
+  flagComplete: false,
+  softDelete: false,
+};
+
+export function hasPostArchiveActions(a?: PostArchiveActions | null): boolean {
+  return (
+    !!a && (a.categorize || a.markRead || a.flagComplete || a.softDelete || !!a.moveToFolderId)
+  );
+}
+
+/**
+ * Parse a LibraryProfile's default actions, stored in the mappings list as
+ * JSON (e.g. {"categorize":true,"markRead":true}). Invalid JSON is ignored.
+ */
+export function parsePostArchiveActions(raw: unknown): PostArchiveActions | undefined {
+  if (!raw) return undefined;
+  try {
+    const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!value || typeof value !== "object") return undefined;
+    return { ...NO_POST_ARCHIVE_ACTIONS, ...(value as Partial<PostArchiveActions>) };
+  } catch {
+    console.warn("Ignoring invalid PostArchiveActions in library mapping:", raw);
+    return undefined;
+  }
+}
+
+/** Category names are limited to 255 characters. */
+export function filedCategoryName(libraryLabel: string, folderPath?: string): string {
+  const where = [libraryLabel, ...(folderPath || "").split("/")].filter(Boolean).join("/");
+  return `Filed: ${where || "SharePoint"}`.slice(0, 255);
+}
+
+export interface PostArchiveContext {
+  libraryLabel: string;
+  folderPath?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Apply the actions with one PATCH (category/read/flag) and at most one
+ * move. Returns the message id afterwards (moves give the message a new id).
+ */
+export async function applyPostArchiveActions(
+  token: TokenSource,
+  restId: string,
+  actions: PostArchiveActions,
+  ctx: PostArchiveContext
+): Promise<string> {
+  const { signal } = ctx;
+  const patch: Record<string, any> = {};
+
+  if (actions.categorize) {
+    const current = await graphGET<{ categories?: string[] }>(
+      `/me/messages/${restId}?$select=categories`,
+      token,
+      {
+        signal,
+      }
+    );
+    const category = filedCategoryName(ctx.libraryLabel, ctx.folderPath);
+    const categories = current.categories || [];
+    if (categories.indexOf(category) < 0) patch.categories = [...categories, category];
+  }
+  if (actions.markRead) patch.isRead = true;
+  if (actions.flagComplete) patch.flag = { flagStatus: "complete" };
+
+  if (Object.keys(patch).length)
+    await graphPATCH(`/me/messages/${restId}`, token, patch, { signal });
+
+  const destinationId = actions.softDelete ? "deleteditems" : actions.moveToFolderId;
+  if (!destinationId) return restId;
+  const moved = await graphPOST<{ id: string }>(
+    `/me/messages/${restId}/move`,
+    token,
+    { destinationId },
+    { signal }
+  );
+  return moved?.id || restId;
+}
+
+export interface MailFolderOption {
+  id: string;
+  /** Display path, e.g. "Inbox/Projects" */
+  path: string;
+}
+
+interface MailFolder {
+  id: string;
+  displayName: string;
+  childFolderCount?: number;
+}
+
+/** Mail folders for the "move to" picker (top level plus two levels below). */
+export async function listMailFolders(
+  token: TokenSource,
+  maxDepth = 3
+): Promise<MailFolderOption[]> {
+  const out: MailFolderOption[] = [];
+  const walk = async (url: string, prefix: string, depth: number) => {
+    const folders = await graphGetAll<MailFolder>(
+      `${url}?$select=id,displayName,childFolderCount&$top=100`,
+      token
+    );
+    for (const f of folders) {
+      const path = prefix ? `${prefix}/${f.displayName}` : f.displayName;
+      out.push({ id: f.id, path });
+      if (f.childFolderCount && depth + 1 < maxDepth)
+        await walk(`/me/mailFolders/${f.id}/childFolders`, path, depth + 1);
+    }
+  };
+  await walk("/me/mailFolders", "", 0);
+  return out.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Run the job's post-archive actions for one item, once. Failures are
+ * recorded on the item but don't fail the archive itself — the email is
+ * already safely in SharePoint.
+ */
+export async function runPostArchiveActions(
+  token: TokenSource,
+  restId: string,
+  ctx: ArchiveItemContext
+): Promise<void> {
+  const { job, item } = ctx;
+  if (!hasPostArchiveActions(job.postArchiveActions) || item.mailActionsDone) return;
+  try {
+    await applyPostArchiveActions(token, restId, job.postArchiveActions!, {
+      libraryLabel: job.libraryLabel || "",
+      folderPath: job.folderPath,
+      signal: ctx.signal,
+    });
+    await ctx.setState(item.state, { mailActionsDone: true, postActionError: undefined });
+  } catch (e: any) {
+    if (e?.name === "AbortError") throw e;
+    console.warn("Post-archive mailbox actions failed:", e);
+    await ctx.setState(item.state, {
+      mailActionsDone: true,
+      postActionError: e?.message || String(e),
+    });
+  }
+}
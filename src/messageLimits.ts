@@ -0,0 +1,60 @@
+// src/messageLimits.ts
+import { MAX_MESSAGE_BYTES, messageSize, MessageMeta, STREAM_MIME_THRESHOLD } from "./graphMail";
+import { formatBytes } from "./format";
+
+/**
+ * Size checks made before an email is archived, so a huge message is
+ * flagged up front. Sizes are estimates from the mailbox size of the
+ * message, so they only warn: the download's real size decides
+ * whether it is refused (see getMessageMime).
+ */
+
+// Base64-encoded attachments make the .eml about a third larger than the mailbox size
+const MIME_OVERHEAD = 1.37;
+
+export interface SizeWarning {
+  /** "error": probably too big to archive; "warning": large, but streamed */
+  level: "warning" | "error";
+  /** Estimated .eml size in bytes */
+  size: number;
+  message: string;
+}
+
+/** Rough size of the .eml Graph will export, when the mailbox size is known. */
+export function estimateMimeSize(meta: MessageMeta): number | undefined {
+  const size = messageSize(meta);
+  return size === undefined ? undefined : Math.round(size * MIME_OVERHEAD);
+}
+
+export function checkMessageSize(meta: MessageMeta): SizeWarning | null {
+  const size = estimateMimeSize(meta);
+  if (size === undefined) return null;
+  if (size > MAX_MESSAGE_BYTES) {
+    return {
+      level: "error",
+      size,
+      message: `About ${formatBytes(size)}: probably over the ${formatBytes(MAX_MESSAGE_BYTES)} Graph limit for messages, so archiving it will likely fail.`,
+    };
+  }
+  if (size > STREAM_MIME_THRESHOLD) {
+    return {
+      level: "warning",
+      size,
+      message: `About ${formatBytes(size)}: large message, streamed to SharePoint. Keep Outlook open until it's done.`,
+    };
+  }
+  return null;
+}
+
+/** Size warnings for the messages about to be archived, by restId. */
+export function checkMessageSizes(
+  restIds: string[],
+  meta: Map<string, MessageMeta>
+): Map<string, SizeWarning> {
+  const out = new Map<string, SizeWarning>();
+  restIds.forEach((id) => {
+    const warning = meta.get(id) && checkMessageSize(meta.get(id)!);
+    if (warning) out.set(id, warning);
+  });
+  return out;
+}
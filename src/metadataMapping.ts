@@ -0,0 +1,284 @@
+// src/metadataMapping.ts
+import { TokenSource } from "./graphClient";
+import { getAttachmentNames, MessageMeta } from "./graphMail";
+import { getSiteUserLookupId, ListColumn } from "./graphSharePoint";
+import { FIELD_INTERNET_ID } from "./archiveDuplicates";
+
+/* global AbortSignal, console */
+
+/**
+ * Which message properties go to which library columns. A library profile
+ * may declare its own mapping (JSON column "MetadataMapping", e.g.
+ * {"to":"EmailTo","categories":"Tags"}), applied over the defaults; a
+ * property mapped to "" is left out. Each value is converted for the
+ * column's type, and columns the library doesn't have are skipped.
+ *
+ * De-duplication always looks in the InternetMessageId column, whatever
+ * the mapping says.
+ */
+
+export type MessageProperty =
+  | "from"
+  | "fromAddress"
+  | "to"
+  | "cc"
+  | "subject"
+  | "sent"
+  | "received"
+  | "importance"
+  | "categories"
+  | "conversationId"
+  | "internetMessageId"
+  | "hasAttachments"
+  | "attachmentNames"
+  | "bodyExcerpt"
+  | "webLink";
+
+/** Message property → internal column name */
+export type MetadataMapping = Partial<Record<MessageProperty, string>>;
+
+const MESSAGE_PROPERTIES: MessageProperty[] = [
+  "from",
+  "fromAddress",
+  "to",
+  "cc",
+  "subject",
+  "sent",
+  "received",
+  "importance",
+  "categories",
+  "conversationId",
+  "internetMessageId",
+  "hasAttachments",
+  "attachmentNames",
+  "bodyExcerpt",
+  "webLink",
+];
+
+/** What every library gets unless its profile says otherwise */
+export const DEFAULT_METADATA_MAPPING: MetadataMapping = {
+  from: "From",
+  fromAddress: "From_x002d_Address",
+  received: "Received",
+  hasAttachments: "Attachment",
+  webLink: "OriginalMessageLink",
+  internetMessageId: FIELD_INTERNET_ID,
+};
+
+/** Mapping from the profile's JSON column; unknown properties are dropped. */
+export function parseMetadataMapping(raw: unknown): MetadataMapping | undefined {
+  if (!raw) return undefined;
+  try {
+    const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!value || typeof value !== "object") return undefined;
+    const mapping: MetadataMapping = {};
+    Object.keys(value).forEach((key) => {
+      if (
+        MESSAGE_PROPERTIES.indexOf(key as MessageProperty) >= 0 &&
+        typeof value[key] === "string"
+      ) {
+        mapping[key as MessageProperty] = value[key].trim();
+      }
+    });
+    return mapping;
+  } catch {
+    console.warn("Ignoring invalid MetadataMapping in library mapping:", raw);
+    return undefined;
+  }
+}
+
+/** Defaults with the library's mapping on top, without the unmapped properties. */
+export function resolveMetadataMapping(custom?: MetadataMapping): MetadataMapping {
+  const merged: MetadataMapping = { ...DEFAULT_METADATA_MAPPING, ...custom };
+  Object.keys(merged).forEach((key) => {
+    if (!merged[key as MessageProperty]) delete merged[key as MessageProperty];
+  });
+  return merged;
+}
+
+interface Person {
+  name?: string;
+  address?: string;
+}
+
+/** A message property in the forms the column types need. */
+interface PropertyValue {
+  /** Single-line text (also the fallback for other column types) */
+  text: string;
+  /** One entry per value: multi-line text, multi-select choice */
+  lines?: string[];
+  people?: Person[];
+  /** ISO date/time */
+  date?: string;
+  flag?: boolean;
+}
+
+const formatPerson = (p: Person) =>
+  p.name && p.address && p.name !== p.address
+    ? `${p.name} <${p.address}>`
+    : p.name || p.address || "";
+
+function peopleValue(recipients?: Array<{ emailAddress?: Person }>): PropertyValue | undefined {
+  const people = (recipients || [])
+    .map((r) => r.emailAddress || {})
+    .filter((p) => p.name || p.address);
+  if (!people.length) return undefined;
+  const lines = people.map(formatPerson);
+  return { text: lines.join("; "), lines, people };
+}
+
+function listValue(values?: string[]): PropertyValue | undefined {
+  return values?.length ? { text: values.join("; "), lines: values } : undefined;
+}
+
+const textValue = (text?: string): PropertyValue | undefined => (text ? { text } : undefined);
+const dateValue = (date?: string): PropertyValue | undefined =>
+  date ? { text: date, date } : undefined;
+
+function propertyValue(
+  property: MessageProperty,
+  msg: MessageMeta,
+  attachmentNames: string[]
+): PropertyValue | undefined {
+  switch (property) {
+    case "from": {
+      const from = msg.from?.emailAddress;
+      return from ? { text: from.name || "", people: [from] } : undefined;
+    }
+    case "fromAddress":
+      return textValue(msg.from?.emailAddress?.address);
+    case "to":
+      return peopleValue(msg.toRecipients);
+    case "cc":
+      return peopleValue(msg.ccRecipients);
+    case "subject":
+      return textValue(msg.subject);
+    case "sent":
+      return dateValue(msg.sentDateTime);
+    case "received":
+      return dateValue(msg.receivedDateTime);
+    case "importance":
+      return msg.importance
+        ? { text: msg.importance.charAt(0).toUpperCase() + msg.importance.slice(1) }
+        : undefined;
+    case "categories":
+      return listValue(msg.categories);
+    case "conversationId":
+      return textValue(msg.conversationId);
+    case "internetMessageId":
+      return textValue(msg.internetMessageId);
+    case "hasAttachments":
+      return { text: msg.hasAttachments ? "Yes" : "No", flag: !!msg.hasAttachments };
+    case "attachmentNames":
+      return listValue(attachmentNames);
+    case "bodyExcerpt":
+      return textValue((msg.bodyPreview || "").trim());
+    case "webLink":
+      return textValue(msg.webLink);
+  }
+}
+
+// SharePoint's single line of text column holds at most 255 characters
+const SINGLE_LINE_MAX = 255;
+
+/** Field values for one column (keys can include LookupId / @odata.type); null to skip. */
+async function convertForColumn(
+  column: ListColumn,
+  value: PropertyValue,
+  siteUserIds: (email: string) => Promise<string | undefined>
+): Promise<Record<string, any> | null> {
+  const { name } = column;
+
+  if (column.personOrGroup) {
+    const addresses = (value.people || []).map((p) => p.address).filter((a): a is string => !!a);
+    const ids: string[] = [];
+    for (const address of addresses) {
+      const id = await siteUserIds(address);
+      if (id && ids.indexOf(id) < 0) ids.push(id);
+    }
+    if (!ids.length) return null;
+    return column.personOrGroup.allowMultipleSelection
+      ? { [`${name}LookupId@odata.type`]: "Collection(Edm.String)", [`${name}LookupId`]: ids }
+      : { [`${name}LookupId`]: ids[0] };
+  }
+
+  if (column.dateTime) return value.date ? { [name]: value.date } : null;
+
+  if (column.boolean) return value.flag === undefined ? null : { [name]: value.flag };
+
+  if (column.number) {
+    const n = Number(value.text);
+    return value.text && !isNaN(n) ? { [name]: n } : null;
+  }
+
+  if (column.choice) {
+    const { choices = [], allowTextEntry, displayAs } = column.choice;
+    const lower = choices.map((c) => c.toLowerCase());
+    // Use the library's spelling of a choice; other values only if the column takes free text
+    const picked: string[] = [];
+    (value.lines || [value.text]).forEach((v) => {
+      const i = lower.indexOf(v.toLowerCase());
+      const choice = i >= 0 ? choices[i] : allowTextEntry ? v : "";
+      if (choice && picked.indexOf(choice) < 0) picked.push(choice);
+    });
+    if (!picked.length) return null;
+    return displayAs === "checkBoxes"
+      ? { [`${name}@odata.type`]: "Collection(Edm.String)", [name]: picked }
+      : { [name]: picked[0] };
+  }
+
+  if (column.text?.allowMultipleLines)
+    return { [name]: value.lines ? value.lines.join("\n") : value.text };
+
+  return { [name]: value.text.slice(0, column.text?.maxLength || SINGLE_LINE_MAX) };
+}
+
+export interface ListItemFieldsContext {
+  token: TokenSource;
+  siteId: string;
+  restId: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * The listItem fields to PATCH for a message: every mapped property whose
+ * column exists (and isn't read-only), converted for that column's type.
+ * Attachment names are only fetched when a column wants them.
+ */
+export async function buildListItemFields(
+  msg: MessageMeta,
+  columns: ListColumn[],
+  mapping: MetadataMapping,
+  ctx: ListItemFieldsContext
+): Promise<Record<string, any>> {
+  const byName = new Map<string, ListColumn>();
+  columns.forEach((c) => {
+    if (!c.readOnly) byName.set(c.name, c);
+  });
+  const mapped = (Object.keys(mapping) as MessageProperty[]).filter((p) => byName.has(mapping[p]!));
+
+  const attachmentNames =
+    mapped.indexOf("attachmentNames") >= 0 && msg.hasAttachments
+      ? await getAttachmentNames(ctx.restId, ctx.token, ctx.signal).catch((e) => {
+          if (e?.name === "AbortError") throw e;
+          console.warn("Couldn't list attachment names:", e);
+          return [] as string[];
+        })
+      : [];
+
+  // A person who can't be resolved is left out rather than failing the PATCH
+  const siteUserIds = (email: string) =>
+    getSiteUserLookupId(ctx.token, ctx.siteId, email, ctx.signal).catch((e) => {
+      if (e?.name === "AbortError") throw e;
+      return undefined;
+    });
+
+  const fields: Record<string, any> = {};
+  for (const property of mapped) {
+    const value = propertyValue(property, msg, attachmentNames);
+    if (!value) continue;
+    const converted = await convertForColumn(byName.get(mapping[property]!)!, value, siteUserIds);
+    if (converted) Object.keys(converted).forEach((k) => (fields[k] = converted[k]));
+  }
+  return fields;
+}
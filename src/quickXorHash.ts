@@ -0,0 +1,73 @@
+// src/quickXorHash.ts
+/* global Blob, ReadableStream, btoa */
+
+/**
+ * QuickXorHash, the content hash OneDrive/SharePoint report in
+ * driveItem.file.hashes.quickXorHash. Lets us recognise a file we already
+ * uploaded without downloading it.
+ *
+ * Byte n of the input is XORed into a 160-bit circular register at bit
+ * (11 · n) mod 160, then the 64-bit little-endian length is XORed into the
+ * last 8 bytes. Because the position only depends on n mod 160, bytes are
+ * folded into 160 accumulators first and placed once at digest time, which
+ * also makes the hash streamable.
+ */
+const WIDTH_BITS = 160;
+const SHIFT = 11;
+
+export class QuickXorHash {
+  private cells = new Uint8Array(WIDTH_BITS);
+  private length = 0;
+
+  update(bytes: Uint8Array): this {
+    const cells = this.cells;
+    let k = this.length % WIDTH_BITS;
+    for (let i = 0; i < bytes.length; i++) {
+      cells[k] ^= bytes[i];
+      if (++k === WIDTH_BITS) k = 0;
+    }
+    this.length += bytes.length;
+    return this;
+  }
+
+  /** Base64 digest, in the same form Graph returns. */
+  digest(): string {
+    const out = new Uint8Array(WIDTH_BITS / 8);
+    for (let k = 0; k < WIDTH_BITS; k++) {
+      const value = this.cells[k];
+      if (!value) continue;
+      const bit = (SHIFT * k) % WIDTH_BITS;
+      const shifted = value << (bit & 7);
+      const index = bit >> 3;
+      out[index] ^= shifted & 0xff;
+      out[(index + 1) % out.length] ^= shifted >> 8;
+    }
+
+    let low = this.length % 0x100000000;
+    let high = Math.floor(this.length / 0x100000000);
+    for (let i = 0; i < 8; i++) {
+      out[out.length - 8 + i] ^= (i < 4 ? low : high) & 0xff;
+      if (i < 4) low = low >>> 8;
+      else high = high >>> 8;
+    }
+
+    let binary = "";
+    for (let i = 0; i < out.length; i++) binary += String.fromCharCode(out[i]);
+    return btoa(binary);
+  }
+}
+
+export async function quickXorHashBlob(blob: Blob): Promise<string> {
+  return new QuickXorHash().update(new Uint8Array(await blob.arrayBuffer())).digest();
+}
+
+/** Hash a stream as it is read, without keeping the bytes. */
+export async function quickXorHashStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const hash = new QuickXorHash();
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return hash.digest();
+    hash.update(value);
+  }
+}
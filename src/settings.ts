@@ -0,0 +1,60 @@
+// src/settings.ts
+import { ArchiveOutputFormat } from "./emailPdf";
+import { ConflictPolicy } from "./archiveDuplicates";
+import { PostArchiveActions } from "./mailActions";
+
+/* global localStorage */
+
+/**
+ * Per-user preferences, kept in localStorage (shared by the task pane
+ * and dialog since they run on the same origin).
+ */
+export interface UserSettings {
+  /** How many emails a bulk archive processes in parallel */
+  archiveConcurrency: number;
+  /** Default output for new archive actions (.eml, .pdf or both) */
+  outputFormat: ArchiveOutputFormat;
+  /** Personal file name template; empty = use the library's */
+  fileNameTemplate: string;
+  /** Show proposed file names for editing before uploading */
+  reviewFileNames: boolean;
+  /** What to do with emails that are already in the library */
+  conflictPolicy: ConflictPolicy;
+  /** What to do with the original email afterwards; null = the library's default */
+  postArchiveActions: PostArchiveActions | null;
+  /** File whole conversations into a "<start date> <subject>" subfolder */
+  conversationSubfolder: boolean;
+}
+
+const SETTINGS_KEY = "flowpoint:settings";
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  archiveConcurrency: 3,
+  outputFormat: "eml",
+  fileNameTemplate: "",
+  reviewFileNames: true,
+  conflictPolicy: "skip",
+  postArchiveActions: null,
+  conversationSubfolder: true,
+};
+
+export const MAX_ARCHIVE_CONCURRENCY = 8;
+
+export function loadSettings(): UserSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(patch: Partial<UserSettings>): UserSettings {
+  const next = { ...loadSettings(), ...patch };
+  next.archiveConcurrency = Math.max(
+    1,
+    Math.min(MAX_ARCHIVE_CONCURRENCY, Math.round(next.archiveConcurrency) || 1)
+  );
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  return next;
+}
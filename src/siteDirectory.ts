@@ -0,0 +1,113 @@
+// src/siteDirectory.ts
+import { graphGetAll, graphPOST, TokenSource } from "./graphClient";
+
+/**
+ * Finding SharePoint sites and their document libraries beyond the mapped
+ * ones: keyword search, the sites the user follows, and hub sites with the
+ * sites associated to them (hubs come from Microsoft Search, since Graph
+ * has no hub API).
+ */
+
+export interface SiteSummary {
+  /** Graph site id: "host,siteCollectionId,webId" */
+  id: string;
+  displayName: string;
+  webUrl: string;
+  description?: string;
+}
+
+export interface LibrarySummary {
+  id: string;
+  name: string;
+  webUrl?: string;
+}
+
+const SITE_SELECT = "id,displayName,webUrl,description";
+
+function bySiteName(a: SiteSummary, b: SiteSummary): number {
+  return a.displayName.localeCompare(b.displayName);
+}
+
+/** Sites matching a keyword (Graph `/sites?search=`). */
+export async function searchSites(token: TokenSource, query: string): Promise<SiteSummary[]> {
+  const term = query.trim();
+  if (!term) return [];
+  const sites = await graphGetAll<SiteSummary>(
+    `/sites?search=${encodeURIComponent(term)}&$select=${SITE_SELECT}`,
+    token
+  );
+  // Search also returns personal (OneDrive) sites; those aren't archive targets
+  return sites.filter((s) => s.webUrl && !/-my\.sharepoint\.com/i.test(s.webUrl));
+}
+
+/** Sites the signed-in user follows. */
+export async function getFollowedSites(token: TokenSource): Promise<SiteSummary[]> {
+  const sites = await graphGetAll<SiteSummary>(`/me/followedSites?$select=${SITE_SELECT}`, token);
+  return sites.sort(bySiteName);
+}
+
+interface SiteSearchHit {
+  resource?: {
+    id?: string;
+    name?: string;
+    displayName?: string;
+    webUrl?: string;
+    description?: string;
+  };
+}
+
+async function querySites(token: TokenSource, queryString: string): Promise<SiteSummary[]> {
+  const resp = await graphPOST<{
+    value?: Array<{ hitsContainers?: Array<{ hits?: SiteSearchHit[] }> }>;
+  }>("/search/query", token, {
+    requests: [{ entityTypes: ["site"], query: { queryString }, from: 0, size: 100 }],
+  });
+  const out: SiteSummary[] = [];
+  (resp.value || []).forEach((v) =>
+    (v.hitsContainers || []).forEach((c) =>
+      (c.hits || []).forEach(({ resource: r }) => {
+        if (!r?.id || !r.webUrl) return;
+        out.push({
+          id: r.id,
+          displayName: r.displayName || r.name || r.webUrl,
+          webUrl: r.webUrl,
+          description: r.description,
+        });
+      })
+    )
+  );
+  return out.sort(bySiteName);
+}
+
+/** The tenant's hub sites. */
+export function listHubSites(token: TokenSource): Promise<SiteSummary[]> {
+  return querySites(token, "contentclass:STS_Site IsHubSite:true");
+}
+
+/** Sites associated with a hub (including the hub itself). */
+export function listHubAssociatedSites(
+  token: TokenSource,
+  hub: SiteSummary
+): Promise<SiteSummary[]> {
+  // A hub's id is its site collection id; associated sites carry it as DepartmentId
+  const hubId = hub.id.split(",")[1] || hub.id;
+  return querySites(
+    token,
+    `contentclass:STS_Site (DepartmentId:${hubId} OR DepartmentId:{${hubId}})`
+  );
+}
+
+/** Document libraries on a site. */
+export async function listSiteLibraries(
+  token: TokenSource,
+  siteId: string
+): Promise<LibrarySummary[]> {
+  const drives = await graphGetAll<LibrarySummary & { driveType?: string }>(
+    `/sites/${siteId}/drives?$select=id,name,webUrl,driveType`,
+    token
+  );
+  return drives
+    .filter((d) => !d.driveType || d.driveType === "documentLibrary")
+    .map(({ id, name, webUrl }) => ({ id, name, webUrl }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,116 @@
+// src/taskpane/ArchiveHistory.tsx
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { Button, Caption1, Card, Tooltip } from "@fluentui/react-components";
+import { auditEntriesToCsv, getAuditHistory, syncPendingAuditEntries, AuditEntry, AuditOutcome } from "../auditLog";
+import { formatDate } from "../fileNaming";
+import { TokenSource } from "../graphClient";
+
+const darkOrange = "#FF8C00";
+const SHOWN = 25;
+
+const OUTCOME_LABEL: Record<AuditOutcome, string> = {
+  uploaded: "Filed",
+  replaced: "Replaced",
+  skipped: "Already filed",
+  metadataUpdated: "Metadata",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+interface Props {
+  token: TokenSource;
+  /** Changes whenever history may have grown (e.g. a run finished) */
+  refreshKey?: unknown;
+}
+
+/**
+ * The user's archive history from the local audit log, with CSV export.
+ */
+export default function ArchiveHistory({ token, refreshKey }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  const reload = () =>
+    getAuditHistory()
+      .then(setEntries)
+      .catch((e) => console.warn("Could not read archive history:", e));
+
+  useEffect(() => {
+    if (!collapsed) void reload();
+  }, [collapsed, refreshKey]);
+
+  const pending = entries.filter((e) => !e.synced).length;
+
+  const exportCsv = () => {
+    const blob = new Blob(["\uFEFF" + auditEntriesToCsv(entries)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `flowpoint-archive-history-${formatDate(new Date(), "yyyy-MM-dd")}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <Card style={{ padding: "0.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ color: darkOrange, fontWeight: "bold" }}>Archive history</h3>
+        <Button size="small" onClick={() => setCollapsed(!collapsed)}>
+          {collapsed ? "▼" : "▲"}
+        </Button>
+      </div>
+
+      {!collapsed && (
+        <>
+          <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 4 }}>
+            <Button size="small" appearance="secondary" disabled={!entries.length} onClick={exportCsv}>
+              Export CSV
+            </Button>
+            {pending > 0 && (
+              <Button
+                size="small"
+                appearance="secondary"
+                disabled={!token}
+                onClick={async () => {
+                  await syncPendingAuditEntries(token);
+                  await reload();
+                }}
+              >
+                Sync {pending} pending
+              </Button>
+            )}
+          </div>
+
+          {!entries.length && <Caption1 style={{ color: "#999" }}>Nothing archived yet.</Caption1>}
+          <ul style={{ listStyle: "none", paddingLeft: 0, margin: 0, color: "white", fontSize: "0.8rem" }}>
+            {entries.slice(0, SHOWN).map((e) => (
+              <li key={e.id} style={{ display: "flex", gap: 6, marginBottom: 3 }}>
+                <span style={{ color: "#999", whiteSpace: "nowrap" }}>{formatDate(new Date(e.at), "MM-dd HH:mm")}</span>
+                <Tooltip
+                  content={e.error || [e.libraryLabel, e.folderPath].filter(Boolean).join("/") || e.driveId}
+                  relationship="description"
+                >
+                  <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    {e.webUrl ? (
+                      <a href={e.webUrl} target="_blank" rel="noreferrer" style={{ color: "white" }}>
+                        {e.subject || e.fileName || "Email"}
+                      </a>
+                    ) : (
+                      e.subject || e.fileName || "Email"
+                    )}
+                  </span>
+                </Tooltip>
+                <span style={{ color: e.outcome === "failed" ? "#ff6b6b" : darkOrange, whiteSpace: "nowrap" }}>
+                  {OUTCOME_LABEL[e.outcome]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </Card>
+  );
+}
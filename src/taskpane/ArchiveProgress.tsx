@@ -0,0 +1,97 @@
+// src/taskpane/ArchiveProgress.tsx
+import * as React from "react";
+import { Button, Caption1, ProgressBar, Tooltip } from "@fluentui/react-components";
+import { getJobProgress, ArchiveJob, ArchiveItemState, ArchiveOutcome } from "../archiveQueue";
+import { formatBytes } from "../format";
+
+const darkOrange = "#FF8C00";
+
+const STATE_LABEL: Record<ArchiveItemState, string> = {
+  pending: "Queued",
+  downloading: "Downloading",
+  uploading: "Uploading",
+  patching: "Saving metadata",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const OUTCOME_LABEL: Partial<Record<ArchiveOutcome, string>> = {
+  skipped: "Already archived",
+  replaced: "Replaced",
+  metadataUpdated: "Metadata updated",
+};
+
+interface Props {
+  job: ArchiveJob;
+  running: boolean;
+  onCancel: () => void;
+}
+
+/**
+ * Overall + per-item progress for the archive job currently running.
+ */
+export default function ArchiveProgress({ job, running, onCancel }: Props) {
+  const p = getJobProgress(job);
+  const finished = p.done + p.failed + p.cancelled;
+  const overall = p.bytesTotal ? p.bytesUploaded / p.bytesTotal : finished / Math.max(1, p.total);
+
+  return (
+    <div style={{ marginBottom: "0.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <Caption1 style={{ color: "#fff" }}>
+          {finished} of {p.total} processed
+          {p.bytesTotal ? ` · ${formatBytes(p.bytesUploaded)} / ${formatBytes(p.bytesTotal)}` : ""}
+        </Caption1>
+        {running && (
+          <Button size="small" appearance="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+      <ProgressBar value={overall} thickness="large" color={p.failed ? "error" : "brand"} style={{ margin: "4px 0" }} />
+
+      {p.total > 1 && (
+        <div className="scroll-section" style={{ maxHeight: 140 }}>
+          <ul style={{ listStyle: "none", paddingLeft: 0, margin: 0, color: "white", fontSize: "0.8rem" }}>
+            {job.items.map((item) => {
+              const total = item.bytesTotal || 0;
+              const value =
+                item.state === "done"
+                  ? 1
+                  : item.state === "uploading" && total
+                    ? (item.bytesUploaded || 0) / total
+                    : item.state === "downloading" && total
+                      ? (item.bytesDownloaded || 0) / total
+                      : undefined;
+              return (
+                <li key={item.restId} style={{ marginBottom: 4 }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 6 }}>
+                    <Tooltip
+                      content={item.error || (item.postActionError && `Mailbox actions failed: ${item.postActionError}`) || item.fileName || item.restId}
+                      relationship="description"
+                    >
+                      <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", flex: 1 }}>
+                        {item.subject || item.fileName || "Email"}
+                      </span>
+                    </Tooltip>
+                    <span style={{ color: item.state === "failed" ? "#ff6b6b" : darkOrange }}>
+                      {(item.state === "done" && item.outcome && OUTCOME_LABEL[item.outcome]) || STATE_LABEL[item.state]}
+                    </span>
+                  </div>
+                  {item.state !== "pending" && item.state !== "cancelled" && (
+                    <ProgressBar
+                      value={value}
+                      thickness="medium"
+                      color={item.state === "failed" ? "error" : item.state === "done" ? "success" : "brand"}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
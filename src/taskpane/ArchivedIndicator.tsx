@@ -0,0 +1,49 @@
+// src/taskpane/ArchivedIndicator.tsx
+import * as React from "react";
+import { Caption1, Spinner, Tooltip } from "@fluentui/react-components";
+import { ArchivedLocation } from "../archivedLocations";
+import { formatDate } from "../fileNaming";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  locations: ArchivedLocation[];
+  checking: boolean;
+}
+
+/**
+ * "Already archived" links for the open email: where it's filed, when and
+ * by whom.
+ */
+export default function ArchivedIndicator({ locations, checking }: Props) {
+  if (!locations.length && !checking) return null;
+
+  return (
+    <div style={{ marginTop: "0.25rem" }}>
+      <span style={{ color: darkOrange, fontSize: "0.8rem", display: "flex", alignItems: "center", gap: 4 }}>
+        {locations.length ? "Already archived:" : "Checking archive…"}
+        {checking && <Spinner size="extra-tiny" />}
+      </span>
+      <ul style={{ listStyle: "none", paddingLeft: 0, margin: 0, fontSize: "0.8rem" }}>
+        {locations.map((l) => {
+          const where = [l.libraryLabel, l.folderPath].filter(Boolean).join("/");
+          const when = l.archivedAt ? formatDate(new Date(l.archivedAt), "yyyy-MM-dd") : "";
+          return (
+            <li key={l.webUrl} style={{ marginBottom: 2 }}>
+              <Tooltip content={l.name} relationship="description">
+                <a href={l.webUrl} target="_blank" rel="noreferrer" style={{ color: "white", wordBreak: "break-word" }}>
+                  {where || l.name}
+                </a>
+              </Tooltip>
+              {(when || l.archivedBy) && (
+                <Caption1 style={{ color: "#999", display: "block" }}>
+                  {[when, l.archivedBy && `by ${l.archivedBy}`].filter(Boolean).join(" ")}
+                </Caption1>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
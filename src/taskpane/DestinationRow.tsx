@@ -0,0 +1,45 @@
+// src/taskpane/DestinationRow.tsx
+import * as React from "react";
+import { Caption1, Tooltip } from "@fluentui/react-components";
+import { CloudArrowUpIcon } from "@heroicons/react/24/solid";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  label: string;
+  tooltip: string;
+  detail?: string;
+  disabled?: boolean;
+  onArchive: () => void;
+}
+
+/** One archive target: label (+ detail) and an archive button. */
+const DestinationRow: React.FC<Props> = (props) => {
+  return (
+    <li style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 4 }}>
+      <Tooltip content={props.tooltip} relationship="description">
+        <span style={{ overflow: "hidden", flex: 1 }}>
+          <span style={{ display: "block", textOverflow: "ellipsis", overflow: "hidden", whiteSpace: "nowrap" }}>
+            {props.label}
+          </span>
+          {props.detail && <Caption1 style={{ color: "#999", display: "block" }}>{props.detail}</Caption1>}
+        </span>
+      </Tooltip>
+      <Tooltip content="Archive selected email(s) here" relationship="description">
+        <CloudArrowUpIcon
+          onClick={() => !props.disabled && props.onArchive()}
+          style={{
+            width: 18,
+            height: 18,
+            flexShrink: 0,
+            cursor: props.disabled ? "default" : "pointer",
+            color: darkOrange,
+            opacity: props.disabled ? 0.4 : 1,
+          }}
+        />
+      </Tooltip>
+    </li>
+  );
+};
+
+export default DestinationRow;
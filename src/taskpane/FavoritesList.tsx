@@ -0,0 +1,210 @@
+// src/taskpane/FavoritesList.tsx
+import * as React from "react";
+import { useState } from "react";
+import { Button, Caption1, Combobox, Input, Option, Tooltip } from "@fluentui/react-components";
+import { StarIcon, CloudArrowUpIcon, PencilSquareIcon } from "@heroicons/react/24/solid";
+import { favoriteGroups, favoriteLabel, moveFavorite, FavoriteFolder } from "../favoritesStore";
+
+const darkOrange = "#FF8C00";
+const yellowStar = "#FFD700";
+
+interface Props {
+  favorites: FavoriteFolder[];
+  /** Highlighted favorite (folder id) */
+  selectedId?: string;
+  /** Library name for a drive, for the full path on hover */
+  libraryLabel?: (driveId: string) => string | undefined;
+  onSelect?: (fav: FavoriteFolder) => void;
+  onArchive?: (fav: FavoriteFolder) => void;
+  /** Archive actions are off (e.g. while a job runs) */
+  archiveDisabled?: boolean;
+  onRemove?: (fav: FavoriteFolder) => void;
+  /** Enables renaming, grouping and drag-to-reorder */
+  onChange?: (next: FavoriteFolder[]) => void;
+}
+
+const keyOf = (fav: FavoriteFolder) => `${fav.driveId}:${fav.id}`;
+
+/**
+ * Favorite folders, shared by the task pane and the bulk archive dialog.
+ * Which actions show depends on the handlers passed.
+ */
+export default function FavoritesList({
+  favorites,
+  selectedId,
+  libraryLabel,
+  onSelect,
+  onArchive,
+  archiveDisabled,
+  onRemove,
+  onChange,
+}: Props) {
+  const [dragging, setDragging] = useState<FavoriteFolder | null>(null);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editLabel, setEditLabel] = useState("");
+  const [editGroup, setEditGroup] = useState("");
+
+  const groups = favoriteGroups(favorites);
+  const sections: Array<{ group: string; items: FavoriteFolder[] }> = [
+    { group: "", items: favorites.filter((f) => !f.group) },
+    ...groups.map((group) => ({ group, items: favorites.filter((f) => f.group === group) })),
+  ];
+
+  const drop = (target: FavoriteFolder | null, group: string) => {
+    if (dragging && onChange) onChange(moveFavorite(favorites, dragging, target, group));
+    setDragging(null);
+  };
+
+  const dropTarget = (target: FavoriteFolder | null, group: string) =>
+    onChange
+      ? {
+          onDragOver: (e: React.DragEvent) => dragging && e.preventDefault(),
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            drop(target, group);
+          },
+        }
+      : {};
+
+  const startEdit = (fav: FavoriteFolder) => {
+    setEditingKey(keyOf(fav));
+    setEditLabel(favoriteLabel(fav));
+    setEditGroup(fav.group || "");
+  };
+
+  const saveEdit = (fav: FavoriteFolder) => {
+    const label = editLabel.trim();
+    const group = editGroup.trim();
+    const edited: FavoriteFolder = { ...fav, label: label && label !== fav.name ? label : undefined, group: group || undefined };
+    // Changing group moves it to the end of that group
+    const next =
+      (edited.group || "") === (fav.group || "")
+        ? favorites.map((f) => (keyOf(f) === keyOf(fav) ? edited : f))
+        : moveFavorite(favorites, edited, null, edited.group);
+    onChange?.(next);
+    setEditingKey(null);
+  };
+
+  const fullPath = (fav: FavoriteFolder) => [libraryLabel?.(fav.driveId) || "Library", fav.path].filter(Boolean).join("/");
+
+  const renderEditor = (fav: FavoriteFolder) => (
+    <li key={keyOf(fav)} style={{ display: "flex", flexDirection: "column", gap: 4, marginBottom: 6 }}>
+      <Input size="small" value={editLabel} placeholder={fav.name} onChange={(_, d) => setEditLabel(d.value)} />
+      <Combobox
+        size="small"
+        freeform
+        placeholder="Group (optional)"
+        value={editGroup}
+        onChange={(e) => setEditGroup((e.target as HTMLInputElement).value)}
+        onOptionSelect={(_, d) => setEditGroup(d.optionValue || "")}
+      >
+        {groups.map((g) => (
+          <Option key={g} value={g}>
+            {g}
+          </Option>
+        ))}
+      </Combobox>
+      <div style={{ display: "flex", gap: 6 }}>
+        <Button size="small" appearance="primary" onClick={() => saveEdit(fav)}>
+          Save
+        </Button>
+        <Button size="small" onClick={() => setEditingKey(null)}>
+          Cancel
+        </Button>
+      </div>
+    </li>
+  );
+
+  const renderItem = (fav: FavoriteFolder) => {
+    if (editingKey === keyOf(fav)) return renderEditor(fav);
+    return (
+      <li
+        key={keyOf(fav)}
+        draggable={!!onChange}
+        onDragStart={() => setDragging(fav)}
+        onDragEnd={() => setDragging(null)}
+        {...dropTarget(fav, fav.group || "")}
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 4,
+          opacity: dragging && keyOf(dragging) === keyOf(fav) ? 0.4 : 1,
+          cursor: onChange ? "grab" : undefined,
+        }}
+      >
+        <Tooltip content={fullPath(fav)} relationship="description">
+          <span
+            onClick={() => onSelect?.(fav)}
+            style={{
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap",
+              flex: 1,
+              cursor: onSelect ? "pointer" : "default",
+              color: fav.id === selectedId ? darkOrange : undefined,
+              fontWeight: fav.id === selectedId ? 700 : undefined,
+            }}
+          >
+            {favoriteLabel(fav)}
+          </span>
+        </Tooltip>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          {onArchive && (
+            <Tooltip content="Archive selected email(s) to this favorite" relationship="description">
+              <CloudArrowUpIcon
+                onClick={() => !archiveDisabled && onArchive(fav)}
+                style={{
+                  width: 18,
+                  height: 18,
+                  cursor: archiveDisabled ? "default" : "pointer",
+                  color: darkOrange,
+                  opacity: archiveDisabled ? 0.4 : 1,
+                }}
+              />
+            </Tooltip>
+          )}
+          {onChange && (
+            <Tooltip content="Rename or group" relationship="description">
+              <PencilSquareIcon
+                onClick={() => startEdit(fav)}
+                style={{ width: 18, height: 18, cursor: "pointer", color: "#bbb" }}
+              />
+            </Tooltip>
+          )}
+          {onRemove && (
+            <Tooltip content="Remove favorite" relationship="description">
+              <StarIcon
+                onClick={() => onRemove(fav)}
+                style={{ width: 18, height: 18, cursor: "pointer", color: yellowStar }}
+              />
+            </Tooltip>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <ul style={{ color: "white", paddingLeft: "1rem", listStyle: "none", marginTop: "0.4rem", marginBottom: 0 }}>
+      {favorites.length === 0 && <li>No favorites yet</li>}
+      {sections.map(({ group, items }) =>
+        // Ungrouped only gets a heading (as a drop target) once groups exist
+        !group && !groups.length ? (
+          <React.Fragment key="group:">{items.map(renderItem)}</React.Fragment>
+        ) : (
+          <React.Fragment key={`group:${group}`}>
+            {(group || dragging) && (
+              <li {...dropTarget(null, group)} style={{ marginTop: 6, marginBottom: 2 }}>
+                <Caption1 style={{ color: "#999", fontWeight: 600 }}>{group || "Ungrouped"}</Caption1>
+              </li>
+            )}
+            {items.map(renderItem)}
+          </React.Fragment>
+        )
+      )}
+    </ul>
+  );
+}
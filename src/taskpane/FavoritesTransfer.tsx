@@ -0,0 +1,66 @@
+// src/taskpane/FavoritesTransfer.tsx
+import * as React from "react";
+import { useRef } from "react";
+import { Button, Tooltip } from "@fluentui/react-components";
+import { exportFavorites, parseFavoritesImport, FavoriteFolder } from "../favoritesStore";
+import { formatDate } from "../fileNaming";
+
+interface Props {
+  favorites: FavoriteFolder[];
+  /** Favorites read from a file (not yet merged) */
+  onImport: (imported: FavoriteFolder[]) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Export favorites to a JSON file, or import a colleague's export.
+ */
+export default function FavoritesTransfer({ favorites, onImport, onError }: Props) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const exportJson = () => {
+    const blob = new Blob([exportFavorites(favorites)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `flowpoint-favorites-${formatDate(new Date(), "yyyy-MM-dd")}.json`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      onImport(parseFavoritesImport(await file.text()));
+    } catch (e: any) {
+      onError(e?.message || String(e));
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+      <Tooltip content="Save your favorites as a JSON file to share" relationship="description">
+        <Button size="small" appearance="secondary" disabled={!favorites.length} onClick={exportJson}>
+          Export
+        </Button>
+      </Tooltip>
+      <Tooltip content="Add favorites from an exported JSON file" relationship="description">
+        <Button size="small" appearance="secondary" onClick={() => fileInput.current?.click()}>
+          Import
+        </Button>
+      </Tooltip>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void importFile(file);
+        }}
+      />
+    </div>
+  );
+}
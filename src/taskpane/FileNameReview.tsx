@@ -0,0 +1,83 @@
+// src/taskpane/FileNameReview.tsx
+import * as React from "react";
+import { Button, Caption1, Input, Tooltip } from "@fluentui/react-components";
+import { SizeWarning } from "../messageLimits";
+
+export interface PendingFileName {
+  restId: string;
+  subject?: string;
+  name: string;
+  /** Pre-flight size check (see messageLimits) */
+  sizeWarning?: SizeWarning;
+}
+
+interface Props {
+  items: PendingFileName[];
+  /** e.g. ".eml" or ".eml + .pdf", shown after each name */
+  extensionLabel: string;
+  destination: string;
+  onChange: (restId: string, name: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  /** Upload is off (e.g. while another job runs) */
+  disabled?: boolean;
+}
+
+/**
+ * Proposed file names (from the template) that the user can tweak
+ * before the archive job starts, with a note under any oversized email.
+ */
+export default function FileNameReview({
+  items,
+  extensionLabel,
+  destination,
+  onChange,
+  onConfirm,
+  onCancel,
+  disabled,
+}: Props) {
+  return (
+    <div style={{ marginBottom: "0.5rem" }}>
+      <Caption1 style={{ color: "#fff" }}>
+        Save {items.length > 1 ? `${items.length} emails` : "email"} to {destination || "library root"} as:
+      </Caption1>
+      <div className="scroll-section" style={{ maxHeight: 180, margin: "4px 0" }}>
+        {items.map((item) => (
+          <div key={item.restId} style={{ marginBottom: 4 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <Tooltip content={item.subject || item.name} relationship="description">
+                <Input
+                  size="small"
+                  value={item.name}
+                  onChange={(_, data) => onChange(item.restId, data.value)}
+                  style={{ flex: 1, minWidth: 0 }}
+                />
+              </Tooltip>
+              <Caption1 style={{ color: "#999", whiteSpace: "nowrap" }}>{extensionLabel}</Caption1>
+            </div>
+            {item.sizeWarning && (
+              <Caption1
+                style={{ display: "block", color: item.sizeWarning.level === "error" ? "#ff6b6b" : "#FF8C00" }}
+              >
+                {item.sizeWarning.level === "error" ? "⛔" : "⚠️"} {item.sizeWarning.message}
+              </Caption1>
+            )}
+          </div>
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: 6 }}>
+        <Button
+          size="small"
+          appearance="primary"
+          onClick={onConfirm}
+          disabled={disabled || items.some((i) => !i.name.trim())}
+        >
+          Upload
+        </Button>
+        <Button size="small" appearance="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
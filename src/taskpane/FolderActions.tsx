@@ -0,0 +1,166 @@
+// src/taskpane/FolderActions.tsx
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { Button, Caption1, Combobox, Input, Option, Tooltip } from "@fluentui/react-components";
+import {
+  createFolder,
+  ensureFolderPath,
+  instantiateFolderTemplate,
+  loadFolderTemplates,
+  FolderTemplate,
+} from "../driveFolders";
+import { TokenSource } from "../graphClient";
+
+type Mode = "none" | "folder" | "path" | "template";
+
+interface Props {
+  token: TokenSource;
+  siteId: string;
+  driveId: string;
+  /** Library label, to filter folder templates */
+  libraryLabel?: string;
+  /** Current folder (id "root" at the top) and its path */
+  parentId: string;
+  parentPath: string;
+  disabled?: boolean;
+  /** Something was created under the current folder */
+  onCreated: () => void;
+  /** Archive to a path (relative to the library root) once it exists */
+  onArchiveToPath: (path: string) => void;
+  onStatus: (text: string) => void;
+}
+
+/**
+ * New folder / archive-to-path / folder template actions for the folder
+ * browser's current location.
+ */
+export default function FolderActions(props: Props) {
+  const { token, siteId, driveId, parentId, parentPath, disabled, onStatus } = props;
+  const [mode, setMode] = useState<Mode>("none");
+  const [value, setValue] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [templates, setTemplates] = useState<FolderTemplate[]>([]);
+  const [template, setTemplate] = useState<FolderTemplate | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    loadFolderTemplates(token)
+      .then((all) => setTemplates(all.filter((t) => !t.Library || t.Library === props.libraryLabel)))
+      .catch((e) => console.warn("Could not load folder templates:", e));
+  }, [token, props.libraryLabel]);
+
+  const toggle = (next: Mode) => {
+    setMode(mode === next ? "none" : next);
+    setValue("");
+  };
+
+  // "/a/b" is from the library root, "a/b" from the current folder
+  const resolvePath = (typed: string) =>
+    typed.trim().charAt(0) === "/" ? typed : [parentPath, typed].filter(Boolean).join("/");
+
+  const run = async () => {
+    if (!value.trim()) return;
+    setBusy(true);
+    try {
+      if (mode === "folder") {
+        const folder = await createFolder(token, siteId, driveId, parentId, value.trim());
+        onStatus(`Created folder "${folder.name}".`);
+        props.onCreated();
+      } else if (mode === "path") {
+        onStatus("Preparing folders…");
+        const { path } = await ensureFolderPath(token, siteId, driveId, resolvePath(value));
+        props.onCreated();
+        props.onArchiveToPath(path);
+      } else if (mode === "template" && template) {
+        const root = await instantiateFolderTemplate(
+          token,
+          siteId,
+          driveId,
+          parentPath,
+          value.trim(),
+          template,
+          (done, total) => onStatus(`Creating folders… ${done}/${total}`)
+        );
+        onStatus(`Created "${root}" from ${template.Title}.`);
+        props.onCreated();
+      }
+      setMode("none");
+      setValue("");
+    } catch (err: any) {
+      console.error("Folder action failed:", err);
+      onStatus(err?.status === 409 ? "A file or folder with that name already exists." : `Failed: ${err?.message || err}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const placeholder =
+    mode === "folder" ? "Folder name" : mode === "path" ? "Clients/Acme/2026/Correspondence" : "Project folder name";
+
+  return (
+    <div style={{ marginBottom: 6 }}>
+      <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+        <Button size="small" appearance={mode === "folder" ? "primary" : "secondary"} disabled={disabled} onClick={() => toggle("folder")}>
+          New folder
+        </Button>
+        <Tooltip
+          content="Archive to a path, creating missing folders. Start with / to begin at the library root."
+          relationship="description"
+        >
+          <Button size="small" appearance={mode === "path" ? "primary" : "secondary"} disabled={disabled} onClick={() => toggle("path")}>
+            Archive to path
+          </Button>
+        </Tooltip>
+        {templates.length > 0 && (
+          <Button
+            size="small"
+            appearance={mode === "template" ? "primary" : "secondary"}
+            disabled={disabled}
+            onClick={() => toggle("template")}
+          >
+            From template
+          </Button>
+        )}
+      </div>
+
+      {mode !== "none" && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 4, marginTop: 4 }}>
+          {mode === "template" && (
+            <Combobox
+              size="small"
+              placeholder="Choose a folder template"
+              value={template?.Title || ""}
+              selectedOptions={template ? [template.id] : []}
+              onOptionSelect={(_, data) => setTemplate(templates.find((t) => t.id === data.optionValue) || null)}
+            >
+              {templates.map((t) => (
+                <Option key={t.id} value={t.id} text={t.Title}>
+                  {t.Title} ({t.Folders.length} folders)
+                </Option>
+              ))}
+            </Combobox>
+          )}
+          <div style={{ display: "flex", gap: 4 }}>
+            <Input
+              size="small"
+              value={value}
+              placeholder={placeholder}
+              style={{ flex: 1 }}
+              onChange={(_, data) => setValue(data.value)}
+              onKeyDown={(e) => e.key === "Enter" && void run()}
+            />
+            <Button
+              size="small"
+              appearance="primary"
+              disabled={busy || !value.trim() || (mode === "template" && !template)}
+              onClick={() => void run()}
+            >
+              {mode === "path" ? "Archive" : "Create"}
+            </Button>
+          </div>
+          <Caption1 style={{ color: "#999" }}>in /{parentPath}</Caption1>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// src/taskpane/FolderBreadcrumb.tsx
+import * as React from "react";
+import { Breadcrumb, BreadcrumbButton, BreadcrumbDivider, BreadcrumbItem } from "@fluentui/react-components";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  /** Library name shown as the first crumb */
+  rootLabel: string;
+  /** Folder names below the root */
+  segments: string[];
+  /** depth 0 = library root, n = the first n segments */
+  onNavigate?: (depth: number) => void;
+}
+
+/**
+ * Library / folder / folder… with every crumb clickable (used by the task
+ * pane's folder browser and the bulk archive dialog).
+ */
+export default function FolderBreadcrumb({ rootLabel, segments, onNavigate }: Props) {
+  const crumbs = [rootLabel, ...segments];
+  return (
+    <Breadcrumb size="small" aria-label="Folder path" style={{ flexWrap: "wrap" }}>
+      {crumbs.map((name, depth) => {
+        const current = depth === crumbs.length - 1;
+        return (
+          <React.Fragment key={`${depth}:${name}`}>
+            <BreadcrumbItem>
+              <BreadcrumbButton
+                current={current}
+                disabled={!onNavigate}
+                onClick={() => !current && onNavigate?.(depth)}
+                style={{ color: current ? darkOrange : "white", fontWeight: current ? 700 : 400 }}
+              >
+                {name}
+              </BreadcrumbButton>
+            </BreadcrumbItem>
+            {!current && <BreadcrumbDivider style={{ color: "#999" }} />}
+          </React.Fragment>
+        );
+      })}
+    </Breadcrumb>
+  );
+}
@@ -0,0 +1,187 @@
+// src/taskpane/FolderTreePicker.tsx
+import * as React from "react";
+import { useEffect, useRef, useState } from "react";
+import {
+  Caption1,
+  Input,
+  Spinner,
+  Tree,
+  TreeItem,
+  TreeItemLayout,
+  TreeItemValue,
+} from "@fluentui/react-components";
+import { listChildFolders, searchFolders, FolderNode } from "../driveFolders";
+import { TokenSource } from "../graphClient";
+
+const darkOrange = "#FF8C00";
+const SEARCH_DELAY_MS = 350;
+
+interface Props {
+  token: TokenSource;
+  driveId: string;
+  /** Library name, shown for the root */
+  rootLabel: string;
+  selected: FolderNode | null;
+  onSelect: (folder: FolderNode) => void;
+}
+
+/**
+ * Folder picker that loads one level at a time as branches are expanded,
+ * with server-side search across the whole library. Selections carry both
+ * the folder id and its path.
+ */
+export default function FolderTreePicker({ token, driveId, rootLabel, selected, onSelect }: Props) {
+  const root: FolderNode = { driveId, id: "root", name: rootLabel, path: "" };
+  const [children, setChildren] = useState<Record<string, FolderNode[]>>({});
+  const [loadingIds, setLoadingIds] = useState<string[]>([]);
+  const [openItems, setOpenItems] = useState<TreeItemValue[]>(["root"]);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<FolderNode[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState("");
+  const searchAbort = useRef<AbortController | null>(null);
+
+  const load = async (node: FolderNode) => {
+    if (children[node.id] || loadingIds.indexOf(node.id) >= 0) return;
+    setLoadingIds((ids) => [...ids, node.id]);
+    try {
+      const folders = await listChildFolders(token, driveId, node);
+      setChildren((c) => ({ ...c, [node.id]: folders }));
+    } catch (e: any) {
+      console.error("Error loading folders:", e);
+      setError(`Couldn't load ${node.path || rootLabel}: ${e?.message || e}`);
+    } finally {
+      setLoadingIds((ids) => ids.filter((id) => id !== node.id));
+    }
+  };
+
+  // New library: start over from its root
+  useEffect(() => {
+    setChildren({});
+    setOpenItems(["root"]);
+    setQuery("");
+    setResults(null);
+    setError("");
+    if (!driveId) return;
+    setLoadingIds(["root"]);
+    (async () => {
+      try {
+        setChildren({ root: await listChildFolders(token, driveId, root) });
+      } catch (e: any) {
+        setError(`Couldn't load ${rootLabel}: ${e?.message || e}`);
+      } finally {
+        setLoadingIds([]);
+      }
+    })();
+  }, [driveId]);
+
+  // Debounced server-side search
+  useEffect(() => {
+    searchAbort.current?.abort();
+    const term = query.trim();
+    if (term.length < 2) {
+      setResults(null);
+      setSearching(false);
+      return;
+    }
+    const controller = new AbortController();
+    searchAbort.current = controller;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await searchFolders(token, driveId, term, controller.signal);
+        if (!controller.signal.aborted) setResults(found);
+      } catch (e: any) {
+        if (e?.name !== "AbortError") setError(`Search failed: ${e?.message || e}`);
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, driveId]);
+
+  const isSelected = (node: FolderNode) => selected?.driveId === driveId && selected.id === node.id;
+
+  const label = (node: FolderNode, text: string) => (
+    <span
+      style={{
+        color: isSelected(node) ? darkOrange : "white",
+        fontWeight: isSelected(node) ? 700 : 400,
+      }}
+    >
+      {text}
+    </span>
+  );
+
+  const renderNode = (node: FolderNode): React.ReactNode => {
+    const kids = children[node.id];
+    const isLeaf = node.childCount === 0 || (kids && !kids.length);
+    return (
+      <TreeItem key={node.id} value={node.id} itemType={isLeaf ? "leaf" : "branch"}>
+        <TreeItemLayout
+          onClick={() => onSelect(node)}
+          aside={loadingIds.indexOf(node.id) >= 0 ? <Spinner size="extra-tiny" /> : undefined}
+        >
+          {label(node, node.id === "root" ? `${rootLabel} (library root)` : node.name)}
+        </TreeItemLayout>
+        {!isLeaf && <Tree>{(kids || []).map(renderNode)}</Tree>}
+      </TreeItem>
+    );
+  };
+
+  const findNode = (id: TreeItemValue): FolderNode | undefined => {
+    if (id === "root") return root;
+    for (const key of Object.keys(children)) {
+      const hit = children[key].find((n) => n.id === id);
+      if (hit) return hit;
+    }
+    return undefined;
+  };
+
+  return (
+    <div>
+      <Input
+        size="small"
+        placeholder="Search folders in this library…"
+        value={query}
+        disabled={!driveId}
+        onChange={(_, data) => setQuery(data.value)}
+        contentAfter={searching ? <Spinner size="extra-tiny" /> : undefined}
+        style={{ width: "100%", marginBottom: 4 }}
+      />
+      {error && <Caption1 style={{ color: "#ff6b6b", display: "block" }}>{error}</Caption1>}
+
+      <div className="scroll-section" style={{ maxHeight: 260, overflowY: "auto" }}>
+        {results ? (
+          <ul style={{ listStyle: "none", paddingLeft: 0, margin: 0, fontSize: "0.85rem" }}>
+            {!results.length && !searching && <li style={{ color: "#999" }}>No folders match "{query.trim()}".</li>}
+            {results.map((node) => (
+              <li key={node.id} onClick={() => onSelect(node)} style={{ cursor: "pointer", marginBottom: 3 }}>
+                {label(node, node.name)}
+                <Caption1 style={{ color: "#999", display: "block" }}>{node.path}</Caption1>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          driveId && (
+            <Tree
+              aria-label="Folders"
+              size="small"
+              openItems={openItems}
+              onOpenChange={(_, data) => {
+                setOpenItems(Array.from(data.openItems));
+                const node = data.open ? findNode(data.value) : undefined;
+                if (node) void load(node);
+              }}
+            >
+              {renderNode(root)}
+            </Tree>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
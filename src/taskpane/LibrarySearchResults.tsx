@@ -0,0 +1,68 @@
+// src/taskpane/LibrarySearchResults.tsx
+import * as React from "react";
+import { Caption1, Spinner, Tooltip } from "@fluentui/react-components";
+import { CloudArrowUpIcon } from "@heroicons/react/24/solid";
+import { hitFolderPath, DriveSearchHit } from "../driveFolders";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  hits: DriveSearchHit[];
+  searching: boolean;
+  error?: string;
+  /** Library name for a drive (for cross-library results) */
+  libraryLabel?: (driveId: string) => string | undefined;
+  onOpen: (hit: DriveSearchHit) => void;
+  onArchive: (hit: DriveSearchHit) => void;
+  /** Archive actions are off (e.g. while a job runs) */
+  disabled?: boolean;
+}
+
+/**
+ * Library-wide search results: click to open the folder in the browser,
+ * or archive straight into a found folder.
+ */
+export default function LibrarySearchResults({ hits, searching, error, libraryLabel, onOpen, onArchive, disabled }: Props) {
+  return (
+    <div className="scroll-section library-scroll">
+      {searching && <Spinner size="tiny" label="Searching…" />}
+      {error && <Caption1 style={{ color: "#ff6b6b" }}>{error}</Caption1>}
+      {!searching && !error && !hits.length && <Caption1 style={{ color: "#bbb" }}>No matches.</Caption1>}
+      <ul style={{ color: "white", paddingLeft: "1rem", listStyle: "none", marginBottom: 0 }}>
+        {hits.map((hit) => {
+          const where = [libraryLabel?.(hit.driveId), hit.parentPath].filter(Boolean).join("/");
+          return (
+            <li
+              key={`${hit.driveId}:${hit.id}`}
+              style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 4 }}
+            >
+              <Tooltip content={hit.isFolder ? "Open this folder" : "Open the folder containing this file"} relationship="description">
+                <span onClick={() => onOpen(hit)} style={{ flex: 1, overflow: "hidden", cursor: "pointer" }}>
+                  <span style={{ display: "block", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    {hit.isFolder ? `📁 ${hit.name}` : `📄 ${hit.name}`}
+                  </span>
+                  <Caption1 style={{ color: "#999", display: "block" }}>{where || "(library root)"}</Caption1>
+                </span>
+              </Tooltip>
+              {hit.isFolder && (
+                <Tooltip content={`Archive selected email(s) to ${hitFolderPath(hit)}`} relationship="description">
+                  <CloudArrowUpIcon
+                    onClick={() => !disabled && onArchive(hit)}
+                    style={{
+                      width: 18,
+                      height: 18,
+                      flexShrink: 0,
+                      cursor: disabled ? "default" : "pointer",
+                      color: darkOrange,
+                      opacity: disabled ? 0.4 : 1,
+                    }}
+                  />
+                </Tooltip>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+// src/taskpane/PostArchiveSettings.tsx
+import * as React from "react";
+import { useState } from "react";
+import { Button, Caption1, Card, Checkbox, Combobox, Option, Spinner } from "@fluentui/react-components";
+import {
+  filedCategoryName,
+  listMailFolders,
+  MailFolderOption,
+  PostArchiveActions,
+  NO_POST_ARCHIVE_ACTIONS,
+} from "../mailActions";
+import { loadSettings, saveSettings } from "../settings";
+import { TokenSource } from "../graphClient";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  token: TokenSource;
+  /** Defaults from the selected library's mapping, if it sets any */
+  libraryDefault?: PostArchiveActions;
+  libraryLabel?: string;
+}
+
+/**
+ * Per-user settings for what happens to the original email after it's
+ * archived. Until the user customises them, the library's defaults apply.
+ */
+export default function PostArchiveSettings({ token, libraryDefault, libraryLabel }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [override, setOverride] = useState<PostArchiveActions | null>(() => loadSettings().postArchiveActions);
+  const [folders, setFolders] = useState<MailFolderOption[] | null>(null);
+  const [foldersLoading, setFoldersLoading] = useState(false);
+
+  const usingDefault = override === null;
+  const actions = override || libraryDefault || NO_POST_ARCHIVE_ACTIONS;
+
+  const save = (next: PostArchiveActions | null) => setOverride(saveSettings({ postArchiveActions: next }).postArchiveActions);
+  const update = (patch: Partial<PostArchiveActions>) => save({ ...actions, ...patch });
+
+  const loadFolders = async () => {
+    if (folders || foldersLoading || !token) return;
+    try {
+      setFoldersLoading(true);
+      setFolders(await listMailFolders(token));
+    } catch (e) {
+      console.error("Failed to load mail folders:", e);
+      setFolders([]);
+    } finally {
+      setFoldersLoading(false);
+    }
+  };
+
+  return (
+    <Card style={{ padding: "0.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ color: darkOrange, fontWeight: "bold" }}>After archiving</h3>
+        <Button size="small" onClick={() => setCollapsed(!collapsed)}>
+          {collapsed ? "▼" : "▲"}
+        </Button>
+      </div>
+
+      {!collapsed && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+          <Checkbox
+            label={libraryDefault ? "Use the library's defaults" : "Use defaults (do nothing)"}
+            checked={usingDefault}
+            onChange={(_, data) => save(data.checked ? null : { ...actions })}
+          />
+          <Checkbox
+            label="Add category"
+            disabled={usingDefault}
+            checked={actions.categorize}
+            onChange={(_, data) => update({ categorize: !!data.checked })}
+          />
+          {actions.categorize && (
+            <Caption1 style={{ color: "#999", marginLeft: 28 }}>
+              e.g. “{filedCategoryName(libraryLabel || "Library", "Folder")}”
+            </Caption1>
+          )}
+          <Checkbox
+            label="Mark as read"
+            disabled={usingDefault}
+            checked={actions.markRead}
+            onChange={(_, data) => update({ markRead: !!data.checked })}
+          />
+          <Checkbox
+            label="Flag as complete"
+            disabled={usingDefault}
+            checked={actions.flagComplete}
+            onChange={(_, data) => update({ flagComplete: !!data.checked })}
+          />
+          <Checkbox
+            label="Delete (move to Deleted Items)"
+            disabled={usingDefault}
+            checked={actions.softDelete}
+            onChange={(_, data) => update({ softDelete: !!data.checked })}
+          />
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 4 }}>
+            <Caption1 style={{ color: "#bbb", whiteSpace: "nowrap" }}>Move to</Caption1>
+            <Combobox
+              size="small"
+              appearance="outline"
+              style={{ flex: 1, minWidth: 0 }}
+              disabled={usingDefault || actions.softDelete}
+              value={actions.moveToFolderName || "— Don't move —"}
+              selectedOptions={[actions.moveToFolderId || ""]}
+              onOpenChange={(_, data) => data.open && void loadFolders()}
+              onOptionSelect={(_, data) => {
+                const folder = (folders || []).find((f) => f.id === data.optionValue);
+                update({ moveToFolderId: folder?.id, moveToFolderName: folder?.path });
+              }}
+            >
+              <Option value="">— Don't move —</Option>
+              {(folders || []).map((f) => (
+                <Option key={f.id} value={f.id}>
+                  {f.path}
+                </Option>
+              ))}
+            </Combobox>
+            {foldersLoading && <Spinner size="tiny" />}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+// src/taskpane/RecentDestinations.tsx
+import * as React from "react";
+import { useState } from "react";
+import { Button, Card } from "@fluentui/react-components";
+import { RecentDestination } from "../auditLog";
+import { formatDate } from "../fileNaming";
+import DestinationRow from "./DestinationRow";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  recent: RecentDestination[];
+  /** Where the open email's sender was last filed */
+  senderLast: RecentDestination | null;
+  sender?: string;
+  disabled?: boolean;
+  onArchive: (destination: RecentDestination) => void;
+}
+
+const labelOf = (d: RecentDestination) => [d.libraryLabel, d.folderPath].filter(Boolean).join("/") || d.driveId;
+const keyOf = (d: RecentDestination) => `${d.driveId}|${d.folderPath.toLowerCase()}`;
+
+/**
+ * Recently used destinations from the archive history, with the sender's
+ * last destination on top.
+ */
+export default function RecentDestinations({ recent, senderLast, sender, disabled, onArchive }: Props) {
+  const [collapsed, setCollapsed] = useState(false);
+  const rest = senderLast ? recent.filter((d) => keyOf(d) !== keyOf(senderLast)) : recent;
+  if (!senderLast && !rest.length) return null;
+
+  return (
+    <Card style={{ padding: "0.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ color: darkOrange, fontWeight: "bold", margin: 0 }}>Recent destinations</h3>
+        <Button size="small" onClick={() => setCollapsed(!collapsed)}>
+          {collapsed ? "▼" : "▲"}
+        </Button>
+      </div>
+      {!collapsed && (
+        <ul style={{ color: "white", listStyle: "none", paddingLeft: "1rem", margin: "0.4rem 0 0" }}>
+          {senderLast && (
+            <DestinationRow
+              key={`sender:${keyOf(senderLast)}`}
+              label={labelOf(senderLast)}
+              tooltip={`Where you last filed mail from ${sender || "this sender"}`}
+              detail={`Last used for this sender · ${formatDate(new Date(senderLast.lastUsed), "yyyy-MM-dd")}`}
+              disabled={disabled}
+              onArchive={() => onArchive(senderLast)}
+            />
+          )}
+          {rest.map((d) => (
+            <DestinationRow
+              key={`recent:${keyOf(d)}`}
+              label={labelOf(d)}
+              tooltip={`Filed here ${d.count} time${d.count === 1 ? "" : "s"} recently`}
+              detail={formatDate(new Date(d.lastUsed), "yyyy-MM-dd")}
+              disabled={disabled}
+              onArchive={() => onArchive(d)}
+            />
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+// src/taskpane/SetupScreen.tsx
+import * as React from "react";
+import { Body1, Button, Caption1, Card, Title3 } from "@fluentui/react-components";
+import { ConfigError, CONFIG_FILE } from "../config";
+
+const darkOrange = "#FF8C00";
+
+const EXAMPLE = `{
+  "environment": "prod",
+  "auth": {
+    "clientId": "<app registration client id>",
+    "tenantId": "<tenant id or contoso.onmicrosoft.com>"
+  },
+  "mappings": {
+    "siteUrl": "https://contoso.sharepoint.com/sites/IT",
+    "listTitle": "Dialectic Flowpoint Mappings"
+  },
+  "environments": {
+    "dev": { "hosts": ["localhost:3000"] }
+  }
+}`;
+
+interface Props {
+  error: unknown;
+}
+
+/**
+ * Shown instead of the add-in when flowpoint.config.json is missing or
+ * incomplete, listing what an administrator needs to fix.
+ */
+export default function SetupScreen({ error }: Props) {
+  const problems = error instanceof ConfigError ? error.problems : [String((error as Error)?.message || error)];
+  const environment = error instanceof ConfigError ? error.environment : "";
+
+  return (
+    <div style={{ padding: "1rem" }}>
+      <Card style={{ padding: "1rem", display: "flex", flexDirection: "column", gap: 8 }}>
+        <Title3 style={{ color: darkOrange }}>Flowpoint needs to be set up</Title3>
+        <Body1>
+          The add-in couldn't load a valid <code>{CONFIG_FILE}</code>
+          {environment ? ` for the "${environment}" environment` : ""}. Ask your administrator to fix:
+        </Body1>
+        <ul style={{ margin: 0, paddingLeft: "1.2rem" }}>
+          {problems.map((p) => (
+            <li key={p}>
+              <Body1>{p}</Body1>
+            </li>
+          ))}
+        </ul>
+        <Caption1>
+          The file is deployed next to taskpane.html. A minimal example (overlays under "environments" are picked by{" "}
+          <code>?env=</code>, then by host):
+        </Caption1>
+        <pre style={{ fontSize: "0.75rem", overflowX: "auto", margin: 0, padding: 8, background: "rgba(127,127,127,0.12)" }}>
+          {EXAMPLE}
+        </pre>
+        <div>
+          <Button appearance="primary" onClick={() => location.reload()}>
+            Try again
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+// src/taskpane/SiteBrowser.tsx
+import * as React from "react";
+import { useEffect, useRef, useState } from "react";
+import { Button, Caption1, Input, Spinner, Tab, TabList, Tooltip } from "@fluentui/react-components";
+import { BookmarkIcon, TrashIcon } from "@heroicons/react/24/solid";
+import { TokenSource } from "../graphClient";
+import { LibraryProfile } from "../libraryProfiles";
+import {
+  getFollowedSites,
+  listHubAssociatedSites,
+  listHubSites,
+  listSiteLibraries,
+  searchSites,
+  LibrarySummary,
+  SiteSummary,
+} from "../siteDirectory";
+
+const darkOrange = "#FF8C00";
+const SEARCH_DELAY_MS = 350;
+
+type Mode = "search" | "followed" | "hubs";
+
+interface Props {
+  token: TokenSource;
+  /** Libraries the user already saved */
+  personal: LibraryProfile[];
+  /** Open a library in the folder browser */
+  onOpen: (library: LibraryProfile) => void;
+  onSave: (library: LibraryProfile) => void;
+  onRemove: (driveId: string) => void;
+}
+
+const toProfile = (site: SiteSummary, lib: LibrarySummary): LibraryProfile => ({
+  DepartmentOrGroup: "",
+  Label: `${site.displayName} / ${lib.name}`,
+  SiteUrl: site.webUrl,
+  DriveId: lib.id,
+  Personal: true,
+});
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  alignItems: "center",
+  gap: 8,
+  padding: "2px 0",
+};
+const linkStyle: React.CSSProperties = {
+  cursor: "pointer",
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+  flex: 1,
+};
+
+/**
+ * Browse SharePoint beyond the mapped libraries: search sites, pick from
+ * followed sites or a hub's sites, then open one of the site's libraries
+ * in the folder browser or save it as a personal destination.
+ */
+export default function SiteBrowser({ token, personal, onOpen, onSave, onRemove }: Props) {
+  const [mode, setMode] = useState<Mode>("search");
+  const [query, setQuery] = useState("");
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+  const [hub, setHub] = useState<SiteSummary | null>(null);
+  const [site, setSite] = useState<SiteSummary | null>(null);
+  const [libraries, setLibraries] = useState<LibrarySummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const request = useRef(0);
+
+  // Only the latest request may update the list
+  const load = async <T,>(fetch: () => Promise<T>, apply: (value: T) => void) => {
+    const id = ++request.current;
+    setLoading(true);
+    setError("");
+    try {
+      const value = await fetch();
+      if (id === request.current) apply(value);
+    } catch (e: any) {
+      if (id === request.current) setError(e?.message || String(e));
+    } finally {
+      if (id === request.current) setLoading(false);
+    }
+  };
+
+  // Site list for the current tab
+  useEffect(() => {
+    setSite(null);
+    if (mode === "followed") {
+      void load(() => getFollowedSites(token), setSites);
+    } else if (mode === "hubs") {
+      void load(() => (hub ? listHubAssociatedSites(token, hub) : listHubSites(token)), setSites);
+    } else {
+      const term = query.trim();
+      if (!term) {
+        request.current++;
+        setSites([]);
+        setLoading(false);
+        return;
+      }
+      const timer = setTimeout(() => void load(() => searchSites(token, term), setSites), SEARCH_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+  }, [mode, query, hub]);
+
+  function openSite(s: SiteSummary) {
+    if (mode === "hubs" && !hub) {
+      setHub(s);
+      return;
+    }
+    setSite(s);
+    setLibraries([]);
+    void load(() => listSiteLibraries(token, s.id), setLibraries);
+  }
+
+  function back() {
+    if (site) {
+      request.current++;
+      setSite(null);
+      setLoading(false);
+    } else setHub(null);
+  }
+
+  const saved = (driveId: string) => personal.some((p) => p.DriveId === driveId);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+      <TabList
+        size="small"
+        selectedValue={mode}
+        onTabSelect={(_, data) => {
+          setMode(data.value as Mode);
+          setHub(null);
+        }}
+      >
+        <Tab value="search">Search</Tab>
+        <Tab value="followed">Followed</Tab>
+        <Tab value="hubs">Hubs</Tab>
+      </TabList>
+
+      {mode === "search" && !site && (
+        <Input
+          size="small"
+          placeholder="Search sites…"
+          value={query}
+          onChange={(_, data) => setQuery(data.value)}
+        />
+      )}
+
+      {(site || hub) && (
+        <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          <Button size="small" appearance="subtle" onClick={back}>
+            ◀ Back
+          </Button>
+          <Caption1 style={{ color: "#bbb", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+            {[hub?.displayName, site?.displayName].filter(Boolean).join(" › ")}
+          </Caption1>
+        </div>
+      )}
+
+      {loading && <Spinner size="tiny" />}
+      {error && <Caption1 style={{ color: "#ff6b6b" }}>{error}</Caption1>}
+
+      <ul style={{ listStyle: "none", margin: 0, paddingLeft: "0.5rem", maxHeight: 220, overflowY: "auto", color: "white" }}>
+        {site
+          ? libraries.map((lib) => {
+              const profile = toProfile(site, lib);
+              return (
+                <li key={lib.id} style={rowStyle}>
+                  <Tooltip content={`Open ${profile.Label}`} relationship="description">
+                    <span style={linkStyle} onClick={() => onOpen(profile)}>
+                      📚 {lib.name}
+                    </span>
+                  </Tooltip>
+                  <Tooltip content={saved(lib.id) ? "Saved" : "Save as a personal destination"} relationship="description">
+                    <BookmarkIcon
+                      onClick={() => !saved(lib.id) && onSave(profile)}
+                      style={{ width: 16, height: 16, flexShrink: 0, cursor: "pointer", color: darkOrange, opacity: saved(lib.id) ? 0.4 : 1 }}
+                    />
+                  </Tooltip>
+                </li>
+              );
+            })
+          : sites.map((s) => (
+              <li key={s.id} style={rowStyle}>
+                <Tooltip content={s.webUrl} relationship="description">
+                  <span style={linkStyle} onClick={() => openSite(s)}>
+                    {mode === "hubs" && !hub ? "🧭" : "🏢"} {s.displayName}
+                  </span>
+                </Tooltip>
+              </li>
+            ))}
+        {!loading && !error && (site ? !libraries.length : !sites.length) && (mode !== "search" || query.trim() || site) && (
+          <li>
+            <Caption1 style={{ color: "#999" }}>{site ? "No document libraries here." : "No sites found."}</Caption1>
+          </li>
+        )}
+      </ul>
+
+      {personal.length > 0 && (
+        <>
+          <Caption1 style={{ color: darkOrange, fontWeight: 600 }}>My destinations</Caption1>
+          <ul style={{ listStyle: "none", margin: 0, paddingLeft: "0.5rem", color: "white" }}>
+            {personal.map((p) => (
+              <li key={p.DriveId} style={rowStyle}>
+                <Tooltip content={p.SiteUrl} relationship="description">
+                  <span style={linkStyle} onClick={() => onOpen(p)}>
+                    {p.Label}
+                  </span>
+                </Tooltip>
+                <Tooltip content="Remove from my destinations" relationship="description">
+                  <TrashIcon
+                    onClick={() => onRemove(p.DriveId)}
+                    style={{ width: 16, height: 16, flexShrink: 0, cursor: "pointer", color: "#999" }}
+                  />
+                </Tooltip>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
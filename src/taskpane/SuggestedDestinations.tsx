@@ -0,0 +1,69 @@
+// src/taskpane/SuggestedDestinations.tsx
+import * as React from "react";
+import { Button, Card, Tooltip } from "@fluentui/react-components";
+import { DestinationSuggestion } from "../destinationRules";
+import { LearnedSuggestion } from "../learnedSuggestions";
+import DestinationRow from "./DestinationRow";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  suggestions: DestinationSuggestion[];
+  learned: LearnedSuggestion[];
+  disabled?: boolean;
+  onArchive: (suggestion: DestinationSuggestion) => void;
+  onArchiveLearned: (suggestion: LearnedSuggestion) => void;
+  /** Forget the learned model */
+  onResetLearned: () => void;
+}
+
+/**
+ * One-click archive targets for the open email: destination rules first,
+ * then what was learned from the user's own filing.
+ */
+export default function SuggestedDestinations(props: Props) {
+  const { suggestions, disabled } = props;
+  // A learned destination that a rule already suggests adds nothing
+  const ruleKeys = new Set(suggestions.map((s) => `${s.profile.DriveId}|${s.folderPath.toLowerCase()}`));
+  const learned = props.learned.filter((l) => !ruleKeys.has(l.destination.id));
+  if (!suggestions.length && !learned.length) return null;
+
+  return (
+    <Card style={{ padding: "0.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ color: darkOrange, fontWeight: "bold", margin: 0 }}>Suggested</h3>
+        {props.learned.length > 0 && (
+          <Tooltip content="Forget what Flowpoint learned from your filing history" relationship="description">
+            <Button size="small" appearance="subtle" onClick={props.onResetLearned}>
+              Reset learning
+            </Button>
+          </Tooltip>
+        )}
+      </div>
+      <ul style={{ color: "white", listStyle: "none", paddingLeft: "1rem", margin: "0.4rem 0 0" }}>
+        {suggestions.map((s) => (
+          <DestinationRow
+            key={`rule:${s.profile.DriveId}|${s.folderPath}`}
+            label={[s.profile.Label, s.folderPath].filter(Boolean).join("/")}
+            tooltip={`${s.rule.Title || "Rule"}: ${s.reasons.join(", ")}`}
+            disabled={disabled}
+            onArchive={() => props.onArchive(s)}
+          />
+        ))}
+        {learned.map((l) => {
+          const d = l.destination;
+          return (
+            <DestinationRow
+              key={`learned:${d.id}`}
+              label={[d.libraryLabel, d.folderPath].filter(Boolean).join("/") || d.driveId}
+              tooltip={`Filed here ${d.count} time${d.count === 1 ? "" : "s"}`}
+              detail={`${Math.round(l.confidence * 100)}% · ${l.explanation}`}
+              disabled={disabled}
+              onArchive={() => props.onArchiveLearned(l)}
+            />
+          );
+        })}
+      </ul>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 // src/taskpane/TaskPane.tsx
 import * as React from "react";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   FluentProvider,
   webDarkTheme,
@@ -12,10 +12,94 @@ import {
   Caption1,
   Combobox,
   Option,
+  SpinButton,
+  Checkbox,
 } from "@fluentui/react-components";
 import { StarIcon, CloudArrowUpIcon } from "@heroicons/react/24/solid";
-import { PublicClientApplication, AccountInfo } from "@azure/msal-browser";
-import { msalConfig, loginRequest } from "../authConfig";
+import { useAuth } from "./useAuth";
+import { graphGET, graphGetAll, TokenSource } from "../graphClient";
+import { getConversationMessages, getMessageMeta, getMessagesMeta, MessageMeta } from "../graphMail";
+import { checkMessageSizes } from "../messageLimits";
+import { ArchiveOutputFormat, OUTPUT_FORMAT_LABELS } from "../emailPdf";
+import { loadSettings, saveSettings, MAX_ARCHIVE_CONCURRENCY } from "../settings";
+import ArchiveProgress from "./ArchiveProgress";
+import FileNameReview, { PendingFileName } from "./FileNameReview";
+import {
+  findProfileForDrive,
+  getMappingsSiteId,
+  getSiteIdFromUrl,
+  loadLibraryProfiles,
+  loadPersonalLibraries,
+  removePersonalLibrary,
+  savePersonalLibrary,
+  withPersonalLibraries,
+  LibraryProfile,
+} from "../libraryProfiles";
+import {
+  buildArchiveFileBaseName,
+  conversationFolderName,
+  fileBaseNameBudget,
+  libraryPathFromWebUrl,
+  resolveFileNameTemplate,
+  sanitizeSharePointName,
+  uniqueFileBaseNames,
+  unknownTemplateTokens,
+} from "../fileNaming";
+import { getSiteIdFromDrive } from "../graphSharePoint";
+import {
+  createArchiveJob,
+  getArchiveJob,
+  listFailedItems,
+  listResumableJobs,
+  requeueFailedItems,
+  ArchiveJob,
+  ArchiveTarget,
+} from "../archiveQueue";
+import { ConflictPolicy, CONFLICT_POLICY_LABELS } from "../archiveDuplicates";
+import PostArchiveSettings from "./PostArchiveSettings";
+import ArchiveHistory from "./ArchiveHistory";
+import {
+  getAuditHistory,
+  lastDestinationForSender,
+  recentDestinations,
+  syncPendingAuditEntries,
+  AuditEntry,
+} from "../auditLog";
+import { findArchivedLocations, readCachedLocations, writeCachedLocations, ArchivedLocation } from "../archivedLocations";
+import ArchivedIndicator from "./ArchivedIndicator";
+import { loadDestinationRules, suggestDestinations, DestinationRule } from "../destinationRules";
+import SuggestedDestinations from "./SuggestedDestinations";
+import RecentDestinations from "./RecentDestinations";
+import FolderActions from "./FolderActions";
+import FolderBreadcrumb from "./FolderBreadcrumb";
+import LibrarySearchResults from "./LibrarySearchResults";
+import {
+  getDriveWebUrl,
+  hitFolderPath,
+  resolveFolderStack,
+  searchDrive,
+  searchLibraries,
+  DriveSearchHit,
+} from "../driveFolders";
+import FavoritesList from "./FavoritesList";
+import FavoritesTransfer from "./FavoritesTransfer";
+import SiteBrowser from "./SiteBrowser";
+import TeamsDestinations from "./TeamsDestinations";
+import { ChannelFolder } from "../teamsDirectory";
+import { createArchiveEngine, ArchiveRunSummary } from "../archiveEngine";
+import { loadFavorites, mergeFavorites, saveFavorites, syncFavorites, FavoriteFolder } from "../favoritesStore";
+import {
+  describeBulkArchiveSummary,
+  getSelectedMessageRestIds,
+  openBulkArchiveDialog,
+  BulkArchiveSummary,
+} from "../dialogProtocol";
+import {
+  loadDestinationModel,
+  rankDestinations,
+  resetDestinationModel,
+  DestinationClass,
+} from "../learnedSuggestions";
 
 /* global Office */
 
@@ -24,19 +108,6 @@ import { msalConfig, loginRequest } from "../authConfig";
 const darkOrange = "#FF8C00";
 const yellowStar = "#FFD700";
 
-// ──────────────────────────────
-// 📌 SharePoint field internal names we use if present
-const FIELD_FROM = "From";
-const FIELD_FROM_ADDRESS = "From_x002d_Address";
-const FIELD_RECEIVED = "Received";
-const FIELD_ATTACHMENT = "Attachment";
-const FIELD_ORIGINAL_LINK = "OriginalMessageLink"; // recommended new column
-const FIELD_INTERNET_ID = "InternetMessageId"; // recommended new column
-
-// Library mappings list (hosted on the Technology site)
-const MAPPINGS_LIST_ID = "9d2d86da-237f-4628-9cf7-65723967018f";
-const MAPPINGS_LIST_TITLE = "Dialectic Flowpoint Mappings";
-
 // ──────────────────────────────
 // 📌 Types
 interface Drive {
@@ -50,123 +121,61 @@ interface DriveItem {
   folder?: { childCount: number };
   file?: any;
 }
-interface FolderStackEntry {
-  id: string;
-  name: string;
+interface PendingArchive {
+  target: ArchiveTarget;
+  template: string;
+  projectNumberPattern?: string;
+  meta: Map<string, MessageMeta>;
+  items: PendingFileName[];
+  /** Longest base name the destination path leaves room for */
+  nameBudget: number;
 }
-interface Favorite {
+interface FolderStackEntry {
   id: string;
   name: string;
-  driveId: string;
-  path: string;
-}
-interface LibraryProfile {
-  DepartmentOrGroup: string;
-  Label: string;
-  SiteUrl: string;
-  DriveId: string;
-  SortOrder?: number;
-  IsDefault?: boolean;
 }
+type SearchScope = "folder" | "library" | "all";
+const SEARCH_SCOPE_LABELS: Record<SearchScope, string> = {
+  folder: "This folder",
+  library: "This library",
+  all: "All libraries",
+};
+const SEARCH_SCOPE_PLACEHOLDERS: Record<SearchScope, string> = {
+  folder: "Search folder contents…",
+  library: "Search the whole library…",
+  all: "Search all mapped libraries…",
+};
 
 // ──────────────────────────────
 // 🔧 Utilities
-const encodeDrivePathForGraph = (path: string) =>
-  path
-    .split("/")
-    .filter(Boolean)
-    .map(encodeURIComponent)
-    .join("/");
-
-const safeFileNameFromSubject = (subject: string) =>
-  `${(subject || "Email").replace(/[^a-z0-9\-_. ]/gi, "_")}.eml`;
-
-const msalInstance = new PublicClientApplication(msalConfig);
-
-// generic retry for fetches
-async function withRetry<T>(fn: () => Promise<T>, max = 4, baseDelayMs = 500): Promise<T> {
-  let attempt = 0;
-  let delay = baseDelayMs;
-  while (true) {
-    try {
-      return await fn();
-    } catch (e: any) {
-      const status = e?.status ?? e?.response?.status;
-      const retriable = status === 429 || (status >= 500 && status <= 599);
-      attempt++;
-      if (!retriable || attempt >= max) throw e;
-      await new Promise((r) => setTimeout(r, delay));
-      delay *= 2;
-    }
-  }
-}
-
-// Basic GET returning JSON with bearer and automatic retry on 429/5xx
-async function graphGET<T>(url: string, token: string): Promise<T> {
-  return withRetry(async () => {
-    const resp = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
-    if (!resp.ok) {
-      const err: any = new Error(`GET ${url} failed: ${resp.status}`);
-      err.status = resp.status;
-      err.body = await resp.text().catch(() => "");
-      throw err;
-    }
-    return resp.json();
-  });
-}
-
-// Resolve site ID from a full SiteUrl using Graph
-async function getSiteIdFromUrl(siteUrl: string, token: string): Promise<string> {
-  // e.g. siteUrl: https://dialecticeng.sharepoint.com/sites/Accounting
-  const u = new URL(siteUrl);
-  const host = u.host; // dialecticeng.sharepoint.com
-  const path = u.pathname; // /sites/Accounting
-  const data = await graphGET<{ id: string }>(
-    `https://graph.microsoft.com/v1.0/sites/${host}:${path}`,
-    token
-  );
-  return data.id;
-}
+// To + Cc addresses of a read-mode item (for destination rules)
+const recipientAddresses = (item?: Office.MessageRead): string[] =>
+  [...(item?.to || []), ...(item?.cc || [])].map((r) => r.emailAddress).filter(Boolean);
 
 // Drives & folders (per-site)
-async function getDrives(token: string, siteId: string): Promise<Drive[]> {
-  const data = await graphGET<{ value: Array<{ id: string; name: string }> }>(
+async function getDrives(token: TokenSource, siteId: string): Promise<Drive[]> {
+  const data = await graphGetAll<{ id: string; name: string }>(
     `https://graph.microsoft.com/v1.0/sites/${siteId}/drives`,
     token
   );
-  return (data.value || []).map((d) => ({ id: d.id, name: d.name }));
+  return data.map((d) => ({ id: d.id, name: d.name }));
 }
-async function getDriveRootItems(token: string, siteId: string, driveId: string): Promise<DriveItem[]> {
-  const data = await graphGET<{ value: DriveItem[] }>(
+async function getDriveRootItems(token: TokenSource, siteId: string, driveId: string): Promise<DriveItem[]> {
+  return graphGetAll<DriveItem>(
     `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/root/children`,
     token
   );
-  return data.value || [];
 }
 async function getDriveFolderItems(
-  token: string,
+  token: TokenSource,
   siteId: string,
   driveId: string,
   folderItemId: string
 ): Promise<DriveItem[]> {
-  const data = await graphGET<{ value: DriveItem[] }>(
+  return graphGetAll<DriveItem>(
     `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/items/${folderItemId}/children`,
     token
   );
-  return data.value || [];
-}
-
-// Columns for metadata patching
-async function getDriveListFieldNames(
-  token: string,
-  siteId: string,
-  driveId: string
-): Promise<Set<string>> {
-  const cols = await graphGET<{ value: Array<{ name: string }> }>(
-    `https://graph.microsoft.com/v1.0/sites/${siteId}/drives/${driveId}/list/columns?$select=name`,
-    token
-  );
-  return new Set((cols.value || []).map((c) => c.name));
 }
 
 // ──────────────────────────────
@@ -175,6 +184,11 @@ export default function TaskPane() {
   // 📨 Email info
   const [emailFrom, setEmailFrom] = useState("");
   const [emailSubject, setEmailSubject] = useState("");
+  const [emailInternetId, setEmailInternetId] = useState("");
+  const [emailRecipients, setEmailRecipients] = useState<string[]>([]);
+  const [archivedLocations, setArchivedLocations] = useState<ArchivedLocation[]>([]);
+  const [archivedChecking, setArchivedChecking] = useState(false);
+  const [archivedLookupKey, setArchivedLookupKey] = useState(0);
 
   // 📂 Drives & folders
   const [drives, setDrives] = useState<Drive[]>([]);
@@ -183,16 +197,21 @@ export default function TaskPane() {
   const [driveItems, setDriveItems] = useState<DriveItem[]>([]);
   const [filteredItems, setFilteredItems] = useState<DriveItem[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchScope, setSearchScope] = useState<SearchScope>("folder");
+  const [searchHits, setSearchHits] = useState<DriveSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState("");
   const [folderStack, setFolderStack] = useState<FolderStackEntry[]>([]);
 
   // ⭐ Favorites
-  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [favorites, setFavorites] = useState<FavoriteFolder[]>(() => loadFavorites().favorites);
+  const [archiveHistory, setArchiveHistory] = useState<AuditEntry[]>([]);
 
   // Auth / Graph
-  const [account, setAccount] = useState<AccountInfo | null>(null);
-  const [token, setToken] = useState<string>("");
+  // Token function while signed in ("" otherwise); refreshed by the auth service
+  const { token, account, status: authStatus, signIn, signOut } = useAuth();
 
-  // A default "Technology" site context (used for mappings fetch)
+  // The configured mappings site (used for mappings fetch)
   const [techSiteId, setTechSiteId] = useState<string>("");
 
   // Active site for the currently-selected library (from mappings via Combobox)
@@ -207,21 +226,57 @@ export default function TaskPane() {
  
  // Bulk archive state
   const [bulkFailed, setBulkFailed] = useState<Array<{ restId: string; error: string }>>([]);
-  const [bulkLog, setBulkLog] = useState<string>("");
-
-  // Column discovery
-  const [availableFields, setAvailableFields] = useState<Set<string>>(new Set());
+  const [activeJob, setActiveJob] = useState<ArchiveJob | null>(null);
+  const [archiveRunning, setArchiveRunning] = useState(false);
+  const [concurrency, setConcurrency] = useState<number>(() => loadSettings().archiveConcurrency);
+  const [outputFormat, setOutputFormat] = useState<ArchiveOutputFormat>(() => loadSettings().outputFormat);
+  const [pendingArchive, setPendingArchive] = useState<PendingArchive | null>(null);
+  const [templateOverride, setTemplateOverride] = useState<string>(() => loadSettings().fileNameTemplate);
+  const [reviewFileNames, setReviewFileNames] = useState<boolean>(() => loadSettings().reviewFileNames);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(() => loadSettings().conflictPolicy);
+  const [archiveConversation, setArchiveConversation] = useState(false);
+  const [conversationSubfolder, setConversationSubfolder] = useState<boolean>(() => loadSettings().conversationSubfolder);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set synchronously, so a second click can't slip in before archiveRunning re-renders
+  const archiveBusyRef = useRef(false);
 
   // Library mappings
   const [libraryProfiles, setLibraryProfiles] = useState<LibraryProfile[]>([]);
+  const [personalLibraries, setPersonalLibraries] = useState<LibraryProfile[]>(() => loadPersonalLibraries());
+  const [siteBrowserOpen, setSiteBrowserOpen] = useState(false);
+  // Libraries behind Teams channels used this session
+  const [channelLibraries, setChannelLibraries] = useState<LibraryProfile[]>([]);
   const [mappingsLoading, setMappingsLoading] = useState<boolean>(false);
   const [mappingsError, setMappingsError] = useState<string>("");
   const [userDepartment, setUserDepartment] = useState<string>("");
+  const [destinationRules, setDestinationRules] = useState<DestinationRule[]>([]);
+  const [destinationModel, setDestinationModel] = useState<DestinationClass[]>([]);
 
   // Library selection
   const [selectedLibraryProfile, setSelectedLibraryProfile] = useState<LibraryProfile | null>(null);
   const [libraryAccessError, setLibraryAccessError] = useState<string>("");
 
+  const suggestions = useMemo(
+    () =>
+      suggestDestinations(destinationRules, libraryProfiles, {
+        from: emailFrom,
+        subject: emailSubject,
+        recipients: emailRecipients,
+      }),
+    [destinationRules, libraryProfiles, emailFrom, emailSubject, emailRecipients]
+  );
+  const learnedSuggestions = useMemo(
+    () => rankDestinations(destinationModel, { from: emailFrom, subject: emailSubject, recipients: emailRecipients }),
+    [destinationModel, emailFrom, emailSubject, emailRecipients]
+  );
+  // Mapped libraries plus the ones the user added from the site browser or reached through Teams
+  const allLibraries = useMemo(
+    () => withPersonalLibraries(libraryProfiles, withPersonalLibraries(personalLibraries, channelLibraries)),
+    [libraryProfiles, personalLibraries, channelLibraries]
+  );
+  const recent = useMemo(() => recentDestinations(archiveHistory), [archiveHistory]);
+  const senderLast = useMemo(() => lastDestinationForSender(archiveHistory, emailFrom), [archiveHistory, emailFrom]);
+
   const currentPath = useMemo(() => folderStack.map((f) => f.name).join("/"), [folderStack]);
 
   // convenience: whichever siteId is relevant for file ops
@@ -262,6 +317,8 @@ useEffect(() => {
       // Initialize email info
       setEmailFrom(item?.from?.emailAddress || "");
       setEmailSubject(item?.subject || "");
+      setEmailInternetId(item?.internetMessageId || "");
+      setEmailRecipients(recipientAddresses(item));
 
       // Add handler only once
       if (!handlerAdded) {
@@ -273,6 +330,8 @@ useEffect(() => {
             console.log("📨 Item changed:", updated.itemId);
             setEmailFrom(updated?.from?.emailAddress || "");
             setEmailSubject(updated?.subject || "");
+            setEmailInternetId(updated?.internetMessageId || "");
+            setEmailRecipients(recipientAddresses(updated));
           },
           (asyncResult) => {
             if (asyncResult.status === Office.AsyncResultStatus.Succeeded) {
@@ -291,100 +350,160 @@ useEffect(() => {
 }, []);
 
 
-  // Favorites load/persist
-  useEffect(() => {
-    const saved = localStorage.getItem("flowpoint:favorites");
-    if (saved) setFavorites(JSON.parse(saved));
-  }, []);
+  // Favorites: local copy on first render, then the roaming / app folder copy
   useEffect(() => {
-    localStorage.setItem("flowpoint:favorites", JSON.stringify(favorites));
-  }, [favorites]);
+    if (!token) return;
+    syncFavorites(token)
+      .then((doc) => setFavorites(doc.favorites))
+      .catch((e) => console.warn("Favorites sync failed:", e));
+  }, [token]);
+
+  const updateFavorites = (next: FavoriteFolder[]) => {
+    setFavorites(saveFavorites(next, token || undefined).favorites);
+  };
 
-  // MSAL init
+  // "Already archived" indicator: cached locations first, then a fresh lookup
   useEffect(() => {
+    setArchivedLocations([]);
+    const item = Office.context?.mailbox?.item as Office.MessageRead | undefined;
+    if (!emailInternetId || !item) return;
+    let cancelled = false;
     (async () => {
+      const cached = await readCachedLocations(item);
+      if (cancelled) return;
+      if (cached) setArchivedLocations(cached.locations);
+      if (!token || !allLibraries.length) return;
+
+      setArchivedChecking(true);
       try {
-        await msalInstance.initialize();
-        const redirectResult = await msalInstance.handleRedirectPromise();
-        if (redirectResult?.account) {
-          setAccount(redirectResult.account);
-        } else {
-          const accounts = msalInstance.getAllAccounts();
-          if (accounts.length > 0) setAccount(accounts[0]);
-        }
+        const found = await findArchivedLocations(token, emailInternetId, allLibraries);
+        if (cancelled) return;
+        setArchivedLocations(found);
+        const unchanged = JSON.stringify(found) === JSON.stringify(cached?.locations || []);
+        if (!unchanged && item.internetMessageId === emailInternetId) await writeCachedLocations(item, found);
       } catch (e) {
-        console.error("MSAL init error:", e);
+        console.warn("Archive lookup failed:", e);
+      } finally {
+        if (!cancelled) setArchivedChecking(false);
       }
     })();
+    return () => {
+      cancelled = true;
+      setArchivedChecking(false);
+    };
+  }, [emailInternetId, token, allLibraries, archivedLookupKey]);
+
+  // Destination rules (same site as the mappings list)
+  useEffect(() => {
+    if (!token) return;
+    loadDestinationRules(token)
+      .then(setDestinationRules)
+      .catch((e) => console.warn("Could not load destination rules:", e));
+  }, [token]);
+
+  // Learned suggestions (local model)
+  const reloadDestinationModel = () =>
+    loadDestinationModel()
+      .then(setDestinationModel)
+      .catch((e) => console.warn("Could not load learned suggestions:", e));
+  useEffect(() => {
+    void reloadDestinationModel();
   }, []);
 
-  // Acquire token
+  // Archive history (recent destinations, last used for this sender); reread after each run
   useEffect(() => {
-    if (!account) return;
+    if (archiveRunning) return;
+    getAuditHistory()
+      .then(setArchiveHistory)
+      .catch((e) => console.warn("Could not read archive history:", e));
+  }, [archiveRunning]);
+
+  // Resume archive jobs left unfinished when the pane (or dialog) closed
+  useEffect(() => {
+    if (!token) return;
     (async () => {
       try {
-        const result = await msalInstance.acquireTokenSilent({ ...loginRequest, account });
-        setToken(result.accessToken);
-        setHeaderCollapsed(true);
-      } catch {
-        try {
-          const result = await msalInstance.acquireTokenPopup(loginRequest);
-          setAccount(result.account!);
-          setToken(result.accessToken);
-          setHeaderCollapsed(true);
-        } catch (e) {
-          console.error("Token acquisition failed:", e);
-        }
+        await refreshBulkFailed();
+        // Audit entries written while offline / before the list existed
+        void syncPendingAuditEntries(token).catch((e) => console.warn("Audit sync failed:", e));
+        const resumable = await listResumableJobs();
+        if (!resumable.length) return;
+        setStatus(`Resuming ${resumable.length} unfinished archive job(s)…`);
+        await exclusiveArchive(async () => {
+          for (const job of resumable) await runQueuedArchiveJob(job.id);
+        });
+      } catch (e) {
+        console.error("Failed to resume archive jobs:", e);
       }
     })();
-  }, [account]);
+  }, [token]);
 
-  // Resolve the "Technology" site id once (used for fetching the mappings list)
+  // Collapse the header once signed in
+  useEffect(() => {
+    if (authStatus === "signedIn") setHeaderCollapsed(true);
+  }, [authStatus]);
+
+  // Resolve the mappings site id once (used for fetching the mappings list)
   useEffect(() => {
     if (!token || techSiteId) return;
     (async () => {
       try {
-        const site = await graphGET<{ id: string }>(
-          "https://graph.microsoft.com/v1.0/sites/dialecticeng.sharepoint.com:/sites/Technology",
-          token
-        );
-        setTechSiteId(site.id);
+        setTechSiteId(await getMappingsSiteId(token));
       } catch (e) {
-        console.error("Failed resolving Technology site id:", e);
+        console.error("Failed resolving mappings site id:", e);
       }
     })();
   }, [token, techSiteId]);
 
   // Filter search
   useEffect(() => {
-    if (!searchQuery) setFilteredItems(driveItems);
+    if (!searchQuery || searchScope !== "folder") setFilteredItems(driveItems);
     else {
       const q = searchQuery.toLowerCase();
       setFilteredItems(driveItems.filter((item) => item.name.toLowerCase().includes(q)));
     }
-  }, [searchQuery, driveItems]);
+  }, [searchQuery, driveItems, searchScope]);
+
+  // Library-wide search (Graph drive search, or Microsoft Search across mapped libraries)
+  useEffect(() => {
+    const term = searchQuery.trim();
+    setSearchHits([]);
+    setSearchError("");
+    if (searchScope === "folder" || term.length < 2 || !token) return;
+    if (searchScope === "library" && !selectedDriveId) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const hits =
+          searchScope === "library"
+            ? await searchDrive(token, selectedDriveId!, term, { signal: controller.signal })
+            : await searchLibraries(token, libraryProfiles.map((p) => p.DriveId).filter(Boolean), term, {
+                signal: controller.signal,
+              });
+        if (!controller.signal.aborted) setSearchHits(hits);
+      } catch (e: any) {
+        if (e?.name !== "AbortError") setSearchError(`Search failed: ${e?.message || e}`);
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setSearching(false);
+    };
+  }, [searchQuery, searchScope, selectedDriveId, token, libraryProfiles]);
 
-  // Load library mappings once we have the Technology site
+  // Load library mappings once we have the mappings site
   useEffect(() => {
     if (!token || !techSiteId) return;
     (async () => {
       try {
         setMappingsLoading(true);
         setMappingsError("");
-        const url = `https://graph.microsoft.com/v1.0/sites/${techSiteId}/lists/${MAPPINGS_LIST_ID}/items?expand=fields`;
-        const data = await graphGET<{ value: Array<{ fields: any }> }>(url, token);
-        const profiles: LibraryProfile[] = (data.value || []).map((item) => {
-          const f = item.fields;
-          return {
-            DepartmentOrGroup: f.DepartmentOrGroup || "",
-            Label: f.Label || "",
-            SiteUrl: f.SiteUrl || "",
-            DriveId: f.DriveId || "",
-            SortOrder: f.SortOrder ? Number(f.SortOrder) : undefined,
-            IsDefault: f.IsDefault === true || f.IsDefault === "true",
-          };
-        });
-        setLibraryProfiles(profiles);
+        setLibraryProfiles(await loadLibraryProfiles(token, techSiteId));
       } catch (err) {
         console.error("Error fetching library mappings:", err);
         setMappingsError("Failed to load mappings.");
@@ -425,7 +544,6 @@ useEffect(() => {
       setFilteredItems([]);
       setSearchQuery("");
 
-      await refreshAvailableFieldsForDrive(profile.DriveId, siteId);
       const items = await getDriveRootItems(token, siteId, profile.DriveId);
       setDriveItems(items);
       setFilteredItems(items);
@@ -473,323 +591,180 @@ useEffect(() => {
     if (leafName) names.push(leafName);
     return names.join("/");
   }
-  function setStatus(text: string) {
-    setStatusMsg(text);
-    if (text.toLowerCase().includes("complete") || text.toLowerCase().includes("uploaded")) {
-      setTimeout(() => setStatusMsg(""), 3000);
-    }
+  // Site for a library: the open one, or looked up from its mapping
+  const libraryLabelFor = (driveId: string) =>
+    findProfileForDrive(allLibraries, driveId)?.Label || drives.find((d) => d.id === driveId)?.name;
+
+  async function siteIdForDrive(driveId: string): Promise<string | undefined> {
+    if (driveId === selectedDriveId) return getCurrentSiteId();
+    const profile = findProfileForDrive(allLibraries, driveId);
+    return profile ? getSiteIdFromUrl(profile.SiteUrl, token) : getSiteIdFromDrive(driveId, token);
   }
 
-  // Multi-select detection
-  function getSelectedMessageRestIds(): Promise<string[]> {
-    return new Promise((resolve) => {
-      const mbox: any = Office?.context?.mailbox;
-      const fallbackToCurrent = () => {
-        const current = mbox?.item as Office.MessageRead | undefined;
-        if (current?.itemId) {
-          const restId = mbox.convertToRestId(current.itemId, Office.MailboxEnums.RestVersion.v2_0);
-          resolve([restId]);
-        } else resolve([]);
-      };
+  // 👥 Teams channels: their library joins the known ones so labels and site lookups work
+  function rememberChannelLibrary(folder: ChannelFolder) {
+    setChannelLibraries((libs) => withPersonalLibraries(libs, [folder.library]));
+  }
 
-      try {
-        const hasApi = !!mbox && typeof mbox.getSelectedItemsAsync === "function";
-        const supportsReq = !!Office?.context?.requirements?.isSetSupported?.("Mailbox", "1.13");
-        if (!hasApi || !supportsReq) return fallbackToCurrent();
-
-        mbox.getSelectedItemsAsync((asyncResult: Office.AsyncResult<any>) => {
-          if (
-            asyncResult?.status === Office.AsyncResultStatus.Succeeded &&
-            Array.isArray(asyncResult.value) &&
-            asyncResult.value.length > 1
-          ) {
-            const restIds = asyncResult.value
-              .map((it: any) => it?.itemId)
-              .filter(Boolean)
-              .map((ewsId: string) =>
-                mbox.convertToRestId(ewsId, Office.MailboxEnums.RestVersion.v2_0)
-              );
-            resolve(restIds);
-          } else {
-            fallbackToCurrent();
-          }
-        });
-      } catch {
-        fallbackToCurrent();
+  // Open a folder found by search: switch library if needed, then rebuild folderStack
+  async function jumpToFolder(driveId: string, path: string, library?: LibraryProfile) {
+    try {
+      setLoading(true);
+      let sid = getCurrentSiteId();
+      if (driveId !== selectedDriveId) {
+        const profile = findProfileForDrive(allLibraries, driveId) || library;
+        if (!profile) throw new Error("That library isn't in the mappings list or your destinations.");
+        setSelectedLibraryProfile(profile);
+        await handleLibraryOpen(profile);
+        sid = await getSiteIdFromUrl(profile.SiteUrl, token);
       }
-    });
+      const stack = await resolveFolderStack(token, driveId, path);
+      const top = stack[stack.length - 1];
+      const items = top
+        ? await getDriveFolderItems(token, sid, driveId, top.id)
+        : await getDriveRootItems(token, sid, driveId);
+      setFolderStack(stack);
+      setDriveItems(items);
+      setFilteredItems(items);
+      setSearchQuery("");
+      setSearchScope("folder");
+    } catch (err: any) {
+      console.error("Error opening search result:", err);
+      setStatus(`Couldn't open that folder: ${err?.message || err}`);
+    } finally {
+      setLoading(false);
+    }
   }
 
-  // list fields for metadata patch
-  async function refreshAvailableFieldsForDrive(driveId: string, siteIdToUse?: string) {
+  // Jump to an ancestor of the current folder (0 = library root)
+  async function navigateToDepth(depth: number) {
+    const sid = getCurrentSiteId();
+    if (!token || !sid || !selectedDriveId || depth >= folderStack.length) return;
+    const newStack = folderStack.slice(0, Math.max(0, depth));
+    setFolderStack(newStack);
     try {
-      const sid = siteIdToUse || getCurrentSiteId();
-      const fields = await getDriveListFieldNames(token, sid, driveId);
-      setAvailableFields(fields);
-    } catch (e) {
-      console.warn("Could not load list columns; will patch only core fields.", e);
-      setAvailableFields(new Set());
+      setLoading(true);
+      const parent = newStack[newStack.length - 1];
+      const items = parent
+        ? await getDriveFolderItems(token, sid, selectedDriveId, parent.id)
+        : await getDriveRootItems(token, sid, selectedDriveId);
+      setDriveItems(items);
+      setFilteredItems(items);
+      setSearchQuery("");
+    } catch (err) {
+      console.error("Error navigating back:", err);
+    } finally {
+      setLoading(false);
     }
   }
 
-  // Dedupe by InternetMessageId (library-wide)
-  async function existsByInternetMessageId(driveId: string, internetMessageId: string): Promise<boolean> {
-    try {
-      if (!internetMessageId) return false;
-      if (!availableFields.has(FIELD_INTERNET_ID)) return false;
-
-      const sid = getCurrentSiteId();
-      // IMPORTANT: internetMessageId can include '<', '>' — we single-quote escape
-      const filterVal = encodeURIComponent(internetMessageId).replace(/'/g, "''");
-      const url =
-        `https://graph.microsoft.com/v1.0/sites/${sid}/drives/${driveId}/list/items` +
-        `?$filter=fields/${FIELD_INTERNET_ID} eq '${filterVal}'&$top=1&$select=id`;
-
-      const data = await graphGET<{ value: any[] }>(url, token);
-      return (data.value || []).length > 0;
-    } catch (e) {
-      console.warn("Dedupe check failed; proceeding without blocking.", e);
-      return false;
+  // Re-list the folder the browser is showing (after creating folders)
+  async function reloadCurrentFolder() {
+    const sid = getCurrentSiteId();
+    if (!token || !sid || !selectedDriveId) return;
+    const top = folderStack[folderStack.length - 1];
+    const items = top
+      ? await getDriveFolderItems(token, sid, selectedDriveId, top.id)
+      : await getDriveRootItems(token, sid, selectedDriveId);
+    setDriveItems(items);
+    setFilteredItems(items);
+    setSearchQuery("");
+  }
+  function setStatus(text: string) {
+    setStatusMsg(text);
+    if (text.toLowerCase().includes("complete") || text.toLowerCase().includes("uploaded")) {
+      setTimeout(() => setStatusMsg(""), 3000);
     }
   }
 
   // ──────────────────────────────
   // 📦 Bulk archive helpers
 
-  // Logs bulk actions to C:\FlowpointBulkLogs\flowpoint-bulk-archive.log
-  async function appendToBulkLog(logText: string) {
+  // Reload failed items persisted in the archive queue
+  async function refreshBulkFailed() {
     try {
-      const logFileName = `flowpoint-bulk-archive.log`;
-      const logDir = `C:\\FlowpointBulkLogs`;
-
-      // For browser/Outlook Add-in context we can't truly write to disk directly,
-      // but we can use OfficeRuntime.storage or trigger download as a fallback.
-      // This stub allows us to later hook into native agent or Graph API.
-      console.log(`[BULK LOG] ${logText}`);
-
-      // If in future we build a desktop agent, replace this stub with fs append.
+      const failed = await listFailedItems();
+      setBulkFailed(failed.map(({ item }) => ({ restId: item.restId, error: item.error || "" })));
     } catch (e) {
-      console.warn("Bulk log write failed:", e);
+      console.warn("Could not read archive queue:", e);
     }
   }
 
-  // Retry a single failed item
-  async function retryFailedBulkItem(restId: string, driveId: string, folderPath: string) {
-    try {
-      await archiveMessageByRestId(restId, driveId, folderPath);
-      setBulkFailed((prev) => prev.filter((f) => f.restId !== restId));
-      await appendToBulkLog(`✅ Retry succeeded for message ${restId}`);
-    } catch (e: any) {
-      console.error("Retry failed:", e);
-      await appendToBulkLog(`❌ Retry failed for message ${restId}: ${e?.message || e}`);
-    }
-  }
-
-  // Sequentially archive multiple messages with retry tracking
-  async function bulkArchiveMessagesSequential(
-    restIds: string[],
-    driveId: string,
-    folderPath: string
-  ) {
-    let success = 0;
-    let failed: Array<{ restId: string; error: string }> = [];
-
-    for (let i = 0; i < restIds.length; i++) {
-      const id = restIds[i];
-      setStatus(`Uploading ${i + 1} of ${restIds.length}…`);
-      try {
-        await archiveMessageByRestId(id, driveId, folderPath);
-        success++;
-        await appendToBulkLog(`✅ Archived ${id}`);
-      } catch (e: any) {
-        console.error(`Bulk item ${id} failed:`, e);
-        failed.push({ restId: id, error: e?.message || String(e) });
-        await appendToBulkLog(`❌ Failed to archive ${id}: ${e?.message || e}`);
-      }
-    }
-
-    setBulkFailed(failed);
-
-    if (failed.length === 0) {
-      setStatus(`All ${success} uploaded ✅`);
-      await appendToBulkLog(`🎉 Bulk upload complete: ${success} succeeded, 0 failed`);
-    } else {
-      setStatus(`✅ ${success} uploaded, ❌ ${failed.length} failed`);
-      await appendToBulkLog(
-        `⚠️ Bulk upload finished: ${success} succeeded, ${failed.length} failed`
-      );
-    }
-  }
-
-  // Archive a single message by REST id
-  async function archiveMessageByRestId(
-    messageRestId: string,
-    driveId: string,
-    folderPath: string
-  ): Promise<void> {
-    const sid = getCurrentSiteId();
-
-    // Get message details
-    const msg = await graphGET<{
-      subject?: string;
-      from?: { emailAddress?: { address?: string; name?: string } };
-      hasAttachments?: boolean;
-      receivedDateTime?: string;
-      webLink?: string;
-      internetMessageId?: string;
-    }>(
-      `https://graph.microsoft.com/v1.0/me/messages/${messageRestId}?$select=subject,from,hasAttachments,receivedDateTime,webLink,internetMessageId`,
-      token
-    );
-
-    // Optional de-dupe
-    if (await existsByInternetMessageId(driveId, msg.internetMessageId || "")) {
-      return; // already archived
-    }
-
-    // Download MIME (.eml)
-    const emlBlob = await withRetry(async () => {
-      const r = await fetch(
-        `https://graph.microsoft.com/v1.0/me/messages/${messageRestId}/$value`,
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
-      if (!r.ok) {
-        const err: any = new Error(`Message download failed: ${r.status}`);
-        err.status = r.status;
-        throw err;
-      }
-      return r.blob();
-    });
-
-    // Create upload session
-    const fileName = safeFileNameFromSubject(msg.subject || "Email");
-    const encodedPath = encodeDrivePathForGraph(folderPath ? `${folderPath}/${fileName}` : fileName);
-
-    const session = await withRetry(async () => {
-      const resp = await fetch(
-        `https://graph.microsoft.com/v1.0/sites/${sid}/drives/${driveId}/root:/${encodedPath}:/createUploadSession`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ "@microsoft.graph.conflictBehavior": "rename" }),
-        }
-      );
-      if (!resp.ok) {
-        const err: any = new Error(`Create session failed: ${resp.status}`);
-        err.status = resp.status;
-        throw err;
-      }
-      return resp.json();
+  // Run a persisted archive job through the archive engine, with progress + cancel
+  async function runQueuedArchiveJob(jobId: string, prefetched?: Map<string, MessageMeta>) {
+    const job = await getArchiveJob(jobId);
+    if (!job) return;
+    const engine = createArchiveEngine({ token, onTrained: reloadDestinationModel });
+    // Snapshot for React; the runner mutates the job in place
+    const publish = (j: ArchiveJob) => setActiveJob({ ...j, items: j.items.map((i) => ({ ...i })) });
+    engine.on((event) => {
+      if (event.type !== "jobFinished") publish(event.job);
     });
 
-    const uploadUrl: string = session.uploadUrl;
-
-    // Upload chunks
-    await uploadInChunksWithRetry(uploadUrl, emlBlob);
-
-    // Resolve uploaded item
-    const pathForFetch = folderPath?.length
-      ? `/${encodeDrivePathForGraph(folderPath)}/${encodeURIComponent(fileName)}`
-      : `/${encodeURIComponent(fileName)}`;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setArchiveRunning(true);
+    setActiveJob(job);
 
-    const uploadedItem = await withRetry(async () => {
-      const resp = await fetch(
-        `https://graph.microsoft.com/v1.0/sites/${sid}/drives/${driveId}/root:${pathForFetch}`,
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
-      if (!resp.ok) {
-        const err: any = new Error(`Resolve uploaded item failed: ${resp.status}`);
-        err.status = resp.status;
-        throw err;
-      }
-      return resp.json();
-    });
-
-    // Build metadata payload
-    const fieldsToPatch: Record<string, any> = {};
-    fieldsToPatch[FIELD_FROM_ADDRESS] = msg?.from?.emailAddress?.address || "";
-    fieldsToPatch[FIELD_RECEIVED] = msg?.receivedDateTime ?? new Date().toISOString();
-    fieldsToPatch[FIELD_ATTACHMENT] = !!msg?.hasAttachments;
-    fieldsToPatch[FIELD_FROM] = msg?.from?.emailAddress?.name || "";
-
-    if (availableFields.has(FIELD_ORIGINAL_LINK) && msg.webLink) {
-      fieldsToPatch[FIELD_ORIGINAL_LINK] = msg.webLink;
+    let summary: ArchiveRunSummary | null;
+    try {
+      summary = await engine.run(jobId, { concurrency, signal: controller.signal, prefetched });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setArchiveRunning(false);
+      // The open email may have just been filed
+      setArchivedLookupKey((k) => k + 1);
     }
-    if (availableFields.has(FIELD_INTERNET_ID) && msg.internetMessageId) {
-      fieldsToPatch[FIELD_INTERNET_ID] = msg.internetMessageId;
+    await refreshBulkFailed();
+    if (!summary) {
+      setStatus("This archive is already running in another window.");
+      return;
     }
 
-    const allowed = new Set([
-      FIELD_FROM,
-      FIELD_FROM_ADDRESS,
-      FIELD_RECEIVED,
-      FIELD_ATTACHMENT,
-      ...Array.from(availableFields),
-    ]);
-    const payload: Record<string, any> = {};
-    Object.keys(fieldsToPatch).forEach((k) => {
-      if (allowed.has(k)) payload[k] = fieldsToPatch[k];
-    });
-
-    await withRetry(async () => {
-      const patchResp = await fetch(
-        `https://graph.microsoft.com/v1.0/sites/${sid}/drives/${driveId}/items/${uploadedItem.id}/listItem/fields`,
-        {
-          method: "PATCH",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(payload),
-        }
+    const { total, archived, skipped, cancelled, failed } = summary;
+    const success = archived + skipped;
+    const skippedNote = skipped ? ` (${skipped} already archived, skipped)` : "";
+    if (cancelled) {
+      setStatus(`Cancelled — ${success} uploaded, ${cancelled} not archived`);
+    } else if (!failed.length) {
+      setStatus(
+        total === 1
+          ? skipped
+            ? "Already archived — skipped"
+            : "Upload complete ✅"
+          : `All ${success} uploaded ✅${skippedNote}`
       );
-      if (!patchResp.ok) {
-        const err: any = new Error(`Metadata update failed: ${patchResp.status}`);
-        err.status = patchResp.status;
-        throw err;
-      }
-      return;
-    });
+    } else {
+      setStatus(`✅ ${success} uploaded, ❌ ${failed.length} failed${skippedNote}`);
+    }
   }
 
-  // Chunked upload
-  async function uploadInChunksWithRetry(uploadUrl: string, blob: Blob) {
-    const chunkSize = 5 * 1024 * 1024; // 5 MB
-       const total = blob.size;
-    let offset = 0;
-    while (offset < total) {
-      const slice = blob.slice(offset, Math.min(offset + chunkSize, total));
-      const end = offset + slice.size - 1;
-      const headers: Record<string, string> = {
-        "Content-Length": String(slice.size),
-        "Content-Range": `bytes ${offset}-${end}/${total}`,
-      };
-      await withRetry(async () => {
-        const putResp = await fetch(uploadUrl, { method: "PUT", headers, body: slice });
-        if (!(putResp.ok || putResp.status === 202 || putResp.status === 201)) {
-          const text = await putResp.text();
-          const err: any = new Error(`Chunk upload failed ${putResp.status}: ${text}`);
-          err.status = putResp.status;
-          throw err;
-        }
-        return;
-      });
-      offset += slice.size;
+  // One archive at a time: a second job would take over Cancel from the first
+  async function exclusiveArchive(run: () => Promise<void>) {
+    if (archiveBusyRef.current) {
+      setStatus("An archive is already running. Wait for it to finish or cancel it.");
+      return;
+    }
+    archiveBusyRef.current = true;
+    try {
+      await run();
+    } finally {
+      archiveBusyRef.current = false;
     }
   }
 
   // Public handler for archive actions
-  const handleArchiveToPath = async (driveId: string, folderPath: string) => {
+  const handleArchiveToPath = (driveId: string, folderPath: string, siteId?: string) =>
+    exclusiveArchive(() => prepareArchive(driveId, folderPath, siteId));
+
+  async function prepareArchive(driveId: string, folderPath: string, siteId?: string) {
     try {
       if (!token) throw new Error("Not authenticated to Graph.");
       if (!driveId) throw new Error("No drive selected.");
-      const sid = getCurrentSiteId();
+      const sid = siteId || getCurrentSiteId();
       if (!sid) throw new Error("SiteId not resolved yet.");
 
-      const restIds = await getSelectedMessageRestIds();
+      let restIds = await getSelectedMessageRestIds();
       const total = restIds.length;
 	  console.log("Selected REST IDs:", restIds);
 
@@ -801,101 +776,131 @@ useEffect(() => {
           restIds[0] ||
           (currentId ? mbox.convertToRestId(currentId, Office.MailboxEnums.RestVersion.v2_0) : "");
         if (!restId) throw new Error("No email selected.");
-        setStatus("Uploading email…");
-        await archiveMessageByRestId(restId, driveId, folderPath);
-        setStatus("Upload complete ✅");
-        return;
+        restIds.splice(0, restIds.length, restId);
       }
 
-      // 📦 Bulk sequential upload using new helper
-      await bulkArchiveMessagesSequential(restIds, driveId, folderPath);
+      // 🧵 Whole conversation: every message in the open email's thread
+      let meta: Map<string, MessageMeta>;
+      if (archiveConversation) {
+        setStatus("Collecting conversation…");
+        const current = await getMessageMeta(restIds[0], token);
+        if (!current.conversationId) throw new Error("This email isn't part of a conversation.");
+        const thread = await getConversationMessages(current.conversationId, token);
+        if (!thread.length) throw new Error("No messages found in this conversation.");
+        meta = new Map(thread.map((m) => [m.id!, m] as [string, MessageMeta]));
+        restIds = thread.map((m) => m.id!);
+        if (loadSettings().conversationSubfolder) {
+          folderPath = [folderPath, conversationFolderName(thread)].filter(Boolean).join("/");
+        }
+      } else {
+        meta = await getMessagesMeta(restIds, token);
+      }
+
+      const sizeWarnings = checkMessageSizes(restIds, meta);
+
+      // 🏷️ Propose names from the template (user override → library → default)
+      const profile = findProfileForDrive(allLibraries, driveId);
+      const template = resolveFileNameTemplate(loadSettings().fileNameTemplate, profile?.FilenameTemplate);
+      const libraryPath = libraryPathFromWebUrl(await getDriveWebUrl(token, driveId).catch(() => ""));
+      const nameBudget = fileBaseNameBudget(folderPath, libraryPath);
+      const names = uniqueFileBaseNames(
+        restIds.map((id) =>
+          buildArchiveFileBaseName(template, {
+            message: meta.get(id) || {},
+            folderPath,
+            libraryPath,
+            projectNumberPattern: profile?.ProjectNumberPattern,
+          })
+        ),
+        nameBudget
+      );
+      const review: PendingArchive = {
+        target: { siteId: sid, driveId, folderPath },
+        template,
+        projectNumberPattern: profile?.ProjectNumberPattern,
+        meta,
+        nameBudget,
+        items: restIds.map((restId, i) => ({
+          restId,
+          subject: meta.get(restId)?.subject,
+          name: names[i],
+          sizeWarning: sizeWarnings.get(restId),
+        })),
+      };
+
+      // Oversized emails always get the review, so the warning is seen before the upload
+      if (sizeWarnings.size) {
+        setPendingArchive(review);
+        setStatus(`${sizeWarnings.size} email(s) are very large; check the notes, then Upload.`);
+        return;
+      }
+      if (loadSettings().reviewFileNames) {
+        setPendingArchive(review);
+        setStatus("Review file names, then Upload.");
+        return;
+      }
+      await startArchive(review);
     } catch (err: any) {
       console.error("Archive failed:", err);
       setStatus(`Upload failed: ${err?.message || err}`);
     }
-  };
-// ──────────────────────────────
-// 🪟 Bulk Archive Dialog Launcher (sends favorites from Taskpane context)
-// ──────────────────────────────
-// 🪟 Bulk Archive Dialog Launcher (sends favorites + selected message IDs)
-async function openBulkArchiveDialog() {
-  try {
-    const dialogUrl = `${window.location.origin}/dialog.html`;
-
-    Office.context.ui.displayDialogAsync(
-      dialogUrl,
-      { height: 55, width: 40 },
-      async (asyncResult) => {
-        if (asyncResult.status === Office.AsyncResultStatus.Failed) {
-          console.error("❌ Dialog launch failed:", asyncResult.error);
-          return;
-        }
-
-        const dialog = asyncResult.value;
-        console.log("✅ Bulk Archive dialog opened from Taskpane:", dialogUrl);
-
-        // Listen for messages returned from the dialog
-        dialog.addEventHandler(Office.EventType.DialogMessageReceived, (msg) => {
-          console.log("📩 Message received from dialog:", msg);
-        });
-
-        const mbox: any = Office.context?.mailbox;
-        let restIds: string[] = [];
-
-        // ✅ Try multi-select (only works in list view)
-        if (mbox?.getSelectedItemsAsync) {
-          await new Promise<void>((resolve) => {
-            mbox.getSelectedItemsAsync((res: any) => {
-              if (
-                res.status === Office.AsyncResultStatus.Succeeded &&
-                Array.isArray(res.value) &&
-                res.value.length > 0
-              ) {
-                restIds = res.value
-                  .slice(0, 10)
-                  .map((it: any) =>
-                    mbox.convertToRestId(it.itemId, Office.MailboxEnums.RestVersion.v2_0)
-                  );
-              }
-              resolve();
-            });
-          });
-        }
-
-        // ✅ Fallback: use the currently opened email if no multi-select
-        if (restIds.length === 0 && mbox?.item?.itemId) {
-          const restId = mbox.convertToRestId(
-            mbox.item.itemId,
-            Office.MailboxEnums.RestVersion.v2_0
-          );
-          restIds = [restId];
-          console.log("📬 Using current email REST ID:", restId);
-        }
-
-        console.log("📦 Final REST IDs prepared for Bulk Archive:", restIds);
-
-        // ✅ Combine favorites + REST IDs into one payload
-        const payload = JSON.stringify({
-          favorites: JSON.parse(localStorage.getItem("flowpoint:favorites") || "[]"),
-          restIds,
-        });
+  }
 
-        // Send after short delay to ensure dialog listener is ready
-        setTimeout(() => {
-          try {
-            dialog.messageChild(payload);
-            console.log("✅ Sent payload to dialog:", payload);
-          } catch (err) {
-            console.error("❌ Failed to send payload to dialog:", err);
-          }
-        }, 1200);
-      }
-    );
-  } catch (err) {
-    console.error("❌ Error launching Bulk Archive dialog:", err);
+  // 📦 Persisted job, so closing the pane doesn't lose the run
+  async function startArchive(review: PendingArchive) {
+    try {
+      setPendingArchive(null);
+      setStatus(review.items.length > 1 ? `Uploading ${review.items.length} emails…` : "Uploading email…");
+      const fileNames: Record<string, string> = {};
+      review.items.forEach((i) => (fileNames[i.restId] = sanitizeSharePointName(i.name, review.nameBudget)));
+      const profile = findProfileForDrive(allLibraries, review.target.driveId);
+      const job = await createArchiveJob(review.target, review.items.map((i) => i.restId), "taskpane", {
+        outputFormat,
+        conflictPolicy,
+        postArchiveActions: loadSettings().postArchiveActions || profile?.PostArchiveActions,
+        metadataMapping: profile?.MetadataMapping,
+        libraryLabel: profile?.Label || (review.target.driveId === selectedDriveId ? selectedDriveName : "") || "",
+        fileNameTemplate: review.template,
+        projectNumberPattern: review.projectNumberPattern,
+        fileNames,
+      });
+      await runQueuedArchiveJob(job.id, review.meta);
+    } catch (err: any) {
+      console.error("Archive failed:", err);
+      setStatus(`Upload failed: ${err?.message || err}`);
+    }
+  }
+  // ──────────────────────────────
+  // 🪟 Bulk Archive dialog (selection + favorites in, progress + results back)
+  async function launchBulkArchiveDialog() {
+    try {
+      const restIds = await getSelectedMessageRestIds();
+      await openBulkArchiveDialog({
+        restIds,
+        favorites,
+        onProgress: ({ done, failed, total }) =>
+          setStatus(`Bulk archive: ${done + failed} of ${total} processed${failed ? ` (${failed} failed)` : ""}…`),
+        onResult: (summary) => void bulkResultRef.current(summary),
+      });
+    } catch (err: any) {
+      console.error("❌ Error launching Bulk Archive dialog:", err);
+      setStatus(`Couldn't open Bulk Archive: ${err?.message || err}`);
+    }
   }
-}
-(window as any).openBulkArchiveDialog = openBulkArchiveDialog;
+
+  // React to a finished dialog job with this render's state (the dialog outlives the launch)
+  const bulkResultRef = useRef<(summary: BulkArchiveSummary) => Promise<void>>(async () => undefined);
+  bulkResultRef.current = async (summary) => {
+    setStatus(describeBulkArchiveSummary(summary));
+    setArchivedLookupKey((k) => k + 1);
+    await refreshBulkFailed();
+    getAuditHistory()
+      .then(setArchiveHistory)
+      .catch((e) => console.warn("Could not read archive history:", e));
+    if (summary.driveId === selectedDriveId && currentPath.toLowerCase() === summary.folderPath.toLowerCase()) {
+      await reloadCurrentFolder().catch((e) => console.warn("Could not refresh the folder view:", e));
+    }
+  };
 
   // ──────────────────────────────
   // UI
@@ -967,10 +972,7 @@ async function openBulkArchiveDialog() {
         appearance="primary"
         onClick={async () => {
           try {
-            const result = await msalInstance.loginPopup(loginRequest);
-            setAccount(result.account!);
-            setToken(result.accessToken);
-            setHeaderCollapsed(true);
+            await signIn();
           } catch (e) {
             console.error("Login failed:", e);
           }
@@ -984,12 +986,10 @@ async function openBulkArchiveDialog() {
         appearance="secondary"
         onClick={async () => {
           try {
-            await msalInstance.logoutPopup();
+            await signOut();
           } catch (e) {
             console.error("Logout failed:", e);
           }
-          setAccount(null);
-          setToken("");
           setTechSiteId("");
           setActiveSiteId("");
           setDrives([]);
@@ -1028,8 +1028,69 @@ async function openBulkArchiveDialog() {
               <span style={{ color: darkOrange, fontSize: "0.8rem", display: "block" }}>Subject:</span>
               <span style={{ color: "white", wordBreak: "break-word" }}>{emailSubject || "—"}</span>
             </div>
+            <ArchivedIndicator locations={archivedLocations} checking={archivedChecking} />
           </Card>
 
+          {/* 🎯 Rule-based suggestions */}
+          <SuggestedDestinations
+            suggestions={suggestions}
+            disabled={archiveRunning}
+            onArchive={async (s) => {
+              try {
+                const siteId = await getSiteIdFromUrl(s.profile.SiteUrl, token);
+                await handleArchiveToPath(s.profile.DriveId, s.folderPath, siteId);
+              } catch (err: any) {
+                setStatus(`Upload failed: ${err?.message || err}`);
+              }
+            }}
+            learned={learnedSuggestions}
+            onArchiveLearned={(l) => handleArchiveToPath(l.destination.driveId, l.destination.folderPath, l.destination.siteId)}
+            onResetLearned={async () => {
+              await resetDestinationModel();
+              await reloadDestinationModel();
+            }}
+          />
+
+          <RecentDestinations
+            recent={recent}
+            senderLast={senderLast}
+            sender={emailFrom}
+            disabled={archiveRunning}
+            onArchive={(d) => handleArchiveToPath(d.driveId, d.folderPath, d.siteId)}
+          />
+
+          {token && (
+            <TeamsDestinations
+              token={token}
+              disabled={archiveRunning}
+              onOpen={(folder) => {
+                rememberChannelLibrary(folder);
+                void jumpToFolder(folder.driveId, folder.path, folder.library);
+              }}
+              onArchive={async (folder) => {
+                rememberChannelLibrary(folder);
+                try {
+                  const siteId = await getSiteIdFromUrl(folder.library.SiteUrl, token);
+                  await handleArchiveToPath(folder.driveId, folder.path, siteId);
+                } catch (err: any) {
+                  setStatus(`Upload failed: ${err?.message || err}`);
+                }
+              }}
+              onSave={(folder) => {
+                if (favorites.some((f) => f.id === folder.folderId)) {
+                  setStatus(`${folder.label} is already a favorite.`);
+                  return;
+                }
+                const name = folder.path.split("/").pop() || folder.label;
+                updateFavorites([
+                  ...favorites,
+                  { id: folder.folderId, name, driveId: folder.driveId, path: folder.path, label: folder.label, group: "Teams" },
+                ]);
+                setStatus(`Added ${folder.label} to favorites.`);
+              }}
+            />
+          )}
+
           {/* ⭐ Favorites */}
           <Card style={{ padding: "0.5rem" }}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
@@ -1046,7 +1107,7 @@ async function openBulkArchiveDialog() {
   <Button
     appearance="primary"
     size="small"
-    onClick={() => openBulkArchiveDialog()}
+    onClick={() => void launchBulkArchiveDialog()}
     style={{
       backgroundColor: "#ff7a18",
       color: "#ffffff",
@@ -1073,66 +1134,29 @@ async function openBulkArchiveDialog() {
 
            {!favoritesCollapsed && (
   <div className="scroll-section favorites-scroll">
-    <ul
-      style={{
-        color: "white",
-        paddingLeft: "1rem",
-        listStyle: "none",
-        marginTop: "0.4rem",
-        marginBottom: 0,
+    <FavoritesList
+      favorites={favorites}
+      libraryLabel={libraryLabelFor}
+      archiveDisabled={archiveRunning}
+      onArchive={async (fav) => {
+        try {
+          await handleArchiveToPath(fav.driveId, fav.path, await siteIdForDrive(fav.driveId));
+        } catch (err: any) {
+          setStatus(`Upload failed: ${err?.message || err}`);
+        }
       }}
-    >
-      {favorites.length === 0 && <li>No favorites yet</li>}
-      {favorites.map((fav) => (
-        <li
-          key={fav.id}
-          style={{
-            display: "flex",
-            justifyContent: "space-between",
-            alignItems: "center",
-            gap: 8,
-            marginBottom: 4,
-          }}
-        >
-          <span
-            style={{
-              overflow: "hidden",
-              textOverflow: "ellipsis",
-              whiteSpace: "nowrap",
-              flex: 1,
-            }}
-          >
-            {fav.name}
-          </span>
-
-          <div style={{ display: "flex", gap: 8 }}>
-            <Tooltip content="Archive selected email(s) to this favorite" relationship="description">
-              <CloudArrowUpIcon
-                onClick={() => handleArchiveToPath(fav.driveId, fav.path)}
-                style={{
-                  width: 18,
-                  height: 18,
-                  cursor: "pointer",
-                  color: darkOrange,
-                }}
-              />
-            </Tooltip>
-
-            <Tooltip content="Remove favorite" relationship="description">
-              <StarIcon
-                onClick={() => setFavorites(favorites.filter((f) => f.id !== fav.id))}
-                style={{
-                  width: 18,
-                  height: 18,
-                  cursor: "pointer",
-                  color: yellowStar,
-                }}
-              />
-            </Tooltip>
-          </div>
-        </li>
-      ))}
-    </ul>
+      onRemove={(fav) => updateFavorites(favorites.filter((f) => f.id !== fav.id))}
+      onChange={updateFavorites}
+    />
+    <FavoritesTransfer
+      favorites={favorites}
+      onImport={(imported) => {
+        const merged = mergeFavorites(favorites, imported);
+        updateFavorites(merged);
+        setStatus(`Imported ${merged.length - favorites.length} new favorite(s) of ${imported.length}.`);
+      }}
+      onError={(message) => setStatus(`Import failed: ${message}`)}
+    />
   </div>
 )}
 
@@ -1159,11 +1183,11 @@ async function openBulkArchiveDialog() {
                   appearance="outline"
                   value={selectedLibraryProfile?.Label ?? ""}
                   placeholder={mappingsLoading ? "Loading…" : "— Select a Library —"}
-                  disabled={mappingsLoading || !libraryProfiles.length}
+                  disabled={mappingsLoading || !allLibraries.length}
                   style={{ width: "100%" }}
                   onOptionSelect={(_, data) => {
                     const selectedProfile =
-                      libraryProfiles.find((p) => p.Label === data.optionValue) || null;
+                      allLibraries.find((p) => p.Label === data.optionValue) || null;
                     setSelectedLibraryProfile(selectedProfile);
                     setLibraryAccessError("");
                     // ⚡ Auto-open immediately
@@ -1178,7 +1202,7 @@ async function openBulkArchiveDialog() {
                     }
                   }}
                 >
-                  {libraryProfiles.map((profile) => (
+                  {allLibraries.map((profile) => (
                     <Option key={profile.DriveId} value={profile.Label}>
                       {profile.Label}
                     </Option>
@@ -1202,6 +1226,31 @@ async function openBulkArchiveDialog() {
                     {mappingsError}
                   </div>
                 )}
+
+                {/* 🌐 Other sites: search / followed / hubs, saved as personal destinations */}
+                <div style={{ marginTop: "0.5rem" }}>
+                  <Button size="small" appearance="subtle" disabled={!token} onClick={() => setSiteBrowserOpen(!siteBrowserOpen)}>
+                    {siteBrowserOpen ? "Hide other sites" : "Browse other sites…"}
+                  </Button>
+                  {siteBrowserOpen && token && (
+                    <SiteBrowser
+                      token={token}
+                      personal={personalLibraries}
+                      onOpen={(library) => {
+                        setSelectedLibraryProfile(library);
+                        setLibraryAccessError("");
+                        void handleLibraryOpen(library);
+                      }}
+                      onSave={(library) => {
+                        setPersonalLibraries(
+                          savePersonalLibrary({ label: library.Label, siteUrl: library.SiteUrl, driveId: library.DriveId })
+                        );
+                        setStatus(`Saved ${library.Label} to your destinations.`);
+                      }}
+                      onRemove={(driveId) => setPersonalLibraries(removePersonalLibrary(driveId))}
+                    />
+                  )}
+                </div>
               </div>
             )}
           </Card>
@@ -1209,61 +1258,192 @@ async function openBulkArchiveDialog() {
           {/* 📁 Folder Contents */}
           <Card style={{ padding: "0.5rem" }}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-              <h3 style={{ color: darkOrange, fontWeight: "bold" }}>
-                {selectedDriveName
-                  ? folderStack.length > 0
-                    ? folderStack.map((f) => f.name).join(" / ")
-                    : `${selectedDriveName} Contents`
-                  : "Folder Contents"}
-              </h3>
+              {selectedDriveName ? (
+                <FolderBreadcrumb
+                  rootLabel={selectedDriveName}
+                  segments={folderStack.map((f) => f.name)}
+                  onNavigate={(depth) => void navigateToDepth(depth)}
+                />
+              ) : (
+                <h3 style={{ color: darkOrange, fontWeight: "bold" }}>Folder Contents</h3>
+              )}
               {folderStack.length > 0 && (
                 <Button
                   size="small"
                   appearance="secondary"
-                  onClick={async () => {
-                    const sid = getCurrentSiteId();
-                    if (!token || !sid || !selectedDriveId || folderStack.length === 0) return;
-                    const newStack = [...folderStack];
-                    newStack.pop();
-                    setFolderStack(newStack);
-                    try {
-                      setLoading(true);
-                      if (newStack.length === 0) {
-                        const items = await getDriveRootItems(token, sid, selectedDriveId);
-                        setDriveItems(items);
-                        setFilteredItems(items);
-                      } else {
-                        const parent = newStack[newStack.length - 1];
-                        const items = await getDriveFolderItems(token, sid, selectedDriveId, parent.id);
-                        setDriveItems(items);
-                        setFilteredItems(items);
-                      }
-                      setSearchQuery("");
-                    } catch (err) {
-                      console.error("Error navigating back:", err);
-                    } finally {
-                      setLoading(false);
-                    }
-                  }}
+                  onClick={() => void navigateToDepth(folderStack.length - 1)}
                 >
                   ⬅ Back
                 </Button>
               )}
             </div>
 
-            <Input
-              placeholder="Search folder contents…"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery((e.target as HTMLInputElement).value)}
-              style={{ width: "100%", margin: "0.25rem 0" }}
-              disabled={!selectedDriveId}
-            />
+            <div style={{ display: "flex", gap: 4, alignItems: "center", margin: "0.25rem 0" }}>
+              <Input
+                placeholder={SEARCH_SCOPE_PLACEHOLDERS[searchScope]}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery((e.target as HTMLInputElement).value)}
+                style={{ flex: 1, minWidth: 0 }}
+                disabled={!selectedDriveId && searchScope !== "all"}
+              />
+              <Combobox
+                size="small"
+                value={SEARCH_SCOPE_LABELS[searchScope]}
+                selectedOptions={[searchScope]}
+                style={{ minWidth: 110 }}
+                onOptionSelect={(_, data) => data.optionValue && setSearchScope(data.optionValue as SearchScope)}
+              >
+                {(Object.keys(SEARCH_SCOPE_LABELS) as SearchScope[]).map((scope) => (
+                  <Option key={scope} value={scope}>
+                    {SEARCH_SCOPE_LABELS[scope]}
+                  </Option>
+                ))}
+              </Combobox>
+            </div>
+
+            {selectedDriveId && (
+              <FolderActions
+                token={token}
+                siteId={getCurrentSiteId()}
+                driveId={selectedDriveId}
+                libraryLabel={selectedLibraryProfile?.Label}
+                parentId={folderStack.length ? folderStack[folderStack.length - 1].id : "root"}
+                parentPath={currentPath}
+                disabled={archiveRunning}
+                onCreated={() => void reloadCurrentFolder().catch((e) => console.error("Error reloading folder:", e))}
+                onArchiveToPath={(path) => handleArchiveToPath(selectedDriveId, path)}
+                onStatus={setStatus}
+              />
+            )}
 
             <div style={{ marginTop: 4, marginBottom: 6 }}>
               <Caption1 style={{ color: statusMsg ? "#fff" : "#999", whiteSpace: "normal" }}>
                 {statusMsg || "Ready"}
               </Caption1>
             </div>
+          {/* 🏷️ File name review */}
+          {pendingArchive && (
+            <FileNameReview
+              items={pendingArchive.items}
+              extensionLabel={outputFormat === "both" ? ".eml + .pdf" : `.${outputFormat}`}
+              destination={pendingArchive.target.folderPath}
+              onChange={(restId, name) =>
+                setPendingArchive((p) =>
+                  p && { ...p, items: p.items.map((i) => (i.restId === restId ? { ...i, name } : i)) }
+                )
+              }
+              onConfirm={() => void exclusiveArchive(() => startArchive(pendingArchive))}
+              disabled={archiveRunning}
+              onCancel={() => {
+                setPendingArchive(null);
+                setStatus("Archive cancelled.");
+              }}
+            />
+          )}
+          {/* 📊 Archive progress */}
+          {activeJob && (
+            <ArchiveProgress job={activeJob} running={archiveRunning} onCancel={() => abortRef.current?.abort()} />
+          )}
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: "0.5rem" }}>
+            <Caption1 style={{ color: "#bbb" }}>Parallel uploads</Caption1>
+            <SpinButton
+              size="small"
+              min={1}
+              max={MAX_ARCHIVE_CONCURRENCY}
+              value={concurrency}
+              disabled={archiveRunning}
+              style={{ width: 70 }}
+              onChange={(_, data) => {
+                const raw = data.value ?? Number(data.displayValue);
+                if (raw === undefined || raw === null || isNaN(raw)) return;
+                setConcurrency(saveSettings({ archiveConcurrency: raw }).archiveConcurrency);
+              }}
+            />
+            <Caption1 style={{ color: "#bbb", marginLeft: 8 }}>Save as</Caption1>
+            <Combobox
+              size="small"
+              appearance="outline"
+              value={OUTPUT_FORMAT_LABELS[outputFormat]}
+              selectedOptions={[outputFormat]}
+              disabled={archiveRunning}
+              style={{ minWidth: 120 }}
+              onOptionSelect={(_, data) => {
+                const format = data.optionValue as ArchiveOutputFormat;
+                if (format) setOutputFormat(saveSettings({ outputFormat: format }).outputFormat);
+              }}
+            >
+              {(Object.keys(OUTPUT_FORMAT_LABELS) as ArchiveOutputFormat[]).map((f) => (
+                <Option key={f} value={f}>
+                  {OUTPUT_FORMAT_LABELS[f]}
+                </Option>
+              ))}
+            </Combobox>
+          </div>
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: "0.5rem" }}>
+            <Caption1 style={{ color: "#bbb" }}>If already archived</Caption1>
+            <Combobox
+              size="small"
+              appearance="outline"
+              value={CONFLICT_POLICY_LABELS[conflictPolicy]}
+              selectedOptions={[conflictPolicy]}
+              disabled={archiveRunning}
+              style={{ minWidth: 160 }}
+              onOptionSelect={(_, data) => {
+                const policy = data.optionValue as ConflictPolicy;
+                if (policy) setConflictPolicy(saveSettings({ conflictPolicy: policy }).conflictPolicy);
+              }}
+            >
+              {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((p) => (
+                <Option key={p} value={p}>
+                  {CONFLICT_POLICY_LABELS[p]}
+                </Option>
+              ))}
+            </Combobox>
+          </div>
+          <div style={{ marginBottom: "0.5rem" }}>
+            <Tooltip
+              content="Tokens: {received:yyyy-MM-dd} {fromName} {fromDomain} {subject} {conversationIndex} {projectNumber}. Leave empty to use the library's template."
+              relationship="description"
+            >
+              <Input
+                size="small"
+                placeholder={resolveFileNameTemplate("", findProfileForDrive(allLibraries, selectedDriveId)?.FilenameTemplate)}
+                value={templateOverride}
+                disabled={archiveRunning}
+                style={{ width: "100%" }}
+                onChange={(_, data) => {
+                  setTemplateOverride(data.value);
+                  saveSettings({ fileNameTemplate: data.value });
+                }}
+              />
+            </Tooltip>
+            {unknownTemplateTokens(templateOverride).length > 0 && (
+              <Caption1 style={{ color: "#ff6b6b" }}>
+                Unknown token(s): {unknownTemplateTokens(templateOverride).map((t) => `{${t}}`).join(", ")}
+              </Caption1>
+            )}
+            <Checkbox
+              label="Review file names before upload"
+              checked={reviewFileNames}
+              onChange={(_, data) => setReviewFileNames(saveSettings({ reviewFileNames: !!data.checked }).reviewFileNames)}
+            />
+            <Checkbox
+              label="Archive whole conversation"
+              checked={archiveConversation}
+              disabled={archiveRunning}
+              onChange={(_, data) => setArchiveConversation(!!data.checked)}
+            />
+            {archiveConversation && (
+              <Checkbox
+                label="Put it in a subfolder (start date + subject)"
+                checked={conversationSubfolder}
+                onChange={(_, data) =>
+                  setConversationSubfolder(saveSettings({ conversationSubfolder: !!data.checked }).conversationSubfolder)
+                }
+                style={{ marginLeft: 24 }}
+              />
+            )}
+          </div>
           {/* 🔁 Bulk retry section */}
           {bulkFailed.length > 0 && (
             <div style={{ marginBottom: "0.5rem" }}>
@@ -1273,10 +1453,13 @@ async function openBulkArchiveDialog() {
               <Button
                 size="small"
                 appearance="primary"
+                disabled={archiveRunning}
                 onClick={async () => {
-                  const failedIds = bulkFailed.map((f) => f.restId);
-                  setBulkFailed([]); // clear before retry
-                  await bulkArchiveMessagesSequential(failedIds, selectedDriveId!, currentPath);
+                  await exclusiveArchive(async () => {
+                    setBulkFailed([]); // clear before retry
+                    const jobIds = await requeueFailedItems();
+                    for (const jobId of jobIds) await runQueuedArchiveJob(jobId);
+                  });
                 }}
               >
                 Retry Failed Uploads
@@ -1284,6 +1467,23 @@ async function openBulkArchiveDialog() {
             </div>
           )}
 
+ {searchScope !== "folder" && searchQuery.trim() ? (
+  <LibrarySearchResults
+    hits={searchHits}
+    searching={searching}
+    error={searchError}
+    libraryLabel={searchScope === "all" ? (driveId) => findProfileForDrive(allLibraries, driveId)?.Label : undefined}
+    onOpen={(hit) => void jumpToFolder(hit.driveId, hit.isFolder ? hitFolderPath(hit) : hit.parentPath)}
+    disabled={archiveRunning}
+    onArchive={async (hit) => {
+      try {
+        await handleArchiveToPath(hit.driveId, hitFolderPath(hit), await siteIdForDrive(hit.driveId));
+      } catch (err: any) {
+        setStatus(`Upload failed: ${err?.message || err}`);
+      }
+    }}
+  />
+ ) : (
  <div className="scroll-section library-scroll">
   <ul
     style={{
@@ -1343,17 +1543,19 @@ async function openBulkArchiveDialog() {
                 <CloudArrowUpIcon
                   onClick={(e) => {
                     e.stopPropagation();
+                    if (archiveRunning) return;
                     if (!selectedDriveId) {
                       setStatus("Please open a library first.");
                       return;
                     }
-                    handleArchiveToPath(selectedDriveId, pathForThisRow);
+                    void handleArchiveToPath(selectedDriveId, pathForThisRow);
                   }}
                   style={{
                     width: 18,
                     height: 18,
-                    cursor: "pointer",
+                    cursor: archiveRunning ? "default" : "pointer",
                     color: darkOrange,
+                    opacity: archiveRunning ? 0.4 : 1,
                   }}
                 />
               </Tooltip>
@@ -1369,9 +1571,9 @@ async function openBulkArchiveDialog() {
                     const exists = favorites.some((f) => f.id === item.id);
                     const path = pathForThisRow;
                     if (exists) {
-                      setFavorites(favorites.filter((f) => f.id !== item.id));
+                      updateFavorites(favorites.filter((f) => f.id !== item.id));
                     } else {
-                      setFavorites([
+                      updateFavorites([
                         ...favorites,
                         { id: item.id, name: item.name, driveId: selectedDriveId!, path },
                       ]);
@@ -1395,7 +1597,18 @@ async function openBulkArchiveDialog() {
     )}
   </ul>
 </div>
+ )}
 </Card>
+
+          {/* ✉️ Post-archive mailbox actions */}
+          <PostArchiveSettings
+            token={token}
+            libraryDefault={selectedLibraryProfile?.PostArchiveActions}
+            libraryLabel={selectedLibraryProfile?.Label || selectedDriveName || undefined}
+          />
+
+          {/* 🧾 Archive history (local audit log) */}
+          <ArchiveHistory token={token} refreshKey={archiveRunning ? 1 : 0} />
 </div>
 </div>
 </FluentProvider>
@@ -0,0 +1,174 @@
+// src/taskpane/TeamsDestinations.tsx
+import * as React from "react";
+import { useState } from "react";
+import { Button, Caption1, Card, Spinner, Tooltip } from "@fluentui/react-components";
+import { CloudArrowUpIcon, FolderOpenIcon, StarIcon } from "@heroicons/react/24/solid";
+import { TokenSource } from "../graphClient";
+import {
+  listJoinedTeams,
+  listTeamChannels,
+  requestTeamsAccess,
+  resolveChannelFolder,
+  ChannelFolder,
+  JoinedTeam,
+  TeamChannel,
+} from "../teamsDirectory";
+
+const darkOrange = "#FF8C00";
+
+interface Props {
+  token: TokenSource;
+  disabled?: boolean;
+  onOpen: (folder: ChannelFolder) => void;
+  onArchive: (folder: ChannelFolder) => void;
+  onSave: (folder: ChannelFolder) => void;
+}
+
+const CHANNEL_ICONS: Record<string, string> = { private: "🔒", shared: "🤝" };
+const CHANNEL_TIPS: Record<string, string> = {
+  private: "Private channel (files in its own site)",
+  shared: "Shared channel (files in its own site)",
+};
+
+const iconStyle = (disabled?: boolean): React.CSSProperties => ({
+  width: 16,
+  height: 16,
+  flexShrink: 0,
+  cursor: disabled ? "default" : "pointer",
+  color: darkOrange,
+  opacity: disabled ? 0.4 : 1,
+});
+
+/**
+ * The user's teams and their channels as destinations. Teams load when the
+ * card is expanded (asking for the Teams permissions the first time),
+ * channels when a team is; a channel's library and
+ * folder are looked up the first time it's used.
+ */
+export default function TeamsDestinations({ token, disabled, onOpen, onArchive, onSave }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [teams, setTeams] = useState<JoinedTeam[] | null>(null);
+  const [channels, setChannels] = useState<Record<string, TeamChannel[]>>({});
+  const [openTeam, setOpenTeam] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  async function expand() {
+    setCollapsed(!collapsed);
+    if (teams || !collapsed) return;
+    setBusy("teams");
+    setError("");
+    try {
+      await requestTeamsAccess();
+      setTeams(await listJoinedTeams());
+    } catch (e: any) {
+      setError(`Couldn't load your teams: ${e?.message || e}`);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function toggleTeam(team: JoinedTeam) {
+    if (openTeam === team.id) {
+      setOpenTeam(null);
+      return;
+    }
+    setOpenTeam(team.id);
+    if (channels[team.id]) return;
+    setBusy(team.id);
+    setError("");
+    try {
+      const list = await listTeamChannels(team.id);
+      setChannels((c) => ({ ...c, [team.id]: list }));
+    } catch (e: any) {
+      setError(`Couldn't load channels of ${team.displayName}: ${e?.message || e}`);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  // Resolve the channel's folder, then act on it
+  async function withFolder(team: JoinedTeam, channel: TeamChannel, action: (folder: ChannelFolder) => void) {
+    if (disabled) return;
+    setBusy(channel.id);
+    setError("");
+    try {
+      action(await resolveChannelFolder(token, team, channel));
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <Card style={{ padding: "0.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ color: darkOrange, fontWeight: "bold", margin: 0 }}>Teams</h3>
+        <Button size="small" onClick={() => void expand()}>
+          {collapsed ? "▼" : "▲"}
+        </Button>
+      </div>
+      {!collapsed && (
+        <div style={{ marginTop: "0.4rem" }}>
+          {busy === "teams" && <Spinner size="tiny" />}
+          {error && <Caption1 style={{ color: "#ff6b6b", display: "block" }}>{error}</Caption1>}
+          {teams && !teams.length && <Caption1 style={{ color: "#999" }}>You aren't a member of any team.</Caption1>}
+          <ul style={{ color: "white", listStyle: "none", paddingLeft: "0.5rem", margin: 0 }}>
+            {(teams || []).map((team) => (
+              <li key={team.id} style={{ marginBottom: 4 }}>
+                <span style={{ cursor: "pointer", fontWeight: 600 }} onClick={() => void toggleTeam(team)}>
+                  {openTeam === team.id ? "▾" : "▸"} {team.displayName}
+                </span>
+                {busy === team.id && <Spinner size="extra-tiny" style={{ display: "inline-flex", marginLeft: 6 }} />}
+                {openTeam === team.id && (
+                  <ul style={{ listStyle: "none", paddingLeft: "1rem", margin: "0.2rem 0 0" }}>
+                    {(channels[team.id] || []).map((channel) => (
+                      <li
+                        key={channel.id}
+                        style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 2 }}
+                      >
+                        <Tooltip
+                          content={CHANNEL_TIPS[channel.membershipType || ""] || "Standard channel"}
+                          relationship="description"
+                        >
+                          <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                            {CHANNEL_ICONS[channel.membershipType || ""] || "#"} {channel.displayName}
+                          </span>
+                        </Tooltip>
+                        {busy === channel.id ? (
+                          <Spinner size="extra-tiny" />
+                        ) : (
+                          <>
+                            <Tooltip content="Browse the channel's files" relationship="description">
+                              <FolderOpenIcon
+                                style={iconStyle(disabled)}
+                                onClick={() => void withFolder(team, channel, onOpen)}
+                              />
+                            </Tooltip>
+                            <Tooltip content="Add to favorites" relationship="description">
+                              <StarIcon
+                                style={iconStyle(disabled)}
+                                onClick={() => void withFolder(team, channel, onSave)}
+                              />
+                            </Tooltip>
+                            <Tooltip content="Archive selected email(s) here" relationship="description">
+                              <CloudArrowUpIcon
+                                style={iconStyle(disabled)}
+                                onClick={() => void withFolder(team, channel, onArchive)}
+                              />
+                            </Tooltip>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
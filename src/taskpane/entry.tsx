@@ -1,18 +1,24 @@
 import * as React from "react";
 import * as ReactDOM from "react-dom/client";
 import TaskPane from "./TaskPane";
+import SetupScreen from "./SetupScreen";
 import { FluentProvider, webLightTheme } from "@fluentui/react-components";
+import { loadConfig } from "../config";
 
-// Safe Office loader
-function renderTaskpane() {
+// Safe Office loader; the runtime config has to load before anything signs in
+async function renderTaskpane() {
   const container = document.getElementById("container");
   if (container) {
     const root = ReactDOM.createRoot(container);
-    root.render(
-      <FluentProvider theme={webLightTheme}>
-        <TaskPane />
-      </FluentProvider>
-    );
+    let page: React.ReactNode;
+    try {
+      await loadConfig();
+      page = <TaskPane />;
+    } catch (e) {
+      console.error("Flowpoint config invalid:", e);
+      page = <SetupScreen error={e} />;
+    }
+    root.render(<FluentProvider theme={webLightTheme}>{page}</FluentProvider>);
   }
 }
 
@@ -21,7 +27,7 @@ function waitForOfficeReady() {
   if (typeof Office !== "undefined" && Office.onReady) {
     Office.onReady(() => {
       console.log("✅ Office.js ready – rendering taskpane");
-      renderTaskpane();
+      void renderTaskpane();
     });
   } else {
     console.warn("⚠️ Office not yet defined, retrying...");
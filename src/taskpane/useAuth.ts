@@ -0,0 +1,33 @@
+// src/taskpane/useAuth.ts
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getAuthState,
+  graphToken,
+  initAuth,
+  signIn,
+  signOut,
+  subscribeAuth,
+  AuthState,
+} from "../authService";
+import { TokenSource } from "../graphClient";
+
+export interface UseAuth extends AuthState {
+  /** Graph token function while signed in, "" otherwise */
+  token: TokenSource;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Sign-in state from the shared auth service. The first component to use
+ * it picks up an existing sign-in silently.
+ */
+export function useAuth(): UseAuth {
+  const state = useSyncExternalStore(subscribeAuth, getAuthState);
+
+  useEffect(() => {
+    if (getAuthState().status === "initializing") void initAuth();
+  }, []);
+
+  return { ...state, token: state.status === "signedIn" ? graphToken : "", signIn, signOut };
+}
@@ -0,0 +1,142 @@
+// src/teamsDirectory.ts
+import { graphGET, graphGetAll, isGraphError, TokenSource } from "./graphClient";
+import { pathFromParentReference } from "./driveFolders";
+import { LibraryProfile } from "./libraryProfiles";
+import { getScopedToken } from "./authService";
+import { teamsRequest } from "./authConfig";
+
+/**
+ * Teams channels as archive destinations. Every channel keeps its files in
+ * a folder of a SharePoint library: standard channels in the team site's
+ * library, private and shared channels in a site of their own. Graph's
+ * `filesFolder` tells us which drive and folder that is.
+ */
+
+export interface JoinedTeam {
+  id: string;
+  displayName: string;
+  description?: string;
+}
+
+export type ChannelMembership = "standard" | "private" | "shared" | "unknownFutureValue";
+
+export interface TeamChannel {
+  id: string;
+  displayName: string;
+  membershipType?: ChannelMembership;
+}
+
+/** Where a channel's files live. */
+export interface ChannelFolder {
+  teamId: string;
+  channelId: string;
+  /** "Team › Channel" */
+  label: string;
+  driveId: string;
+  /** The channel folder's item id */
+  folderId: string;
+  /** Path of the channel folder from the library root */
+  path: string;
+  /** The library, as the folder browser opens it */
+  library: LibraryProfile;
+}
+
+/** Token for the teams and channels lists; their scopes aren't part of the sign-in. */
+const teamsToken: TokenSource = (opts) =>
+  getScopedToken(teamsRequest.scopes, { forceRefresh: opts?.forceRefresh });
+
+/** Ask for the Teams scopes (a consent popup the first time); call when the picker opens. */
+export async function requestTeamsAccess(): Promise<void> {
+  await getScopedToken(teamsRequest.scopes, { interactive: true });
+}
+
+export async function listJoinedTeams(): Promise<JoinedTeam[]> {
+  const teams = await graphGetAll<JoinedTeam>(
+    "/me/joinedTeams?$select=id,displayName,description",
+    teamsToken
+  );
+  return teams.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/** Standard, private and shared channels of a team (incl. shared channels from other teams). */
+export async function listTeamChannels(teamId: string): Promise<TeamChannel[]> {
+  const channels = await graphGetAll<TeamChannel>(
+    `/teams/${teamId}/allChannels?$select=id,displayName,membershipType`,
+    teamsToken
+  );
+  return channels.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+interface RawFilesFolder {
+  id: string;
+  name: string;
+  parentReference?: { driveId?: string; path?: string };
+}
+
+interface RawDrive {
+  id: string;
+  name: string;
+  sharepointIds?: { siteUrl?: string };
+}
+
+const folderCache = new Map<string, Promise<ChannelFolder>>();
+
+/** Resolve a channel's files folder to its drive, folder and site (cached). */
+export function resolveChannelFolder(
+  token: TokenSource,
+  team: JoinedTeam,
+  channel: TeamChannel
+): Promise<ChannelFolder> {
+  const key = `${team.id}|${channel.id}`;
+  let cached = folderCache.get(key);
+  if (!cached) {
+    cached = (async () => {
+      let folder: RawFilesFolder;
+      try {
+        folder = await graphGET<RawFilesFolder>(
+          `/teams/${team.id}/channels/${encodeURIComponent(channel.id)}/filesFolder?$select=id,name,parentReference`,
+          token
+        );
+      } catch (e) {
+        // Private/shared channel sites are created the first time someone opens the Files tab
+        if (isGraphError(e) && e.status === 404)
+          throw new Error(
+            `"${channel.displayName}" has no files yet. Open its Files tab in Teams once, then try again.`
+          );
+        throw e;
+      }
+      const driveId = folder.parentReference?.driveId || "";
+      if (!driveId) throw new Error(`Couldn't find the library behind "${channel.displayName}".`);
+      const drive = await graphGET<RawDrive>(
+        `/drives/${driveId}?$select=id,name,sharepointIds`,
+        token
+      );
+      const siteUrl = drive.sharepointIds?.siteUrl || "";
+      if (!siteUrl) throw new Error(`Couldn't find the site behind "${channel.displayName}".`);
+      const parent = pathFromParentReference(folder.parentReference?.path);
+      const label = `${team.displayName} › ${channel.displayName}`;
+      return {
+        teamId: team.id,
+        channelId: channel.id,
+        label,
+        driveId,
+        folderId: folder.id,
+        path: parent ? `${parent}/${folder.name}` : folder.name,
+        library: {
+          DepartmentOrGroup: "",
+          // Private/shared channels have a library of their own; name it after the channel
+          Label:
+            channel.membershipType === "standard"
+              ? `${team.displayName} / ${drive.name}`
+              : `${label} / ${drive.name}`,
+          SiteUrl: siteUrl,
+          DriveId: driveId,
+          Personal: true,
+        },
+      };
+    })();
+    cached.catch(() => folderCache.delete(key));
+    folderCache.set(key, cached);
+  }
+  return cached;
+}
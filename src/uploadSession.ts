@@ -0,0 +1,266 @@
+// src/uploadSession.ts
+import { graphPOST, toGraphError, withRetry, TokenSource } from "./graphClient";
+
+/* global AbortSignal, Blob, ReadableStream, ReadableStreamDefaultReader, console, fetch */
+
+/**
+ * Graph large-file upload sessions, with resume support.
+ * A session's uploadUrl is pre-authenticated, so chunk PUTs carry no token.
+ */
+
+// Must be a multiple of 320 KiB (Graph requirement); 16 × 320 KiB = 5 MiB
+export const UPLOAD_CHUNK_SIZE = 16 * 320 * 1024;
+
+export interface UploadSessionState {
+  uploadUrl: string;
+  expirationDateTime?: string;
+  nextExpectedRanges?: string[];
+}
+
+export type ConflictBehavior = "rename" | "replace" | "fail";
+
+export async function createUploadSession(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  encodedPath: string,
+  conflictBehavior: ConflictBehavior = "rename",
+  signal?: AbortSignal
+): Promise<UploadSessionState> {
+  const session = await graphPOST<UploadSessionState>(
+    `/sites/${siteId}/drives/${driveId}/root:/${encodedPath}:/createUploadSession`,
+    token,
+    { item: { "@microsoft.graph.conflictBehavior": conflictBehavior } },
+    { signal }
+  );
+  return {
+    uploadUrl: session.uploadUrl,
+    expirationDateTime: session.expirationDateTime,
+    nextExpectedRanges: session.nextExpectedRanges,
+  };
+}
+
+/** Session that overwrites the content of an existing item (keeps its id and metadata). */
+export async function createItemUploadSession(
+  token: TokenSource,
+  siteId: string,
+  driveId: string,
+  itemId: string,
+  signal?: AbortSignal
+): Promise<UploadSessionState> {
+  const session = await graphPOST<UploadSessionState>(
+    `/sites/${siteId}/drives/${driveId}/items/${itemId}/createUploadSession`,
+    token,
+    { item: { "@microsoft.graph.conflictBehavior": "replace" } },
+    { signal }
+  );
+  return {
+    uploadUrl: session.uploadUrl,
+    expirationDateTime: session.expirationDateTime,
+    nextExpectedRanges: session.nextExpectedRanges,
+  };
+}
+
+/** True while the session has at least a minute left before Graph expires it. */
+export function isSessionUsable(session?: UploadSessionState | null): boolean {
+  if (!session?.uploadUrl) return false;
+  if (!session.expirationDateTime) return true;
+  return Date.parse(session.expirationDateTime) - Date.now() > 60 * 1000;
+}
+
+/**
+ * Ask Graph where a session left off. Returns null when the session is
+ * gone (expired, cancelled or already completed).
+ */
+export async function getUploadSessionStatus(
+  uploadUrl: string
+): Promise<UploadSessionState | null> {
+  const resp = await fetch(uploadUrl);
+  if (resp.status === 404) return null;
+  if (!resp.ok) throw await toGraphError(resp, "Upload session status");
+  const json = await resp.json();
+  return {
+    uploadUrl,
+    expirationDateTime: json.expirationDateTime,
+    nextExpectedRanges: json.nextExpectedRanges,
+  };
+}
+
+/** Discard a session (e.g. after the user cancels). Best effort. */
+export async function cancelUploadSession(uploadUrl: string): Promise<void> {
+  try {
+    await fetch(uploadUrl, { method: "DELETE" });
+  } catch (e) {
+    console.warn("Could not cancel upload session:", e);
+  }
+}
+
+/** First byte Graph still expects, from ranges like ["26214400-"]. */
+export function resumeOffset(nextExpectedRanges?: string[]): number {
+  if (!nextExpectedRanges?.length) return 0;
+  const start = parseInt(nextExpectedRanges[0].split("-")[0], 10);
+  return isNaN(start) ? 0 : start;
+}
+
+export interface UploadProgress {
+  session: UploadSessionState;
+  bytesUploaded: number;
+  bytesTotal: number;
+}
+
+/**
+ * File content read front to back without holding it in memory (e.g. a
+ * large message piped from its download). `open` may be called again when
+ * an upload has to go back to an earlier byte.
+ */
+export interface StreamedContent {
+  /** Upload sessions need the total up front */
+  size: number;
+  open(signal?: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+}
+
+export type UploadContent = Blob | StreamedContent;
+
+export function isStreamedContent(content: UploadContent): content is StreamedContent {
+  return typeof (content as StreamedContent).open === "function";
+}
+
+export interface UploadToSessionOptions {
+  startOffset?: number;
+  signal?: AbortSignal;
+  /** Called after every accepted chunk; persist `session` to resume later. */
+  onChunk?: (progress: UploadProgress) => void | Promise<void>;
+}
+
+/**
+ * Reads a StreamedContent into chunk-sized buffers, so at most one chunk
+ * (plus the read in flight) is in memory. Seeking back reopens the stream.
+ */
+function createChunkReader(content: StreamedContent, signal?: AbortSignal) {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let position = 0;
+  let leftover: Uint8Array | null = null;
+
+  async function next(): Promise<Uint8Array | null> {
+    if (leftover) {
+      const bytes = leftover;
+      leftover = null;
+      return bytes;
+    }
+    if (!reader) reader = (await content.open(signal)).getReader();
+    const { done, value } = await reader.read();
+    return done ? null : value;
+  }
+
+  async function seek(offset: number) {
+    if (offset < position) {
+      await close();
+      position = 0;
+    }
+    while (position < offset) {
+      const bytes = await next();
+      if (!bytes) throw new Error("The content ended before the upload position.");
+      const skip = Math.min(bytes.byteLength, offset - position);
+      if (skip < bytes.byteLength) leftover = bytes.subarray(skip);
+      position += skip;
+    }
+  }
+
+  /** Up to `size` bytes (fewer only when the stream ends). */
+  async function read(size: number): Promise<Uint8Array<ArrayBuffer>> {
+    const chunk = new Uint8Array(size);
+    let filled = 0;
+    while (filled < size) {
+      const bytes = await next();
+      if (!bytes) break;
+      const take = Math.min(bytes.byteLength, size - filled);
+      chunk.set(bytes.subarray(0, take), filled);
+      if (take < bytes.byteLength) leftover = bytes.subarray(take);
+      filled += take;
+    }
+    position += filled;
+    return filled < size ? chunk.slice(0, filled) : chunk;
+  }
+
+  async function close() {
+    leftover = null;
+    const r = reader;
+    reader = null;
+    if (r) await r.cancel().catch(() => undefined);
+  }
+
+  return { seek, read, close };
+}
+
+/**
+ * PUT `content` to the session in chunks, starting at `startOffset`.
+ * A Blob is sliced; streamed content is read chunk by chunk as it goes.
+ * Resolves with the driveItem Graph returns for the final chunk.
+ */
+export async function uploadToSession<T = any>(
+  session: UploadSessionState,
+  content: UploadContent,
+  opts: UploadToSessionOptions = {}
+): Promise<T> {
+  const { signal, onChunk } = opts;
+  const total = content.size;
+  let offset = opts.startOffset || 0;
+  let current: UploadSessionState = { ...session };
+  const stream = isStreamedContent(content) ? createChunkReader(content, signal) : null;
+
+  try {
+    while (offset < total) {
+      const size = Math.min(UPLOAD_CHUNK_SIZE, total - offset);
+      let body: Blob | Uint8Array<ArrayBuffer>;
+      if (stream) {
+        await stream.seek(offset);
+        body = await stream.read(size);
+        if (body.byteLength < size) {
+          throw new Error(`The content ended after ${offset + body.byteLength} of ${total} bytes.`);
+        }
+      } else {
+        body = (content as Blob).slice(offset, offset + size);
+      }
+      const end = offset + size - 1;
+
+      const resp = await withRetry(
+        async () => {
+          const r = await fetch(current.uploadUrl, {
+            method: "PUT",
+            signal,
+            headers: {
+              "Content-Length": String(size),
+              "Content-Range": `bytes ${offset}-${end}/${total}`,
+            },
+            body,
+          });
+          if (!(r.ok || r.status === 202 || r.status === 201))
+            throw await toGraphError(r, "Chunk upload");
+          return r;
+        },
+        { signal }
+      );
+
+      const json = await resp.json().catch(() => ({}));
+      offset += size;
+
+      if (resp.status === 200 || resp.status === 201) {
+        await onChunk?.({ session: current, bytesUploaded: total, bytesTotal: total });
+        return json as T;
+      }
+
+      current = {
+        uploadUrl: current.uploadUrl,
+        expirationDateTime: json.expirationDateTime || current.expirationDateTime,
+        nextExpectedRanges: json.nextExpectedRanges,
+      };
+      // Graph may ask for something other than the next sequential byte
+      if (json.nextExpectedRanges?.length) offset = resumeOffset(json.nextExpectedRanges);
+      await onChunk?.({ session: current, bytesUploaded: offset, bytesTotal: total });
+    }
+  } finally {
+    await stream?.close();
+  }
+
+  throw new Error("Upload finished without Graph returning the created item.");
+}
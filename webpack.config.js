@@ -5,8 +5,13 @@ const CopyWebpackPlugin = require("copy-webpack-plugin");
 const HtmlWebpackPlugin = require("html-webpack-plugin");
 
 // ✅ URLs for dev vs production
+// Production URL per deployment (required): `webpack --env publicUrl=https://…/` or FLOWPOINT_PUBLIC_URL,
+// e.g. https://mindsap-dev.github.io/flowpoint-dev/ for GitHub Pages
 const urlDev = "https://localhost:3000/";
-const urlProd = "https://mindsap-dev.github.io/flowpoint-dev/"; // ✅ GitHub Pages public URL
+
+function withTrailingSlash(url) {
+  return url.endsWith("/") ? url : `${url}/`;
+}
 
 async function getHttpsOptions() {
   const httpsOptions = await devCerts.getHttpsServerOptions();
@@ -15,6 +20,16 @@ async function getHttpsOptions() {
 
 module.exports = async (env, options) => {
   const dev = options.mode === "development";
+  const publicUrl = (env && env.publicUrl) || process.env.FLOWPOINT_PUBLIC_URL;
+  // Manifests built without it would point Outlook at the wrong host
+  if (!dev && !publicUrl) {
+    throw new Error(
+      "Production builds need the add-in's public URL: webpack --env publicUrl=https://…/ or FLOWPOINT_PUBLIC_URL."
+    );
+  }
+  const urlProd = withTrailingSlash(publicUrl || urlDev);
+  // Runtime config (tenant, app id, sites, lists); swap the file per deployment, no rebuild needed
+  const configFile = (env && env.config) || process.env.FLOWPOINT_CONFIG || "flowpoint.config.json";
 
   return {
     devtool: "source-map",
@@ -95,12 +110,13 @@ module.exports = async (env, options) => {
         },
       }),
 
-      // ✅ Copy manifest and replace URLs for production
+      // ✅ Copy manifests + runtime config, replacing URLs for production
       new CopyWebpackPlugin({
         patterns: [
           { from: "assets/*", to: "assets/[name][ext][query]" },
+          { from: configFile, to: "flowpoint.config.json" },
           {
-            from: "manifest*.xml",
+            from: "manifest*.{xml,json}",
             to: "[name][ext]",
             transform(content) {
               return dev